@@ -1,14 +1,146 @@
 module.exports = {
     /**
      *  S3 bucket where report / analysis compressed dumps are stored
-     *  The actual location is:
-     *      ${s3_bucket}/${db_connection.database}/${db_connection.schema}/(analysis|report)_nnn.dump
+     *  Each archived version is stored as:
+     *      ${s3_bucket}/${db_connection.database}/${db_connection.schema}/(analysis|report)_<id>/<version>.dump
+     *  with its manifest next to it, as <version>.manifest.json. Dumps archived
+     *  before versions were kept remain at .../(analysis|report)_<id>.dump
      */
     "s3_bucket": "tomtomapac.com.trafficstats",
+    /**
+     *  Archive storage backend. "type" is one of:
+     *      s3      - dumps are stored in "bucket" (defaults to s3_bucket)
+     *      file    - dumps are stored below the local "directory"
+     *      memory  - dumps are kept in process memory (tests only)
+     *  When omitted, dumps are stored in s3_bucket.
+     */
+    "storage": {
+        "type": "s3"
+    },
+    /**
+     *  Rules selecting the reports archived by archiveStaleReports(). A
+     *  report is selected only if every configured rule holds:
+     *      min_age_days    - report row is at least this many days old, using
+     *                        the timestamp "age_column" of the report table,
+     *                        which must be set along with it
+     *      min_idle_days   - no stats_<id>_* table scanned for this many days
+     *                        (needs Postgres 16 or later to be tracked; older
+     *                        servers select no report)
+     *      min_total_bytes - report tables use at least this many bytes
+     *      allow           - if not empty, only these report ids are considered
+     *      deny            - report ids never archived by the policy
+     *      limit           - maximum number of reports archived per batch
+     */
+    "archive_policy": {
+        "min_idle_days": 365,
+        // "min_age_days": 365,
+        // "age_column": "created",
+        "deny": []
+    },
+    /**
+     *  Archived versions kept by pruneVersions() (the CLI "prune" command).
+     *  Every archive of a report/analysis is stored as a new version; a
+     *  version is kept if it is one of the keep_last most recent versions of
+     *  its object or is younger than max_age_days. The version an archived
+     *  object would be restored from is always kept. Without either setting,
+     *  nothing is pruned.
+     */
+    "retention": {
+        "keep_last": 3,
+        "max_age_days": 90
+    },
+    /**
+     *  Maximum number of pg_dumps, pg_restores and transfers to/from archive
+     *  storage run at once, e.g. when an analysis needing many archived
+     *  reports is restored. Further work waits in a queue. Defaults are
+     *  dump 2, restore 2 and transfer 4.
+     */
+    "concurrency": {
+        "dump": 2,
+        "restore": 2,
+        "transfer": 4
+    },
+    /**
+     *  How dumps are taken (see src/formats.ts). "format" is "custom" (a
+     *  single pg_dump -Fc file) or "directory" (pg_dump -Fd with "jobs"
+     *  parallel jobs, stored as a tar file and restored with pg_restore -j
+     *  "jobs"). Each dump/restore slot of "concurrency" may then use "jobs"
+     *  DB connections. "compression" is the pg_dump compression level, 0-9.
+     *  Every dump is restored according to the format it was taken in.
+     *  Defaults to the custom format and pg_dump's default compression.
+     */
+    "dump": {
+        "format": "custom",
+        "jobs": 1
+    },
+    /**
+     *  When true, dumps are piped straight from pg_dump to archive storage
+     *  (as a multipart upload for S3) and from archive storage into
+     *  pg_restore, instead of going through temporary files. Memory use is
+     *  bounded by the upload part size. Directory format dumps always go
+     *  through temporary files. A streamed restore is only verified once it
+     *  is complete: what it restored is dropped again if the dump turns out
+     *  to be corrupt. Defaults to false.
+     */
+    "streaming": false,
     /**
      *  Directory where pg_restore, pg_dump, and psql binaries are located
      */
     "pg_prefix": "/usr/local/bin",
+    /**
+     *  How the DB password is passed to pg_dump, pg_restore and psql: "env"
+     *  (in PGPASSWORD) or "pgpass" (in a temporary pgpass file readable only
+     *  by the current user). It never appears on their command lines.
+     *  Defaults to "env".
+     */
+    "pg_credentials": "env",
+    /**
+     * Optional client-side encryption of everything written to archive
+     * storage (see src/encryption.ts). Each dump is encrypted with a data key
+     * of its own, wrapped by the current master key of the provider. The
+     * "keyfile" provider reads its master keys from a JSON file
+     *  {"current": "<key id>", "keys": {"<key id>": "<base64 of 32 bytes>", ...}}
+     * which must keep retired keys for as long as archives use them.
+     * Without this section, dumps are stored unencrypted.
+     */
+    // "encryption": {
+    //     "provider": "keyfile",
+    //     "keyfile": "/etc/ts-archive-restore/keys.json"
+    // },
+    /**
+     * Retries of the steps that failed for a transient reason (S3 5xx or
+     * throttling, network errors, dropped DB connections), see src/retry.ts.
+     * "storage" applies to uploads/downloads and other archive storage
+     * requests, "db" to the SELECTs run outside of a transaction. The delay
+     * before the first retry is doubled for every further one, up to
+     * "max_delay_ms", and jittered. Defaults to 4 storage attempts from 500 ms
+     * up to 10 s, and 3 db attempts from 200 ms up to 5 s. Set "attempts" to 1
+     * to disable retries.
+     */
+    "retry": {
+        "storage": { "attempts": 4, "base_delay_ms": 500, "max_delay_ms": 10000 },
+        "db": { "attempts": 3, "base_delay_ms": 200, "max_delay_ms": 5000 }
+    },
+    /**
+     * Bookkeeping columns and tables of the archiver, see src/schema.ts. With
+     * "check" (the default), an archiver refuses to run until every migration
+     * has been applied, with ensureSchema() or "ts-archive-restore migrate".
+     * With "migrate", it applies the missing migrations itself before its
+     * first operation.
+     */
+    "schema": {
+        "check": true,
+        "migrate": false
+    },
+    /**
+     * HTTP listener serving the metrics of the archives/restores in Prometheus
+     * text format, started by serveMetrics(). The application may instead
+     * serve the text returned by getMetrics() itself.
+     */
+    // "metrics": {
+    //     "port": 9465,
+    //     "path": "/metrics"
+    // },
     /**
      * Logging configuration 
      */
@@ -24,7 +156,16 @@ module.exports = {
         /**
          * Logging level for both console and file log transports
          */
-        "level": "debug"
+        "level": "debug",
+        /**
+         * Set to false to log to the file only (the CLI does so for --json output)
+         */
+        "console": true,
+        /**
+         * "text", or "json" to write every line as a JSON object holding its
+         * fields (correlation id, operation, object, stage, duration)
+         */
+        "format": "text"
     },
     /**
      * trafficstats DB configuration for pg_promise
@@ -36,6 +177,6 @@ module.exports = {
         "user": "postgres",
         "password": "xxxxxxx",
         "number": 2,  // Number of connections in pool
-        "schema": "public"
+        "schema": "public"  // Lower case letters, digits, "_" and "$" only
     }
 }
@@ -0,0 +1,2765 @@
+/**
+ * An Archiver archives and restores the trafficstats DB objects of one
+ * database to/from archive storage. Everything it needs (DB connection,
+ * storage backend, logger, prepared statements, job ledger) is bound to the
+ * instance, so several archivers for different databases can coexist in a
+ * process. Create one with createArchiver(config, deps), where deps may
+ * supply any of the DB connection, storage backend, key provider and logger,
+ * e.g. to share them or to substitute them in tests.
+ *
+ * The bookkeeping columns the archiver relies upon (archive_location,
+ * archive_timestamp, archive_checksum and restore_timestamp of report and
+ * analysis), the archive_job table described in jobs.ts, the archive_version
+ * table described in versions.ts and the archive_history table described in
+ * history.ts are created by ensureSchema(), which applies the migrations of
+ * schema.ts. The schema is checked before the first operation of an
+ * archiver, which refuses to run if it does not match.
+ *
+ * Each dump is stored with its SHA-256 (see integrity.ts) and a manifest of
+ * the tables it holds (see manifest.ts), both of which are checked when it is
+ * restored. Every archive of an object is kept as a separate version until it
+ * is pruned (see versions.ts).
+ *
+ * Archives and restores lock every report/analysis they touch (see locks.ts),
+ * so concurrent operations on the same objects, in this process or another,
+ * run one after the other. Callers asking for an archive/restore that is
+ * already in flight in this process share its result.
+ *
+ * pg_dumps, pg_restores and transfers to/from archive storage go through
+ * bounded queues (see queue.ts), whose limits are set by the "concurrency"
+ * section of the configuration. With "streaming" set, dumps are piped between
+ * pg_dump/pg_restore and archive storage instead of going through temporary
+ * files. Dumps are taken in the custom or the parallel directory format
+ * selected by the "dump" section (see formats.ts), and restored according to
+ * the format recorded with them. pg_dump, pg_restore and psql are run without
+ * a shell and without the DB password on their command lines (see
+ * process.ts). With an "encryption" section (or a key provider in deps),
+ * everything written to archive storage is encrypted client-side (see
+ * encryption.ts).
+ *
+ * Archives and restores return an Operation (see progress.ts), which emits
+ * their stages, the bytes they transfer and the operations they cascade to.
+ * Every one of them is recorded in the archive_history table (see history.ts),
+ * along with the initiator passed by the caller.
+ */
+
+import tmp = require("tmp");
+import fs = require('fs');
+import http = require('http');
+import _ = require('lodash');
+import * as pgPromise from 'pg-promise';
+import {
+    Config, PreparedStatement, Job, ObjectType, ResumeResult,
+    TablePlan, ObjectArchivePlan, ArchivePlan, ObjectRestorePlan, RestorePlan,
+    ArchivePolicy, ReportActivity, PolicySelection, BatchArchiveResult, ObjectStatus,
+    ObjectMetadata, Manifest, ManifestTable, StoredDump, ArchiveVersion, RetentionPolicy, PruneResult,
+    DumpFormat, DumpOptions, ArchiveListQuery, ObjectStatusPage, Discrepancy, ReconcileReport, TransferListener, JobOperation,
+    SchemaMigrationResult, HistoryQuery, HistoryPage
+} from "./types";
+import {
+    NotPresentError, NotArchivedError, NotFoundError, IntegrityError, ManifestMismatchError, BatchError
+} from "./errors";
+import { CHECKSUM_METADATA_KEY, sha256File, HashStream } from "./integrity";
+import { MANIFEST_VERSION, MANIFEST_METADATA_KEY, compareManifest } from "./manifest";
+import { Logger } from "./logger";
+import { policyExclusions, validatePolicy, idleTrackingUnsupported } from "./policy";
+import { Statements } from "./statements";
+import { StorageBackend, createStorage, normalizeLocation, countTransfer } from "./storage";
+import { JobLedger } from "./jobs";
+import { VersionHistory, newVersion, selectPrunable } from "./versions";
+import { History } from "./history";
+import { LockManager, LockKey } from "./locks";
+import { WorkQueue, DEFAULT_CONCURRENCY, settleAll } from "./queue";
+import { PgRunner } from "./process";
+import {
+    FORMAT_METADATA_KEY, dumpOptions, metadataFormat, pgDumpArgs, pgRestoreArgs,
+    packDirectory, unpackDirectory, removeDirectory
+} from "./formats";
+import { KeyProvider, EncryptedStorage, createKeyProvider } from "./encryption";
+import { ReconcileInventory, OWNED_TABLES_REGEX, findDiscrepancies, manifestLocation } from "./reconcile";
+import { Operation, ProgressReporter, noProgress } from "./progress";
+import { MetricsRegistry, ArchiveMetrics, serveMetrics, DEFAULT_METRICS_PATH } from "./metrics";
+import { Retrier, RetryingStorage, retryingDatabase } from "./retry";
+import { SchemaManager } from "./schema";
+
+let squel = require("squel").useFlavour("postgres");
+
+/**
+ * pg-promise is initialized once per process and shared by all archivers
+ */
+const pgp: pgPromise.IMain = pgPromise();
+
+type DBType = pgPromise.IDatabase<any>;
+
+/**
+ * Return whether the error is that of a query that did not return the row
+ * it expected
+ */
+function isNoData(err): boolean {
+    return err instanceof pgp.errors.QueryResultError;
+}
+
+/**
+ * Number of archived objects listed per page unless the query says otherwise
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * DROP statement of each kind of relation matched by tables_matching_sql
+ */
+const DROP_STATEMENTS: { [kind: string]: string } = {
+    r: "drop table if exists $1~.$2~ cascade",
+    p: "drop table if exists $1~.$2~ cascade",
+    v: "drop view if exists $1~.$2~ cascade",
+    m: "drop materialized view if exists $1~.$2~ cascade",
+    f: "drop foreign table if exists $1~.$2~ cascade",
+    S: "drop sequence if exists $1~.$2~ cascade"
+};
+
+/**
+ * Dependencies of an Archiver that may be supplied instead of being created
+ * from its configuration
+ */
+export interface ArchiverDeps {
+    db?: DBType,
+    storage?: StorageBackend,
+    logger?: Logger,
+    locks?: LockManager,
+    keyProvider?: KeyProvider,
+    metrics?: MetricsRegistry
+}
+
+export class Archiver {
+
+    private logger: Logger;
+    private db: DBType;
+    private storage: StorageBackend;
+    private ledger: JobLedger;
+    private versions: VersionHistory;
+    private history: History;
+    private locks: LockManager;
+    private sql: Statements;
+    private schema: SchemaManager;
+    private checked: Promise<void> | null = null;
+    private pg: PgRunner;
+    private dumpOptions: DumpOptions;
+    private inflight: { [operation: string]: PromiseLike<any> } = {};
+    private queues: { dump: WorkQueue, restore: WorkQueue, transfer: WorkQueue };
+    private metrics: ArchiveMetrics;
+
+    constructor(public readonly config: Config, deps: ArchiverDeps = {}) {
+        this.logger = deps.logger || new Logger(config.logger);
+        this.metrics = new ArchiveMetrics(deps.metrics || new MetricsRegistry());
+        let retrier = new Retrier(config.retry, this.logger, (step, reason) => this.metrics.countRetry(step, reason));
+        this.db = retryingDatabase(deps.db || pgp(config.db_connection), retrier);
+        let storage = deps.storage || createStorage(config, this.logger);
+        let keys = deps.keyProvider || createKeyProvider(config);
+        this.storage = new RetryingStorage(_.isNil(keys) ? storage : new EncryptedStorage(storage, keys, this.logger), retrier);
+        this.ledger = new JobLedger(this.db, config.db_connection.schema, this.logger);
+        this.versions = new VersionHistory(this.db, config.db_connection.schema, this.logger);
+        this.history = new History(this.db, config.db_connection.schema, this.logger);
+        this.locks = deps.locks || new LockManager(this.db, this.logger);
+        let concurrency = _.defaults({}, config.concurrency, DEFAULT_CONCURRENCY);
+        this.queues = {
+            dump: new WorkQueue("dump", concurrency.dump, this.logger),
+            restore: new WorkQueue("restore", concurrency.restore, this.logger),
+            transfer: new WorkQueue("transfer", concurrency.transfer, this.logger)
+        };
+        this.sql = new Statements(config.db_connection.schema);
+        this.schema = new SchemaManager(this.db, config.db_connection.schema, this.logger);
+        this.pg = new PgRunner(config, this.logger);
+        this.dumpOptions = dumpOptions(config);
+    }
+
+    /**
+     * Apply the migrations missing from the schema of the database (see schema.ts)
+     *
+     * @return{Promise<SchemaMigrationResult>} Promise resolved with the versions before and after, and the migrations applied
+     */
+    public ensureSchema(): Promise<SchemaMigrationResult> {
+        return this.schema.ensureSchema().then(result => {
+            this.checked = null;
+            return result;
+        });
+    }
+
+    /**
+     * Return a Promise resolved once the schema of the database has been
+     * checked, or migrated, as the "schema" section of the configuration
+     * says. A failed check is repeated by the next call, e.g. once the
+     * migrations have been applied by another process.
+     *
+     * @return{Promise} Promise rejected with a SchemaError if the schema does not match
+     */
+    private ready(): Promise<void> {
+        if (this.checked === null) {
+            let conf = _.defaults({}, this.config.schema, { check: true, migrate: false });
+            let check = () => conf.check ? this.schema.check().then(() => undefined) : Promise.resolve();
+            let checked = this.checked = conf.migrate ? this.schema.ensureSchema().then(check) : check();
+            checked.catch(err => {
+                this.logger.error(() => ["Refusing to run: %s", err]);
+                if (this.checked === checked) {
+                    this.checked = null;
+                }
+            });
+        }
+        return this.checked;
+    }
+
+    /**
+     * Return the metrics of the archives/restores in Prometheus text format
+     *
+     * @return{string} the metrics of the registry of this archiver
+     */
+    public getMetrics(): string {
+        return this.metrics.registry.render();
+    }
+
+    /**
+     * Start an HTTP listener serving the metrics of this archiver, on the port
+     * and path of the "metrics" section of the configuration unless a port is
+     * given
+     *
+     * @param{number} port - port to listen on
+     * @return{Promise<http.Server>} Promise resolved with the server once it listens
+     */
+    public serveMetrics(port?: number): Promise<http.Server> {
+        let conf = this.config.metrics || {};
+        port = _.isNil(port) ? conf.port : port;
+        if (_.isNil(port)) {
+            return Promise.reject(new Error("No metrics port given or configured"));
+        }
+        return serveMetrics(this.metrics.registry, port, this.logger, conf.path || DEFAULT_METRICS_PATH);
+    }
+
+    /**
+     * Return a new Operation, whose metrics and history are recorded
+     *
+     * @param{JobOperation} operation - "archive" or "restore"
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} initiator - who requested the operation, if known
+     * @param{function} work - function starting the operation
+     * @return{Operation} the started operation
+     */
+    private operation<T>(operation: JobOperation, type: ObjectType, id: number, initiator: string | null,
+        work: (progress: ProgressReporter) => Promise<T>): Operation<T> {
+        return this.history.observe(this.metrics.observe(new Operation(operation, type, id, this.logger,
+            progress => this.ready().then(() => work(progress)))), initiator);
+    }
+
+    /**
+     * Return the Operation of the named operation, starting it unless it is
+     * already in flight, in which case the caller shares it, and only sees
+     * the events emitted from then on. The history records the operation once,
+     * with the initiator of the caller that started it: callers joining it are
+     * not recorded.
+     * 
+     * @param{string} operation - name of the operation, e.g. "restore report 74"
+     * @param{function} f - function starting the operation
+     * @return{Operation} the in-flight operation
+     */
+    private shared<T extends PromiseLike<any>>(operation: string, f: () => T): T {
+        if (_.has(this.inflight, operation)) {
+            this.logger.info(() => ["Joining in-flight %s", operation]);
+            return this.inflight[operation] as T;
+        }
+        let p = f();
+        let forget = () => {
+            delete this.inflight[operation];
+        };
+        this.inflight[operation] = p;
+        p.then(forget, forget);
+        return p;
+    }
+
+    /**
+     * Return the S3 location of an archived report or analysis
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - Key of report/analysis whose location is to be returned
+     * @param{PreparedStatement} query - String containing parameterized statement to execute
+     * @return{Promise<string>} Promise resolved with a string containing the S3 object name,
+     *                          rejected with a NotArchivedError if it is not archived
+     */
+    private get_s3_location(type: ObjectType, id: number, ps: PreparedStatement): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            this.logger.debug(() => ["Retrieving s3 location of %s %d", type, id]);
+            this.db.one(ps, id)
+                .then(r => {
+                    this.logger.debug(() => ["S3 location of %s %d is %s", type, id, r.archive_location]);
+                    resolve(r.archive_location)
+                })
+                .catch(err => {
+                    this.logger.warn(() => ["Error retrieving s3 location of %s %d: %s", type, id, err]);
+                    reject(isNoData(err) ? new NotArchivedError(`${_.capitalize(type)} ${id} does not exist or is not archived`, type, id, err) : err);
+                })
+        })
+    }
+
+    /**
+     * Return the S3 location of an archived report. Wrapper around
+     * get_s3_location().
+     * 
+     * @param{number} id - Key of report whose location is to be returned
+     * @return{Promise<string>} Promise resolved with a string containing the S3 object name
+     */
+    private get_report_s3_location(id: number): Promise<string> {
+        return this.get_s3_location("report", id, this.sql.report_s3_location_sql);
+    }
+
+    /**
+     * Return the S3 location of an archived analysis. Wrapper around
+     * get_s3_location().
+     * 
+     * @param{number} id - Key of analysis whose location is to be returned
+     * @return{Promise<string>} Promise resolved with a string containing the S3 object name
+     */
+    private get_analysis_s3_location(id: number): Promise<string> {
+        return this.get_s3_location("analysis", id, this.sql.analysis_s3_location_sql);
+    }
+
+    /**
+     * Return the archive location of the specified version of an archived
+     * report/analysis, or of its current archive if no version is given
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} version - version to locate, or null for the current archive
+     * @return{Promise<string>} Promise resolved with the archive location
+     */
+    private versionLocation(type: ObjectType, id: number, version: string | null): Promise<string> {
+        let current = type === "report" ? this.get_report_s3_location(id) : this.get_analysis_s3_location(id);
+        if (_.isNil(version)) {
+            return current;
+        }
+        return current
+            .then(() => this.versions.list(type, id))
+            .then(versions => {
+                let found = _.find(versions, v => v.version === version);
+                if (_.isNil(found)) {
+                    throw new NotArchivedError(`Version ${version} of ${type} ${id} does not exist or has been pruned`, type, id);
+                }
+                this.logger.debug(() => ["Version %s of %s %d is at %s", version, type, id, found.archive_location]);
+                return found.archive_location;
+            });
+    }
+
+    /**
+     * Return a promise resolved when the specified file containing a compressed
+     * dump created by pg_dump is restored to Postgres. A custom format dump is
+     * piped through psql, a directory format dump (packaged as a tar file) is
+     * extracted and restored by parallel pg_restore jobs.
+     * 
+     * @param{string} fn - path to filename containing compressed dump to restore
+     * @param{DumpFormat} format - format of the dump
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise<string>} Promise resolved when the specified dump has been restored
+     */
+    private restore(fn: string, format: DumpFormat = "custom", logger: Logger = this.logger): Promise<string> {
+        if (format === "directory") {
+            return this.restoreDirectory(fn, logger);
+        }
+        return this.queues.restore.run(() => new Promise<string>((resolve, reject) => {
+            logger.info(() => ["Initiating pg_restore of %s", fn]);
+            let restore = this.pg.start("pg_restore", pgRestoreArgs(format, this.dumpOptions, this.config.db_connection.database, fn));
+            let psql = this.pg.start("psql", []);
+            restore.child.stdout.pipe(psql.child.stdin);
+            Promise.all([restore.exited, psql.exited])
+                .then(() => {
+                    logger.debug(() => ["pg_restore of %s completed", fn]);
+                    resolve(fn);
+                }, err => {
+                    logger.warn(() => ["Error attempting pg_restore of %s: %s", fn, err]);
+                    restore.kill();
+                    psql.kill();
+                    reject(err);
+                });
+        }))
+    }
+
+    /**
+     * Return a Promise resolved when the directory format dump packaged in the
+     * specified tar file has been extracted to a temporary directory and
+     * restored into the DB by parallel pg_restore jobs
+     * 
+     * @param{string} fn - path to the tar file
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise<string>} Promise resolved when the dump has been restored
+     */
+    private restoreDirectory(fn: string, logger: Logger = this.logger): Promise<string> {
+        let dir: string | null = null;
+        return this.queues.restore.run(() => generateTmpFile()
+            .then(d => {
+                dir = d;
+                logger.debug(() => ["Extracting directory format dump %s to %s", fn, dir]);
+                return unpackDirectory(fn, dir);
+            })
+            .then(() => {
+                logger.info(() => ["Initiating pg_restore of %s with %d jobs", fn, this.dumpOptions.jobs]);
+                return this.pg.run("pg_restore", pgRestoreArgs("directory", this.dumpOptions, this.config.db_connection.database, dir));
+            })
+            .then(() => {
+                logger.debug(() => ["pg_restore of %s completed", fn]);
+                return removeDirectory(dir);
+            })
+            .then(() => fn, err => {
+                logger.warn(() => ["Error attempting pg_restore of %s: %s", fn, err]);
+                if (!_.isNil(dir)) {
+                    removeDirectory(dir).catch(() => undefined);
+                }
+                throw err;
+            }));
+    }
+
+    /**
+     * Return a promise resolved when the DDL/SQL commands contained in
+     * the passed string are executed. psql stops at the first failing
+     * command, and the Promise is then rejected.
+     * 
+     * @param{string} cmds - string of commands to execute, delimited with ";"
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved when the specified dump has been restored
+     * 
+     */
+    private execDBCmds(cmds: string, logger: Logger = this.logger): Promise<{}> {
+        logger.debug(() => ["Initiating execution of DB commands"]);
+        return this.pg.run("psql", ["-v", "ON_ERROR_STOP=1"], cmds)
+            .then(() => {
+                logger.debug(() => ["Execution of DB commands complete successfully"]);
+                return {};
+            }, err => {
+                logger.warn(() => ["Error executing DB commands: %s", err]);
+                throw err;
+            });
+    }
+
+    /**
+     * Find all archived report ids upon which the specified analysis id depends
+     * 
+     * @param{number} analysis_id - DB key of analysis
+     * @returns{Promise} Promise resolved with an array of archived report ids
+     * 
+     */
+    private getNeededReports(analysis_id: number): Promise<number[]> {
+
+        return new Promise((resolve, reject) => {
+            this.logger.debug(() => ["Retrieving reports needed by analysis: %d", analysis_id]);
+            this.db.any(this.sql.reports_by_analysis_sql, analysis_id)
+                .then((r) => {
+                    let results: number[] = r.map((row) => row.report);
+                    this.logger.debug(() => ["%d reports referenced by analysis %d", results.length, analysis_id]);
+                    resolve(results);
+                })
+                .catch((err) => {
+                    this.logger.warn(() => ["Error retrieving reports associated with analysis %d: %s", analysis_id, err]);
+                    reject(err)
+                })
+        })
+    }
+
+    /**
+     * Find all non-archived analysis ids that depend on the specified report id
+     * 
+     * @param{number} report_id - DB key of report
+     * @returns{Promise} Promise resolved with an array of non-archived analysis ids
+     */
+    private getDependentAnalyses(report_id: number): Promise<number[]> {
+
+        return new Promise((resolve, reject) => {
+            this.logger.debug(() => ["Retrieving analyses refercing report %d", report_id]);
+            this.db.any(this.sql.analyses_by_report_sql, report_id)
+                .then((r) => {
+                    let results: number[] = r.map((row) => row.analysis);
+                    this.logger.debug(() => ["%d non-archived analyses reference report %d", results.length, report_id]);
+                    resolve(results);
+                })
+                .catch((err) => {
+                    this.logger.warn(() => ["Error retrieving analyses associated with report %s: %s", report_id, err]);
+                    reject(err)
+                })
+        })
+    }
+
+    /**
+     * Map each report id in the argument array to a Promise resolved when the DB
+     * objects associated with the report have been restored. The Promise is
+     * rejected with a BatchError, once every restore has settled, if any of
+     * them failed.
+     * 
+     * @param{number[]} ids - array of reports ids to be restored
+     * @param{number} parentJob - job of the restore causing these restores
+     * @param{ProgressReporter} progress - reporter of the restore causing these restores
+     * @returns{Promise} Promise resolved when all reports have been restored
+     */
+    private restoreReports(ids: number[], parentJob: number, progress: ProgressReporter): Promise<{}[]> {
+        return settleAll(ids, id => progress.startChild("restore", "report", id,
+            child => this.restoreArchivedReport(id, parentJob, null, child)))
+            .then(results => {
+                if (!_.every(results, "ok")) {
+                    throw new BatchError("Restore", "report", results);
+                }
+                return results.map(r => r.result);
+            });
+    }
+
+    /**
+     * Map each analysis id in the argument array to a Promise resolved when the DB
+     * objects associated with the analysis have been dumped and archived to S3.
+     * The Promise is rejected with a BatchError, once every archive has
+     * settled, if any of them failed.
+     * 
+     * @param{number[]} ids - array of analysis ids to be archived
+     * @param{number} parentJob - job of the archive causing these archives
+     * @param{ProgressReporter} progress - reporter of the archive causing these archives
+     * @returns{Promise} Promise resolved with an array of strings of cmds to 
+     *                   execute to clean the DB of the corresponding analysis
+     */
+    private archiveAnalyses(ids: number[], parentJob: number, progress: ProgressReporter): Promise<string[]> {
+        return settleAll(ids, id => progress.startChild("archive", "analysis", id,
+            child => this.storeAnalysis(id, parentJob, child)))
+            .then(results => {
+                if (!_.every(results, "ok")) {
+                    throw new BatchError("Archive", "analysis", results);
+                }
+                return results.map(r => r.result);
+            });
+    }
+
+    /**
+     * Returns a promise resolved when the specified analysis or report in
+     * pg_dump'ed to the temporary file whose name is provided, or to the
+     * directory of that name for directory format dumps.
+     * 
+     * @param{string} fn - path to file to contain dump of specified objects
+     * @param{string[]} patterns - table patterns of the objects to be dumped
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise<ManifestTable[]>} Promise resolved with the dumped tables (see snapshotDump) when dump is complete
+     */
+    private dump(fn: string, patterns: string[], logger: Logger = this.logger): Promise<ManifestTable[]> {
+        return this.queues.dump.run(() => this.snapshotDump(patterns, snapshotArgs => {
+            logger.debug(() => ["Dumping %s to %s", patterns.join(" "), fn]);
+            return this.pg.run("pg_dump", pgDumpArgs(this.dumpOptions, fn).concat(snapshotArgs, this.dumpArgs(patterns)))
+                .then(() => {
+                    logger.debug(() => ["Dump of %s to %s successful", patterns.join(" "), fn]);
+                    return fn;
+                }, err => {
+                    logger.debug(() => ["Error dumping %s to %s: %s", patterns.join(" "), fn, err]);
+                    throw err;
+                });
+        }).then(dumped => dumped.tables));
+    }
+
+    /**
+     * Return a Promise resolved with the result of the dump run by the
+     * function, and the description of the tables matched by the patterns
+     * (see describeTables) as they are in the dumped snapshot. The snapshot is
+     * exported by a repeatable read transaction, which counts the rows while
+     * pg_dump dumps them and stays open until the dump is complete, so the
+     * manifest matches the dump even if the tables are written to meanwhile.
+     * 
+     * @param{string[]} patterns - table patterns of the objects to be dumped
+     * @param{function} dump - function running pg_dump with the arguments importing the snapshot
+     * @return{Promise} Promise resolved with the result of the dump and the dumped tables
+     */
+    private snapshotDump<T>(patterns: string[], dump: (snapshotArgs: string[]) => Promise<T>): Promise<{ result: T, tables: ManifestTable[] }> {
+        return this.getMatchingTables(patterns, false)
+            .then<{ result: T, tables: ManifestTable[] }>(tables => this.db.tx(t => t.none("set transaction isolation level repeatable read, read only")
+                .then(() => t.one("select pg_export_snapshot() as snapshot"))
+                .then(row => Promise.all([
+                    dump(["--snapshot", row.snapshot]),
+                    this.describeTables(tables.map(table => table.name), t)
+                ]))
+                .then(results => ({ result: results[0] as T, tables: results[1] as ManifestTable[] }))));
+    }
+
+    /**
+     * Return the pg_dump arguments selecting the tables matched by the patterns
+     * 
+     * @param{string[]} patterns - table patterns relative to the configured schema
+     * @return{string[]} "-t" arguments
+     */
+    private dumpArgs(patterns: string[]): string[] {
+        return _.flatMap(patterns, p => ["-t", `${this.config.db_connection.schema}.${p}`]);
+    }
+
+    /**
+     * Return a promise resolved with a list of DB object clean commands from the
+     * specified compressed pg_dump archive
+     * 
+     * @param{string} fn - path to file (or directory) containing compressed pg_dump
+     * @param{DumpFormat} format - format of the dump
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved with string of clean commands from dump
+     */
+    private getCleanCommands(fn: string, format: DumpFormat = "custom", logger: Logger = this.logger): Promise<string> {
+        logger.debug(() => ["Retrieving clean commands from dump in %s", fn]);
+        return this.pg.run("pg_restore", [format === "directory" ? "-Fd" : "-Fc", "-c", fn])
+            .then(output => {
+                logger.debug(() => ["Clean commands successfully retrieved from %s", fn]);
+                return cleanCommandLines(output);
+            }, err => {
+                logger.warn(() => ["Error retrieving clean commands from %s: %s", fn, err]);
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the DB object clean commands of the tables
+     * matched by the patterns, taken from a schema-only dump so that no dump
+     * file is needed
+     * 
+     * @param{string[]} patterns - table patterns relative to the configured schema
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved with string of clean commands
+     */
+    private getSchemaCleanCommands(patterns: string[], logger: Logger = this.logger): Promise<string> {
+        return new Promise((resolve, reject) => {
+            logger.debug(() => ["Retrieving clean commands of %s", patterns.join(" ")]);
+            let dump = this.pg.start("pg_dump", ["--schema-only", "-Fc"].concat(this.dumpArgs(patterns)));
+            let restore = this.pg.start("pg_restore", ["-Fc", "-c"]);
+            let output = "";
+            dump.child.stdout.pipe(restore.child.stdin);
+            restore.child.stdout.on("data", chunk => {
+                output += chunk.toString();
+            });
+            Promise.all([dump.exited, restore.exited])
+                .then(() => {
+                    logger.debug(() => ["Clean commands of %s successfully retrieved", patterns.join(" ")]);
+                    resolve(cleanCommandLines(output));
+                }, err => {
+                    logger.warn(() => ["Error retrieving clean commands of %s: %s", patterns.join(" "), err]);
+                    dump.kill();
+                    restore.kill();
+                    reject(err);
+                });
+        });
+    }
+
+    /**
+     * Return a Promise resolved when the specified file is deleted
+     * 
+     * @param{string} fn - pathname of file to be removed
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved when specified file has been removed
+     */
+    private removeFile(fn: string, logger: Logger = this.logger): Promise<{}> {
+        return new Promise((resolve, reject) => {
+            logger.debug(() => ["Removing file: %s", fn]);
+
+            fs.unlink(fn, err => {
+                if (err) {
+                    logger.debug(() => ["Removal of file %s failed: %s", fn, err]);
+                    reject(err);
+                } else {
+                    logger.debug(() => ["Removal of file %s successful", fn]);
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Wrapper around the storage backend's upload that queues the transfer
+     * 
+     * @param{string} fn - file to be stored
+     * @param{string} key - key under which the file is stored
+     * @param{ObjectMetadata} metadata - metadata stored along with the object
+     * @param{TransferListener} listener - reported the bytes uploaded
+     * @return{Promise<string>} Promise resolved with the location of the stored object
+     */
+    private upload(fn: string, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): Promise<string> {
+        return this.queues.transfer.run(() => this.storage.upload(fn, key, metadata, listener));
+    }
+
+    /**
+     * Wrapper around the storage backend's download that queues the transfer
+     * 
+     * @param{string} location - location of the object
+     * @param{string} fn - file to contain the retrieved object
+     * @param{TransferListener} listener - reported the bytes downloaded
+     * @return{Promise} Promise resolved when the object has been written to the file
+     */
+    private download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return this.queues.transfer.run(() => this.storage.download(location, fn, listener));
+    }
+
+    /**
+     * Return the storage key of the named object, below the prefix of the
+     * configured database and schema
+     * 
+     * @param{string} name - name of the object, e.g. "report_74/<version>.dump"
+     * @return{string} storage key
+     */
+    private storageKey(name: string): string {
+        return `${this.config.db_connection.database}/${this.config.db_connection.schema}/${name}`;
+    }
+
+    /**
+     * Return the storage key of a version of the dump of the specified
+     * report/analysis
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} version - version of the dump
+     * @return{string} storage key, e.g. "<db>/<schema>/report_74/20261019T120000123Z.dump"
+     */
+    private dumpKey(type: ObjectType, id: number, version: string): string {
+        return this.storageKey(`${type}_${id}/${version}.dump`);
+    }
+
+    /**
+     * Return the storage key of the manifest of a version of the dump of the
+     * specified report/analysis
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} version - version of the dump
+     * @return{string} storage key
+     */
+    private manifestKey(type: ObjectType, id: number, version: string): string {
+        return this.storageKey(`${type}_${id}/${version}.manifest.json`);
+    }
+
+    /**
+     * Return a Promise resolved with the version reported by the configured pg_dump
+     * 
+     * @return{Promise<string>} Promise resolved with e.g. "pg_dump (PostgreSQL) 16.2"
+     */
+    private pgDumpVersion(): Promise<string> {
+        return this.pg.run("pg_dump", ["--version"])
+            .then(output => output.trim(), err => {
+                this.logger.warn(() => ["Error retrieving the pg_dump version: %s", err]);
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the exact row count and the column
+     * signatures of each of the named tables of the configured schema. Tables
+     * that do not exist are described with null rows and no columns.
+     * 
+     * @param{string[]} names - names of the tables to describe
+     * @param{IBaseProtocol} db - database or transaction the tables are described in
+     * @return{Promise<ManifestTable[]>} Promise resolved with one description per table
+     */
+    private describeTables(names: string[], db: pgPromise.IBaseProtocol<any> = this.db): Promise<ManifestTable[]> {
+        let schema = this.config.db_connection.schema;
+        return db.any(this.sql.columns_sql, [schema, names])
+            .then(rows => {
+                let columns = _.mapValues(_.groupBy(rows, "name"), cols => cols.map(c => c.signature));
+                return Promise.all(names.map(name => !_.has(columns, name) ?
+                    Promise.resolve({ name: name, rows: null, columns: [] }) :
+                    db.one("select count(*) as rows from $1~.$2~", [schema, name])
+                        .then(r => ({ name: name, rows: parseInt(r.rows, 10), columns: columns[name] }))));
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the manifest of the dumped tables of the
+     * specified report/analysis
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{ManifestTable[]} tables - the tables as they were dumped (see snapshotDump)
+     * @return{Promise<Manifest>} Promise resolved with the manifest
+     */
+    private buildManifest(type: ObjectType, id: number, tables: ManifestTable[]): Promise<Manifest> {
+        this.logger.debug(() => ["Building manifest of %s %d", type, id]);
+        return Promise.all([
+            tables,
+            this.db.any(this.sql.dependencies_sql[type], id),
+            this.db.one(this.sql.server_version_sql),
+            this.pgDumpVersion()
+        ])
+            .then(results => ({
+                version: MANIFEST_VERSION,
+                object_type: type,
+                id: id,
+                created: new Date().toISOString(),
+                pg_dump_version: results[3],
+                server_version: results[2].server_version,
+                tables: results[0],
+                dependencies: results[1].map(row => ({ analysis: row.analysis, report: row.report }))
+            }));
+    }
+
+    /**
+     * Return a Promise resolved when the manifest of the specified report/analysis
+     * has been stored next to its dump
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{ManifestTable[]} tables - the tables as they were dumped (see snapshotDump)
+     * @param{string} checksum - SHA-256 of the dump
+     * @param{string} version - version of the dump
+     * @param{DumpFormat} format - format of the dump
+     * @return{Promise<string>} Promise resolved with the location of the manifest
+     */
+    private archiveManifest(type: ObjectType, id: number, tables: ManifestTable[], checksum: string, version: string, format: DumpFormat): Promise<string> {
+        let tmpFile: string | null = null;
+        return Promise.all([this.buildManifest(type, id, tables), generateTmpFile()])
+            .then(results => {
+                tmpFile = results[1];
+                results[0].dump_sha256 = checksum;
+                results[0].dump_format = format;
+                this.logger.debug(() => ["Manifest of %s %d: %s", type, id, JSON.stringify(results[0])]);
+                return writeFile(tmpFile, JSON.stringify(results[0], null, 2));
+            })
+            .then(() => this.upload(tmpFile, this.manifestKey(type, id, version)))
+            .then(loc => this.removeFile(tmpFile).then(() => loc))
+            .catch(err => {
+                if (!_.isNil(tmpFile)) {
+                    this.removeFile(tmpFile).catch(() => undefined);
+                }
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the manifest stored at the given location
+     * 
+     * @param{string} loc - location of the manifest
+     * @return{Promise<Manifest>} Promise resolved with the manifest
+     */
+    private readManifest(loc: string): Promise<Manifest> {
+        let tmpFile: string | null = null;
+        let manifest: Manifest;
+        return generateTmpFile()
+            .then(fn => {
+                tmpFile = fn;
+                return this.download(loc, tmpFile);
+            })
+            .then(() => readFile(tmpFile))
+            .then(data => {
+                manifest = JSON.parse(data.toString());
+                return this.removeFile(tmpFile);
+            })
+            .then(() => manifest)
+            .catch(err => {
+                if (!_.isNil(tmpFile)) {
+                    this.removeFile(tmpFile).catch(() => undefined);
+                }
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the tables restored from the dump of the
+     * specified report/analysis have been checked against its manifest. The
+     * Promise is rejected with a ManifestMismatchError if any table is missing
+     * or differs. Dumps archived before manifests were written are not checked.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} loc - archive location of the dump
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved when the restore has been verified
+     */
+    private verifyRestore(type: ObjectType, id: number, loc: string, logger: Logger = this.logger): Promise<{}> {
+        return this.storage.metadata(loc)
+            .then(metadata => {
+                if (_.isNil(metadata[MANIFEST_METADATA_KEY])) {
+                    logger.warn(() => ["No manifest stored with the dump of %s %d, restore not verified", type, id]);
+                    return {};
+                }
+                return this.readManifest(metadata[MANIFEST_METADATA_KEY])
+                    .then(manifest => this.describeTables(manifest.tables.map(t => t.name))
+                        .then(actual => {
+                            let mismatches = compareManifest(manifest, actual);
+                            if (mismatches.length > 0) {
+                                logger.error(() => ["Restore of %s %d does not match its manifest: %s", type, id, mismatches.join("; ")]);
+                                throw new ManifestMismatchError(type, id, mismatches);
+                            }
+                            logger.debug(() => ["Restore of %s %d matches its manifest", type, id]);
+                            return {};
+                        }));
+            });
+    }
+
+    /**
+     * Return the SQL statement setting the state of the specified report or
+     * analysis to "archived" at the given archive location
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} loc - archive location of the dump
+     * @param{string} checksum - SHA-256 of the dump
+     * @return{string} SQL statement terminated with ";\n"
+     */
+    private markArchivedSql(type: ObjectType, id: number, loc: string, checksum: string): string {
+        return pgp.as.format("update $1~.$2~ set archive_location=$3,archive_checksum=$4,restore_timestamp=null,archive_timestamp=now() where id=$5;\n",
+            [this.config.db_connection.schema, type, loc, checksum, id]);
+    }
+
+    /**
+     * Return a Promise resolved when the checksum of the retrieved dump of the
+     * specified report/analysis has been checked against the checksum recorded
+     * when it was archived, in its version history or, for archives written
+     * before versions were recorded, next to its archive location. The Promise
+     * is rejected with an IntegrityError if they differ. Dumps archived before
+     * checksums were recorded are not checked.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} loc - archive location the dump was retrieved from
+     * @param{function} checksum - function returning the checksum of the retrieved dump
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved when the dump has been verified
+     */
+    private verifyChecksum(type: ObjectType, id: number, loc: string, checksum: () => Promise<string>, logger: Logger = this.logger): Promise<{}> {
+        return Promise.all([this.versions.at(loc), this.db.one(this.sql.checksum_sql[type], id)])
+            // The checksum of a restored version other than the current one
+            // is only recorded in the version history
+            .then(results => _.isNil(results[0]) ? results[1] : results[0])
+            .then(r => {
+                if (_.isNil(r.archive_checksum)) {
+                    logger.warn(() => ["No checksum recorded for the dump of %s %d, restoring it unverified", type, id]);
+                    return {};
+                }
+                return checksum()
+                    .then(actual => {
+                        if (actual !== r.archive_checksum) {
+                            logger.error(() => ["Checksum mismatch for the dump of %s %d at %s: %s, expected %s", type, id, loc, actual, r.archive_checksum]);
+                            throw new IntegrityError(type, id, loc, r.archive_checksum, actual);
+                        }
+                        logger.debug(() => ["Checksum of the dump of %s %d verified", type, id]);
+                        return {};
+                    });
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * stored at the given archive location has been verified and restored, the
+     * restored tables have been checked against its manifest, and the DB has been
+     * updated to reflect that the report/analysis is no longer archived. The job
+     * is advanced in the ledger as each stage completes. The dump goes through
+     * a temporary file, or is streamed into pg_restore in streaming mode if it
+     * is a custom format dump.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{number} jobId - job recording the restore
+     * @param{string} loc - archive location of the dump
+     * @param{ProgressReporter} progress - reporter of the restore
+     * @return{Promise} Promise resolved when the dump has been restored
+     */
+    private restoreDump(type: ObjectType, id: number, jobId: number, loc: string, progress: ProgressReporter): Promise<{}> {
+        progress.reportLocation(loc, null);
+        return this.storage.metadata(loc)
+            .then(metadata => {
+                let format = metadataFormat(metadata);
+                progress.logger.debug(() => ["Dump of %s %d at %s is a %s format dump", type, id, loc, format]);
+                return this.config.streaming && format === "custom" ?
+                    this.restoreStreamedDump(type, id, jobId, loc, progress) :
+                    this.restoreDumpFile(type, id, jobId, loc, format, progress);
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * has been retrieved to a temporary file, verified, restored and checked
+     * against its manifest, and the report/analysis has been marked present.
+     * See restoreDump().
+     */
+    private restoreDumpFile(type: ObjectType, id: number, jobId: number, loc: string, format: DumpFormat, progress: ProgressReporter): Promise<{}> {
+        let tmpFile: string | null = null;
+        // Get a temporary file to hold the dump
+        return generateTmpFile()
+            // Retrieve the compressed dump from its storage backend and store it in the temp file
+            .then(fn => {
+                progress.logger.debug(() => ["Temporary file for restore of %s %d: %s", type, id, fn]);
+                tmpFile = fn;
+                progress.reportStage("downloading");
+                return this.download(loc, tmpFile, progress.reportTransfer("download"));
+            })
+            .then(() => this.ledger.advance(jobId, "DOWNLOADED", loc))
+            // Verify that the dump is the one that was archived
+            .then(() => this.verifyChecksum(type, id, loc, () => sha256File(tmpFile), progress.logger))
+            // Restore the compressed dump using pg_restore
+            .then(() => {
+                progress.logger.debug(() => ["Download and verification of dump object successful. Initiating restore"]);
+                progress.reportStage("restoring");
+                return this.restore(tmpFile, format, progress.logger);
+            })
+            // Check the restored tables against the manifest of the dump
+            .then(() => this.verifyRestore(type, id, loc, progress.logger))
+            .then(() => this.ledger.advance(jobId, "RESTORED"))
+            // Remove the temporary file containing the compressed dump
+            .then(() => {
+                progress.logger.debug(() => ["Restore successful. Removing temporary file"]);
+                return this.removeFile(tmpFile, progress.logger);
+            })
+            .then(() => {
+                progress.logger.debug(() => ["Temporary file removal successful. Resetting archive columns in DB"]);
+                tmpFile = null;
+                progress.reportStage("marking");
+                return this.markRestored(type, id, jobId);
+            })
+            .catch(err => {
+                if (!_.isNil(tmpFile)) {
+                    this.removeFile(tmpFile, progress.logger).catch(() => undefined);
+                }
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * has been streamed from archive storage into pg_restore, and the restore
+     * has been verified and the report/analysis marked present. As the dump is
+     * only seen as it is restored, its checksum is verified once the restore is
+     * complete. If the stream fails (e.g. an encrypted dump fails
+     * authentication) or the checksum does not match, the restored objects are
+     * dropped before the restore is rejected, so the report/analysis is left
+     * archived without any of its tables. See restoreDump().
+     */
+    private restoreStreamedDump(type: ObjectType, id: number, jobId: number, loc: string, progress: ProgressReporter): Promise<{}> {
+        let checksum: string;
+        progress.reportStage("restoring");
+        return this.streamRestore(loc, progress.reportTransfer("download"), progress.logger)
+            .then(sum => {
+                checksum = sum;
+                return this.ledger.advance(jobId, "DOWNLOADED", loc);
+            })
+            .then(() => this.verifyChecksum(type, id, loc, () => Promise.resolve(checksum), progress.logger))
+            .catch(err => this.dropRestoredObjects(type, id, progress.logger)
+                .then(() => {
+                    throw err;
+                }, dropErr => {
+                    progress.logger.error(() => ["Unable to drop the objects restored from %s: %s", loc, dropErr]);
+                    throw err;
+                }))
+            .then(() => this.verifyRestore(type, id, loc, progress.logger))
+            .then(() => this.ledger.advance(jobId, "RESTORED"))
+            .then(() => {
+                progress.reportStage("marking");
+                return this.markRestored(type, id, jobId);
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the objects of the specified archived
+     * report/analysis found in the DB, i.e. those left by a failed restore,
+     * have been dropped in one transaction
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{Logger} logger - logger of the restore
+     * @return{Promise} Promise resolved when the objects are dropped
+     */
+    private dropRestoredObjects(type: ObjectType, id: number, logger: Logger = this.logger): Promise<{}> {
+        let schema = this.config.db_connection.schema;
+        return this.db.any(this.sql.tables_matching_sql, [schema, tablesRegex(tablePatterns(type, id))])
+            .then(rows => {
+                logger.info(() => ["Dropping the objects restored for %s %d: %s", type, id, rows.map(row => row.name).join(" ")]);
+                return this.db.tx(t => rows.reduce((p, row) => p.then(() => t.none(DROP_STATEMENTS[row.kind], [schema, row.name])),
+                    Promise.resolve(null)));
+            })
+            .then(() => ({}));
+    }
+
+    /**
+     * Return a Promise resolved when the "archive_location" and
+     * "archive_timestamp" columns of the specified report/analysis have been
+     * reset to null, indicating that it is present in the DB, and its restore job
+     * has been marked complete in the same transaction
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{number} jobId - job recording the restore
+     * @return{Promise} Promise resolved when the report/analysis is marked present
+     */
+    private markRestored(type: ObjectType, id: number, jobId: number): Promise<{}> {
+        return this.db.tx(t => t.batch([
+            t.none(this.sql.reset_s3_location_sql[type], [null, null, "now()", id]),
+            this.ledger.mark(t, jobId)
+        ]));
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * has been stored as a new version, along with its manifest, and the job has
+     * been advanced through the DUMPED and UPLOADED stages. The Promise is
+     * resolved with the version, archive location and checksum of the dump, and
+     * the SQL commands that drop the objects of the report/analysis from the
+     * DB. The dump goes through a temporary file, or is streamed from pg_dump
+     * to storage in streaming mode if it is a custom format dump.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{number} jobId - job recording the archive
+     * @param{ProgressReporter} progress - reporter of the archive
+     * @return{Promise<StoredDump>} Promise resolved when the dump is stored
+     */
+    private storeDump(type: ObjectType, id: number, jobId: number, progress: ProgressReporter): Promise<StoredDump> {
+        progress.reportStage("dumping");
+        let stored = this.config.streaming && this.dumpOptions.format === "custom" ?
+            this.storeStreamedDump(type, id, jobId, progress) :
+            this.storeDumpFile(type, id, jobId, progress);
+        return stored.then(s => {
+            progress.reportLocation(s.location, s.version);
+            return s;
+        });
+    }
+
+    /**
+     * Return the description of a new version of the dump of the specified
+     * report/analysis, to be filled in as it is stored
+     */
+    private newStoredDump(type: ObjectType, id: number): StoredDump {
+        let version = newVersion();
+        return {
+            version: version,
+            location: null,
+            manifestLocation: this.storage.location(this.manifestKey(type, id, version)),
+            checksum: null,
+            cleanCommands: null
+        };
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * has been written to a temporary file and stored from there. A directory
+     * format dump is written to a temporary directory and packaged in the
+     * temporary file. See storeDump().
+     */
+    private storeDumpFile(type: ObjectType, id: number, jobId: number, progress: ProgressReporter): Promise<StoredDump> {
+        let patterns = tablePatterns(type, id);
+        let stored = this.newStoredDump(type, id);
+        let format = this.dumpOptions.format;
+        let tmpFile: string | null = null;
+        let tmpDir: string | null = null;
+        let tables: ManifestTable[] = [];
+        // Generate a temp file to hold the dump
+        return generateTmpFile()
+            .then(fn => {
+                // Save the temp file name name and pg_dump all DB objects
+                // associated with the specified report/analysis to it
+                tmpFile = fn;
+                progress.logger.debug(() => ["Temporary file for dump of %s %d: %s", type, id, fn]);
+                if (format === "custom") {
+                    return this.dump(tmpFile, patterns, progress.logger);
+                }
+                return generateTmpFile()
+                    .then(dir => {
+                        tmpDir = dir;
+                        return this.dump(tmpDir, patterns, progress.logger);
+                    })
+                    .then(dumped => packDirectory(tmpDir, tmpFile).then(() => dumped));
+            })
+            .then(dumped => {
+                tables = dumped;
+                progress.logger.debug(() => ["Dump of %s %d completed", type, id]);
+                return this.ledger.advance(jobId, "DUMPED");
+            })
+            .then(() => sha256File(tmpFile))
+            .then(sum => {
+                // Transfer the dump file to archive storage along with its
+                // checksum and the location of its manifest
+                stored.checksum = sum;
+                progress.logger.debug(() => ["SHA-256 of dump of %s %d: %s", type, id, sum]);
+                progress.reportStage("uploading");
+                return this.upload(tmpFile, this.dumpKey(type, id, stored.version), {
+                    [CHECKSUM_METADATA_KEY]: sum,
+                    [MANIFEST_METADATA_KEY]: stored.manifestLocation,
+                    [FORMAT_METADATA_KEY]: format
+                }, progress.reportTransfer("upload"));
+            })
+            .then(loc => {
+                stored.location = loc;
+                progress.logger.debug(() => ["Dump of %s %d uploaded to %s", type, id, loc]);
+                // Store the manifest of the dumped tables next to the dump
+                return this.archiveManifest(type, id, tables, stored.checksum, stored.version, format);
+            })
+            .then(() => this.ledger.advance(jobId, "UPLOADED", stored.location))
+            // Inspect the dump for the SQL statements needed to drop the objects
+            .then(() => this.getCleanCommands(_.isNil(tmpDir) ? tmpFile : tmpDir, format, progress.logger))
+            .then(cmds => {
+                stored.cleanCommands = cmds;
+                return this.removeFile(tmpFile, progress.logger);
+            })
+            .then(() => {
+                tmpFile = null;
+                return _.isNil(tmpDir) ? {} : removeDirectory(tmpDir);
+            })
+            .then(() => {
+                tmpDir = null;
+                return stored;
+            })
+            .catch(err => {
+                if (!_.isNil(tmpFile)) {
+                    this.removeFile(tmpFile, progress.logger).catch(() => undefined);
+                }
+                if (!_.isNil(tmpDir)) {
+                    removeDirectory(tmpDir).catch(() => undefined);
+                }
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the dump of the specified report/analysis
+     * has been streamed from pg_dump to archive storage. The SQL commands that
+     * drop its objects are taken from a schema-only dump. See storeDump().
+     */
+    private storeStreamedDump(type: ObjectType, id: number, jobId: number, progress: ProgressReporter): Promise<StoredDump> {
+        let patterns = tablePatterns(type, id);
+        let stored = this.newStoredDump(type, id);
+        let tables: ManifestTable[] = [];
+        // The checksum is only known once the dump has been stored, so it is
+        // recorded in the manifest and the DB but not in the dump's metadata
+        return this.streamDump(patterns, this.dumpKey(type, id, stored.version), {
+            [MANIFEST_METADATA_KEY]: stored.manifestLocation,
+            [FORMAT_METADATA_KEY]: "custom"
+        }, progress.reportTransfer("upload"), progress.logger)
+            .then(result => {
+                stored.location = result.location;
+                stored.checksum = result.checksum;
+                tables = result.tables;
+                progress.logger.debug(() => ["Dump of %s %d streamed to %s, SHA-256 %s", type, id, result.location, result.checksum]);
+                return this.ledger.advance(jobId, "DUMPED");
+            })
+            .then(() => this.archiveManifest(type, id, tables, stored.checksum, stored.version, "custom"))
+            .then(() => this.ledger.advance(jobId, "UPLOADED", stored.location))
+            .then(() => this.getSchemaCleanCommands(patterns, progress.logger))
+            .then(cmds => {
+                stored.cleanCommands = cmds;
+                return stored;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the output of pg_dump for the tables
+     * matched by the patterns has been piped to archive storage under the given
+     * key. If either pg_dump or the transfer fails, the other is stopped and
+     * the transfer is abandoned, and the Promise is rejected at once.
+     * 
+     * @param{string[]} patterns - table patterns relative to the configured schema
+     * @param{string} key - storage key of the dump
+     * @param{ObjectMetadata} metadata - metadata stored with the dump
+     * @param{TransferListener} listener - reported the bytes uploaded
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise} Promise resolved with the location, checksum and dumped tables (see snapshotDump) of the dump
+     */
+    private streamDump(patterns: string[], key: string, metadata: ObjectMetadata, listener: TransferListener, logger: Logger = this.logger): Promise<{ location: string, checksum: string, tables: ManifestTable[] }> {
+        return this.queues.dump.run(() => this.snapshotDump(patterns, snapshotArgs => new Promise<{ location: string, checksum: string }>((resolve, reject) => {
+            logger.debug(() => ["Streaming dump of %s to %s", patterns.join(" "), key]);
+            let dump = this.pg.start("pg_dump", pgDumpArgs(this.dumpOptions).concat(snapshotArgs, this.dumpArgs(patterns)));
+            let hash = new HashStream();
+            let upload = this.storage.uploadStream(hash, key, metadata, listener);
+            let failed = false;
+            let fail = err => {
+                if (!failed) {
+                    failed = true;
+                    logger.warn(() => ["Streaming dump of %s to %s failed: %s", patterns.join(" "), key, err]);
+                    dump.kill();
+                    upload.abort();
+                    reject(err);
+                }
+            };
+            hash.on("error", fail);
+            upload.promise.catch(fail);
+            // The upload is only completed once pg_dump has exited successfully,
+            // so a failed dump never leaves a truncated object in storage
+            dump.child.stdout.pipe(hash, { end: false });
+            dump.exited.then(() => hash.end(), fail);
+            Promise.all([dump.exited, upload.promise])
+                .then(results => resolve({ location: results[1], checksum: hash.sha256 }), fail);
+        })).then(dumped => ({ location: dumped.result.location, checksum: dumped.result.checksum, tables: dumped.tables })));
+    }
+
+    /**
+     * Return a Promise resolved when the dump at the given location has been
+     * piped from archive storage into pg_restore, and from there into psql. If
+     * any of them fails, the others are stopped.
+     * 
+     * @param{string} loc - archive location of the dump
+     * @param{TransferListener} listener - reported the bytes downloaded
+     * @param{Logger} logger - logger of the archive/restore
+     * @return{Promise<string>} Promise resolved with the checksum of the restored dump
+     */
+    private streamRestore(loc: string, listener: TransferListener, logger: Logger = this.logger): Promise<string> {
+        return this.queues.restore.run(() => Promise.all([this.storage.downloadStream(loc), this.storage.size(loc).catch(() => null)])
+            .then(([download, total]) => new Promise<string>((resolve, reject) => {
+                logger.info(() => ["Initiating streamed pg_restore of %s", loc]);
+                let hash = new HashStream();
+                let restore = this.pg.start("pg_restore", ["-c", "-Fc"]);
+                let psql = this.pg.start("psql", []);
+                let failed = false;
+                let fail = err => {
+                    if (!failed) {
+                        failed = true;
+                        logger.warn(() => ["Streamed pg_restore of %s failed: %s", loc, err]);
+                        download.abort();
+                        restore.kill();
+                        psql.kill();
+                        reject(err);
+                    }
+                };
+                let downloaded = new Promise((res, rej) => {
+                    download.stream.on("error", rej);
+                    hash.on("error", rej);
+                    hash.on("end", res);
+                });
+                countTransfer(download.stream, total, listener);
+                download.stream.pipe(hash).pipe(restore.child.stdin);
+                restore.child.stdout.pipe(psql.child.stdin);
+                Promise.all([downloaded, restore.exited, psql.exited])
+                    .then(() => {
+                        logger.debug(() => ["Streamed pg_restore of %s completed", loc]);
+                        resolve(hash.sha256);
+                    }, fail);
+            })));
+    }
+
+    /**
+     * Return a Promise resolved with the checksum of the object at the given
+     * location, computed as it is streamed from archive storage
+     * 
+     * @param{string} loc - archive location of the dump
+     * @return{Promise<string>} Promise resolved with the checksum
+     */
+    private storedObjectChecksum(loc: string): Promise<string> {
+        return this.queues.transfer.run(() => this.storage.downloadStream(loc)
+            .then(download => new Promise<string>((resolve, reject) => {
+                let hash = new HashStream();
+                download.stream.on("error", err => {
+                    download.abort();
+                    reject(err);
+                });
+                hash.on("error", reject);
+                hash.on("finish", () => resolve(hash.sha256));
+                download.stream.pipe(hash);
+                hash.resume();
+            })));
+    }
+
+    /**
+     * Return a Promise resolved when the specified analysis is archived, its
+     * analysis_<id>_* tables dropped and it is marked archived in one
+     * transaction. The reports it depends on are left untouched. First,
+     * validate that the analysis is present, then lock it and archive it (see
+     * archiveLockedAnalysis).
+     * 
+     * @param{number} id - key of analysis to be archived
+     * @param{string} initiator - who requested the archive, recorded in the history
+     * @return{Operation} Operation resolved with the archive location of the analysis
+     */
+    public archiveAnalysis(id: number, initiator: string | null = null): Operation<string> {
+        return this.shared(`archive analysis ${id}`, () => this.operation("archive", "analysis", id, initiator, progress => {
+            progress.logger.info(() => ["Initiating archive of analysis: %d", id]);
+            progress.reportStage("validating");
+            // Validate that the analysis is present in the DB
+            return this.db.one(this.sql.validate_analysis_present_sql, id)
+                .catch((err) => {
+                    if (!isNoData(err)) {
+                        throw err;
+                    }
+                    let errMsg = `Analysis ${id} either does not exist or is already archived. Error: ${err}`;
+                    progress.logger.warn(() => [errMsg]);
+                    throw new NotPresentError(errMsg, "analysis", id, err);
+                })
+                .then(() => this.locks.withLocks(objectKeys("analysis", [id]), () => this.archiveLockedAnalysis(id, progress)));
+        }));
+    }
+
+    /**
+     * Return a Promise resolved with the archive location of the specified
+     * analysis, whose lock is held, once it is archived. An analysis archived
+     * meanwhile (e.g. along with a report it depends on) is not archived again.
+     * 
+     * @param{number} id - key of analysis to be archived
+     * @param{ProgressReporter} progress - reporter of the archive
+     * @return{Promise} Promise resolved with the archive location
+     */
+    private archiveLockedAnalysis(id: number, progress: ProgressReporter): Promise<string> {
+        return this.db.oneOrNone(this.sql.status_sql["analysis"], id)
+            .then(row => {
+                if (_.isNil(row)) {
+                    throw new NotPresentError(`Analysis ${id} does not exist`, "analysis", id);
+                }
+                if (!_.isNil(row.archive_location)) {
+                    progress.logger.info(() => ["Analysis %d was archived by a concurrent operation", id]);
+                    return row.archive_location;
+                }
+                return this.storeAnalysis(id, null, progress)
+                    .then(cmds => {
+                        progress.logger.debug(() => ["Initiating removal of DB objects associated with analysis: %d", id]);
+                        progress.reportStage("cleaning");
+                        return this.execDBCmds(`BEGIN;\n${cmds}COMMIT;`, progress.logger);
+                    })
+                    .then(() => this.get_analysis_s3_location(id))
+                    .then(loc => {
+                        progress.logger.info(() => ["Analysis %d archived to %s", id, loc]);
+                        return loc;
+                    });
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the specified analysis is archived to S3.
+     * The promise is resolved with a string full of SQL that removes the DB
+     * objects associated with the analysis as well as a statement which sets the
+     * status of the analysis to "archived". The SQL is left to the caller to
+     * execute, along with that of the report being archived or on its own (see
+     * archiveAnalysis).
+     * 
+     * @param{number} id - id of analysis to be archived
+     * @param{number} parentJob - job of the report archive causing this archive, if any
+     * @param{ProgressReporter} progress - reporter of this archive
+     * @return{Promise} Promise resolved when the specified analysis is archived to S3.
+     *                  The Promise is resolved with a semicolon delimited string of 
+     *                  commands that remove all traces of the analysis from the DB
+     */
+    private storeAnalysis(id: number, parentJob: number | null, progress: ProgressReporter): Promise<string> {
+        return new Promise((resolve, reject) => {
+            progress.logger.info(() => ["Initiaing archive of analysis: %d", id]);
+
+            let cleanCommands: string;
+            let jobId: number | null = null;
+            // First, record the archive in the job ledger
+            this.ledger.start("archive", "analysis", id, parentJob)
+                .then(job => {
+                    // Dump the DB objects associated with the specified analysis
+                    // to archive storage
+                    jobId = job;
+                    return this.storeDump("analysis", id, jobId, progress);
+                })
+                .then(stored => {
+                    // Save the DB clean SQL along with statements that set the
+                    // state of the analysis to "archived" and record the new
+                    // version in its history. A standalone archive
+                    // also marks its job complete; a cascaded one is marked along
+                    // with its parent.
+                    cleanCommands = stored.cleanCommands + this.markArchivedSql("analysis", id, stored.location, stored.checksum) +
+                        this.versions.recordSql("analysis", id, stored.version, stored.location, stored.manifestLocation, stored.checksum);
+                    if (parentJob === null) {
+                        cleanCommands += this.ledger.markSql(jobId);
+                    }
+                    progress.logger.debug(() => ["Commands to clean DB of analysis id %d: %s", id, cleanCommands]);
+                    // Resolve this Promise with the SQL statements needed to clean
+                    // the DB of this analysis and set the state to "archived"
+                    resolve(cleanCommands)
+                })
+                .catch(err => {
+                    let failed = _.isNil(jobId) ? Promise.resolve() : this.ledger.fail(jobId, err);
+                    failed.then(() => reject(err));
+                })
+        })
+    }
+
+    /**
+     * Return a Promise resolved when the specified analysis is restored.      
+     * First, check that the analysis is actually archived, and find the reports
+     * it needs. Then lock the analysis and those reports and restore them (see
+     * restoreLockedAnalysis). If another archive/restore of the analysis held
+     * the locks and restored it meanwhile, there is nothing left to do.
+     * An earlier archived version of the analysis may be restored instead of
+     * the current one; the reports it needs are restored from their current
+     * archives.
+     * 
+     * @param{number} id - key of analysis to be restored
+     * @param{string} version - version to restore (see listAnalysisVersions), or null for the current archive
+     * @param{string} initiator - who requested the restore, recorded in the history
+     * @return{Operation} Operation resolved when specified report has been restored 
+     */
+    public restoreAnalysis(id: number, version: string | null = null, initiator: string | null = null): Operation<{}> {
+        return this.shared(`restore analysis ${id}${_.isNil(version) ? "" : ` version ${version}`}`, () => this.operation("restore", "analysis", id, initiator, progress => {
+            let attempt = (): Promise<{}> => {
+                progress.logger.info(() => ["Initiating restore of analysis %d", id]);
+                progress.reportStage("validating");
+                // Validate that the analysis is archived to S3
+                return this.db.one(this.sql.validate_analysis_archived_sql, id)
+                    .then(() => {
+                        // Archive is archived to S3.  Get a list of reports this analysis needs.
+                        progress.logger.debug(() => ["Analysis %d is archived. Finding needed reports", id]);
+                        return this.getNeededReports(id)
+                    })
+                    .catch((err) => {
+                        if (!isNoData(err)) {
+                            throw err;
+                        }
+                        // Analysis either soesn't exist or is not archived
+                        let errMsg = `Analysis ${id} either does not exist or is not archived. Error: ${err}`;
+                        progress.logger.warn(() => [errMsg]);
+                        throw new NotArchivedError(errMsg, "analysis", id, err);
+                    })
+                    .then(reports => this.locks.withLocks(objectKeys("analysis", [id]).concat(objectKeys("report", reports)),
+                        () => this.restoreLockedAnalysis(id, reports, version, progress)))
+                    .then(done => {
+                        if (done) {
+                            return {};
+                        }
+                        progress.logger.info(() => ["Reports needed by analysis %d changed while waiting for locks, retrying", id]);
+                        return attempt();
+                    });
+            };
+            return attempt();
+        }));
+    }
+
+    /**
+     * Return a Promise resolved with true when the specified analysis, whose
+     * lock and those of the reports it needed before the locks were taken are
+     * held, is no longer archived. The Promise is resolved with false, without
+     * restoring anything, if it now needs other reports, which are not locked.
+     * 
+     * @param{number} id - key of analysis to be restored
+     * @param{number[]} reports - locked reports
+     * @param{string} version - version to restore, or null for the current archive
+     * @param{ProgressReporter} progress - reporter of the restore
+     * @return{Promise<boolean>} Promise resolved with whether the analysis is restored
+     */
+    private restoreLockedAnalysis(id: number, reports: number[], version: string | null, progress: ProgressReporter): Promise<boolean> {
+        return this.db.oneOrNone(this.sql.status_sql["analysis"], id)
+            .then(row => {
+                if (!_.isNil(row) && _.isNil(row.archive_location)) {
+                    progress.logger.info(() => ["Analysis %d was restored by a concurrent operation", id]);
+                    return true;
+                }
+                return this.getNeededReports(id)
+                    .then(needed => {
+                        if (_.difference(needed, reports).length > 0) {
+                            return false;
+                        }
+                        return this.restoreArchivedAnalysis(id, needed, version, progress).then(() => true);
+                    });
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the specified archived analysis is restored.
+     * First restore all reports upon which it depends.  Next, retrieve
+     * the S3 bucket name where the compressed dump is stored.  Next, retrieve
+     * the dump from S3 and restore it. Finally, update the database to reflect
+     * the fact that the analysis is no longer archived. The locks of the analysis
+     * and of the reports must be held.
+     * 
+     * @param{number} id - key of analysis to be restored
+     * @param{number[]} reports - archived reports needed by the analysis
+     * @param{string} version - version to restore, or null for the current archive
+     * @param{ProgressReporter} progress - reporter of the restore
+     * @return{Promise} Promise resolved when specified report has been restored 
+     */
+    private restoreArchivedAnalysis(id: number, reports: number[], version: string | null, progress: ProgressReporter): Promise<{}> {
+        return new Promise<{}>((resolve, reject) => {
+            let jobId: number | null = null;
+            // Record the restore in the job ledger
+            this.ledger.start("restore", "analysis", id)
+                .then((job) => {
+                    // Restore any archived reports needed by this analysis
+                    jobId = job;
+                    return this.restoreReports(reports, jobId, progress);
+                })
+                // Retrieve the archive location of the analysis
+                .then(() => {
+                    progress.logger.debug(() => ["All reports needed by analysis %d restored", id]);
+                    return this.versionLocation("analysis", id, version);
+                })
+                // Retrieve the dump, restore it and mark the analysis present
+                .then((loc) => {
+                    progress.logger.debug(() => ["Archive location of analysis %d: %s", id, loc]);
+                    return this.restoreDump("analysis", id, jobId, loc, progress);
+                })
+                // Restore complete
+                .then(() => {
+                    progress.logger.debug(() => ["DB update successful. Restore of analysis %d complete", id]);
+                    resolve();
+                })
+                // Log the failure message, record it in the ledger and reject the restore promise
+                .catch(err => {
+                    progress.logger.warn(() => ["Error restoring analysis %d: %s", id, err]);
+                    let failed = _.isNil(jobId) ? Promise.resolve() : this.ledger.fail(jobId, err);
+                    failed.then(() => reject(err));
+                })
+        })
+    }
+
+    /**
+     * Return a Promise resolved when the specified report is restored.
+     * First, check that the report is actually archived, then lock it and
+     * restore it, unless another archive/restore of the report held the lock
+     * and restored it meanwhile. An earlier archived version of the report may
+     * be restored instead of the current one.
+     * 
+     * @param{number} id - key of report to be restored
+     * @param{string} version - version to restore (see listReportVersions), or null for the current archive
+     * @param{string} initiator - who requested the restore, recorded in the history
+     * @return{Operation} Operation resolved when specified report has been restored 
+     */
+    public restoreReport(id: number, version: string | null = null, initiator: string | null = null): Operation<{}> {
+        return this.shared(`restore report ${id}${_.isNil(version) ? "" : ` version ${version}`}`, () => this.operation("restore", "report", id, initiator, progress => {
+            progress.reportStage("validating");
+            return this.versionLocation("report", id, version)
+                .then(() => this.locks.withLocks(objectKeys("report", [id]), () => this.db.oneOrNone(this.sql.status_sql["report"], id)
+                    .then(row => {
+                        if (!_.isNil(row) && _.isNil(row.archive_location)) {
+                            progress.logger.info(() => ["Report %d was restored by a concurrent operation", id]);
+                            return {};
+                        }
+                        return this.restoreArchivedReport(id, null, version, progress);
+                    })));
+        }));
+    }
+
+    /**
+     * Return a Promise resolved when the specified archived report is restored.      
+     * Retrieve the S3 bucket name where the compressed dump is stored.  Next, retrieve
+     * the dump from S3 and restore it. Finally, update the database to reflect
+     * the fact that the report is no longer archived. The lock of the report
+     * must be held.
+     * 
+     * @param{number} id - key of report to be restored
+     * @param{number} parentJob - job of the analysis restore causing this restore, if any
+     * @param{string} version - version to restore, or null for the current archive
+     * @param{ProgressReporter} progress - reporter of this restore
+     * @return{Promise} Promise resolved when specified report has been restored 
+     */
+    private restoreArchivedReport(id: number, parentJob: number | null, version: string | null, progress: ProgressReporter): Promise<{}> {
+        return new Promise<{}>((resolve, reject) => {
+            let jobId: number | null = null;
+            let location: string;
+            progress.logger.info(() => ["Initiating restore of report %d", id]);
+            // Retrieve the archive location of the report
+            this.versionLocation("report", id, version)
+                // Record the restore in the job ledger
+                .then((loc) => {
+                    progress.logger.debug(() => ["Archive location of report %d: %s", id, loc]);
+                    location = loc;
+                    return this.ledger.start("restore", "report", id, parentJob);
+                })
+                // Retrieve the dump, restore it and mark the report present
+                .then((job) => {
+                    jobId = job;
+                    return this.restoreDump("report", id, jobId, location, progress);
+                })
+                // Restore complete
+                .then(() => {
+                    progress.logger.debug(() => ["DB update successful. Restore of report %d complete", id]);
+                    resolve();
+                })
+                // Log the failure message, record it in the ledger and reject the restore promise
+                .catch(err => {
+                    progress.logger.warn(() => ["Error restoring report %d: %s", id, err]);
+                    let failed = _.isNil(jobId) ? Promise.resolve() : this.ledger.fail(jobId, err);
+                    failed.then(() => reject(err));
+                })
+        })
+    }
+
+    /**
+     * Return a Promise resolved when the specified report is archived to S3,
+     * and the objects associated with the report (including dependent analyses
+     * have been removed from the DB. First, check that the report is present
+     * and find the non-archived analyses that reference it. Then lock the report
+     * and those analyses and archive them (see archiveLockedReport). If another
+     * archive of the report held the locks and archived it meanwhile, the
+     * Promise is resolved with the location of that archive.
+     * 
+     * @param{number} id - key of report to be archived
+     * @param{string} initiator - who requested the archive, recorded in the history
+     * @return{Operation} Operation resolved when specified report has been archived 
+     *                    to S3.
+     */
+    public archiveReport(id: number, initiator: string | null = null): Operation<string> {
+        return this.shared(`archive report ${id}`, () => this.operation("archive", "report", id, initiator, progress => {
+            let attempt = (): Promise<string> => {
+                progress.logger.info(() => ["Initiating archive of report: %d", id]);
+                progress.reportStage("validating");
+                // Validate that the report is present in the DB
+                return this.db.one(this.sql.validate_report_present_sql, id)
+                    .then(() => {
+                        progress.logger.debug(() => ["Report presence validated. Finding dependent analyses"]);
+                        return this.getDependentAnalyses(id)
+                    })
+                    .catch((err) => {
+                        if (!isNoData(err)) {
+                            throw err;
+                        }
+                        let errMsg = `Report ${id} either does not exist or is already archived. Error: ${err}`;
+                        progress.logger.warn(() => [errMsg]);
+                        throw new NotPresentError(errMsg, "report", id, err);
+                    })
+                    .then(analyses => this.locks.withLocks(objectKeys("analysis", analyses).concat(objectKeys("report", [id])),
+                        () => this.archiveLockedReport(id, analyses, progress)))
+                    .then(loc => {
+                        if (loc !== null) {
+                            return loc;
+                        }
+                        progress.logger.info(() => ["Analyses depending on report %d changed while waiting for locks, retrying", id]);
+                        return attempt();
+                    });
+            };
+            return attempt();
+        }));
+    }
+
+    /**
+     * Return a Promise resolved with the archive location of the specified
+     * report, whose lock and those of the analyses depending on it before the
+     * locks were taken are held, once it is archived. Analyses archived
+     * meanwhile (e.g. along with another report they depend on) are not
+     * archived again. The Promise is resolved with null, without archiving
+     * anything, if other analyses, which are not locked, now depend on it.
+     * 
+     * @param{number} id - key of report to be archived
+     * @param{number[]} analyses - locked analyses
+     * @param{ProgressReporter} progress - reporter of the archive
+     * @return{Promise} Promise resolved with the archive location, or null
+     */
+    private archiveLockedReport(id: number, analyses: number[], progress: ProgressReporter): Promise<string | null> {
+        return this.db.oneOrNone(this.sql.status_sql["report"], id)
+            .then(row => {
+                if (_.isNil(row)) {
+                    throw new NotPresentError(`Report ${id} does not exist`, "report", id);
+                }
+                if (!_.isNil(row.archive_location)) {
+                    progress.logger.info(() => ["Report %d was archived by a concurrent operation", id]);
+                    return row.archive_location;
+                }
+                return this.getDependentAnalyses(id)
+                    .then(dependent => {
+                        if (_.difference(dependent, analyses).length > 0) {
+                            return null;
+                        }
+                        return this.archivePresentReport(id, dependent, progress);
+                    });
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the specified report is archived to S3,
+     * and the objects associated with the report (including dependent analyses
+     * have been removed from the DB. The dependent analyses are archived first,
+     * then the report itself, and the objects of all of them are removed in a
+     * single transaction. The locks of the report and analyses must be held.
+     * 
+     * @param{number} id - key of report to be archived
+     * @param{number[]} deps - non-archived analyses depending on the report
+     * @param{ProgressReporter} progress - reporter of the archive
+     * @return{Promise} Promise resolved when specified report has been archived 
+     *                  to S3.
+     */
+    private archivePresentReport(id: number, deps: number[], progress: ProgressReporter): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            let cleanCommands: string = "BEGIN;\n"
+            let s3Location: string;
+            let jobId: number | null = null;
+
+            progress.logger.debug(() => ["Dependent analyses to archive with report %d: %s", id, JSON.stringify(deps)]);
+            // Record the archive in the job ledger
+            this.ledger.start("archive", "report", id)
+                .then((job) => {
+                    jobId = job;
+                    return this.archiveAnalyses(deps, jobId, progress);
+                })
+                .then(ps => {
+                    ps.forEach(cmds => {
+                        cleanCommands += cmds;
+                    })
+                    progress.logger.debug(() => ["Dependent analyses archived"]);
+                    return this.storeDump("report", id, jobId, progress);
+                })
+                .then(stored => {
+                    // Save the DB clean SQL along with statements that set the
+                    // state of the report to "archived", record the new version
+                    // in its history and mark the jobs of the report and its
+                    // analyses complete.
+                    s3Location = stored.location;
+                    cleanCommands += stored.cleanCommands;
+                    cleanCommands += this.markArchivedSql("report", id, s3Location, stored.checksum);
+                    cleanCommands += this.versions.recordSql("report", id, stored.version, s3Location, stored.manifestLocation, stored.checksum);
+                    cleanCommands += this.ledger.markSql(jobId);
+                    cleanCommands += "COMMIT;";
+                    progress.logger.debug(() => ["Commands to clean DB of report id %d: %s", id, cleanCommands]);
+                    progress.logger.debug(() => ["Initiating removal of DB objects associated with report: %d", id]);
+                    progress.reportStage("cleaning");
+                    return this.execDBCmds(cleanCommands, progress.logger);
+                })
+                .then((r) => {
+                    resolve(s3Location);
+                })
+                .catch(err => {
+                    progress.logger.warn(() => ["Error attempting to archive report %d: %s", id, err]);
+                    let failed = _.isNil(jobId) ? Promise.resolve() : this.ledger.fail(jobId, err);
+                    failed.then(() => reject(err));
+                })
+        })
+    }
+
+    /**
+     * Return a Promise resolved when an archive interrupted after all of its
+     * dumps were uploaded has been completed. Each dump is read back from
+     * archive storage and checked against the checksum stored with it, or with
+     * its manifest for streamed dumps, and the commands that clean its objects
+     * from the DB are derived from a schema-only dump. Those are executed in one
+     * transaction along with the statements marking the objects archived,
+     * recording their versions and marking the jobs complete.
+     * 
+     * @param{Job} root - the interrupted top level archive job
+     * @param{Job[]} children - unfinished jobs of the analyses archived with it
+     * @return{Promise} Promise resolved when the archive has been completed
+     */
+    private finishArchive(root: Job, children: Job[]): Promise<{}> {
+        let cleanCommands: string = "BEGIN;\n";
+        return children.concat([root]).reduce((p, job) => {
+            let checksum: string;
+            let metadata: ObjectMetadata;
+            return p
+                .then(() => this.storage.metadata(job.archive_location))
+                .then(m => {
+                    metadata = m;
+                    return Promise.all([this.expectedChecksum(metadata), this.storedObjectChecksum(job.archive_location)]);
+                })
+                .then(sums => {
+                    checksum = sums[1];
+                    if (checksum !== sums[0]) {
+                        throw new IntegrityError(job.object_type, job.object_id, job.archive_location, sums[0], checksum);
+                    }
+                    return this.getSchemaCleanCommands(tablePatterns(job.object_type, job.object_id));
+                })
+                .then(cmds => {
+                    cleanCommands += cmds;
+                    cleanCommands += this.markArchivedSql(job.object_type, job.object_id, job.archive_location, checksum);
+                    let version = versionOf(job.archive_location);
+                    if (version !== null) {
+                        cleanCommands += this.versions.recordSql(job.object_type, job.object_id, version, job.archive_location,
+                            metadata[MANIFEST_METADATA_KEY] || null, checksum);
+                    }
+                    return {};
+                });
+        }, Promise.resolve({}))
+            .then(() => {
+                cleanCommands += this.ledger.markSql(root.id);
+                cleanCommands += "COMMIT;";
+                this.logger.debug(() => ["Commands to finish archive job %d: %s", root.id, cleanCommands]);
+                return this.execDBCmds(cleanCommands);
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the checksum recorded when a dump was
+     * stored: in its metadata, or for a streamed dump, in its manifest
+     * 
+     * @param{ObjectMetadata} metadata - metadata stored with the dump
+     * @return{Promise<string>} Promise resolved with the checksum, undefined if none was recorded
+     */
+    private expectedChecksum(metadata: ObjectMetadata): Promise<string> {
+        if (!_.isNil(metadata[CHECKSUM_METADATA_KEY]) || _.isNil(metadata[MANIFEST_METADATA_KEY])) {
+            return Promise.resolve(metadata[CHECKSUM_METADATA_KEY]);
+        }
+        return this.readManifest(metadata[MANIFEST_METADATA_KEY]).then(manifest => manifest.dump_sha256);
+    }
+
+    /**
+     * Return a Promise resolved when an interrupted restore has been completed.
+     * pg_restore cleans the objects it restores before recreating them, so the
+     * restore is simply repeated from the download onwards.
+     * 
+     * @param{Job} job - the interrupted restore job
+     * @return{Promise} Promise resolved when the restore has been completed
+     */
+    private finishRestore(job: Job): Promise<{}> {
+        let location: Promise<string> = !_.isNil(job.archive_location) ? Promise.resolve(job.archive_location)
+            : job.object_type === "report" ? this.get_report_s3_location(job.object_id)
+                : this.get_analysis_s3_location(job.object_id);
+        return location.then(loc => this.restoreDump(job.object_type, job.object_id, job.id, loc, noProgress(this.logger)));
+    }
+
+    /**
+     * Return a Promise resolved with the outcome of resuming one interrupted
+     * top level job along with the jobs it cascaded to. Archives that got as far
+     * as uploading every dump are finished, earlier ones are rolled back (nothing
+     * has been removed from the DB at that point). Restores are always finished.
+     * 
+     * @param{Job} root - the interrupted top level job
+     * @param{Job[]} children - unfinished jobs cascaded from it
+     * @return{Promise<ResumeResult[]>} Promise resolved with one result per job
+     */
+    private resumeJob(root: Job, children: Job[]): Promise<ResumeResult[]> {
+        let jobs = children.concat([root]);
+        let outcome = (action: "finished" | "rolled back" | "failed", error?: string): ResumeResult[] => jobs.map(j => {
+            let r: ResumeResult = { job: j.id, operation: j.operation, object_type: j.object_type, object_id: j.object_id, action: action };
+            if (!_.isNil(error)) {
+                r.error = error;
+            }
+            return r;
+        });
+        let resume: () => Promise<{}>;
+        let action: "finished" | "rolled back";
+
+        this.logger.info(() => ["Resuming %s job %d of %s %d interrupted in stage %s", root.operation, root.id, root.object_type, root.object_id, root.stage]);
+        if (root.operation === "archive") {
+            if (root.stage === "UPLOADED" && _.every(children, ["stage", "UPLOADED"])) {
+                action = "finished";
+                resume = () => this.finishArchive(root, children);
+            } else {
+                action = "rolled back";
+                resume = () => this.ledger.rollBack(root.id).then(() => ({}));
+            }
+        } else {
+            action = "finished";
+            resume = () => jobs.reduce((q, job) => q.then(() => this.finishRestore(job)), Promise.resolve({}));
+        }
+        return this.locks.withLocks(jobs.map(j => ({ object_type: j.object_type, id: j.object_id })), resume)
+            .then(() => {
+                this.logger.info(() => ["Job %d %s", root.id, action]);
+                return outcome(action);
+            })
+            .catch(err => {
+                this.logger.warn(() => ["Unable to resume job %d: %s", root.id, err]);
+                return outcome("failed", `${err}`);
+            });
+    }
+
+    /**
+     * Return a Promise resolved when every archive/restore job left unfinished by
+     * a previous process (because it died mid-operation) has been finished or
+     * rolled back. Intended to be called on startup before any new archive or
+     * restore is started. Jobs that cannot be resumed are left in the ledger so
+     * a later call can retry them.
+     * 
+     * @return{Promise<ResumeResult[]>} Promise resolved with the outcome for each job
+     */
+    public resumeJobs(): Promise<ResumeResult[]> {
+        this.logger.info(() => ["Resuming interrupted archive/restore jobs"]);
+        return this.ready()
+            .then(() => this.ledger.unfinished())
+            .then(jobs => {
+                let roots = jobs.filter(j => _.isNil(j.parent) || !_.some(jobs, ["id", j.parent]));
+                this.logger.debug(() => ["%d unfinished jobs found, %d top level", jobs.length, roots.length]);
+                return roots.reduce((p, root) => p
+                    .then(results => this.resumeJob(root, jobs.filter(j => j.parent === root.id))
+                        .then(r => results.concat(r))), Promise.resolve([] as ResumeResult[]));
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the tables of the configured schema matched
+     * by the specified pg_dump table patterns, and their on-disk sizes.
+     * Sequences, which pg_dump also matches, are included unless asked
+     * otherwise, e.g. for a manifest, as they have no rows to count.
+     * 
+     * @param{string[]} patterns - table patterns relative to the configured schema
+     * @param{boolean} sequences - whether to include the matching sequences
+     * @return{Promise<TablePlan[]>} Promise resolved with the matching tables
+     */
+    private getMatchingTables(patterns: string[], sequences: boolean = true): Promise<TablePlan[]> {
+        let re = tablesRegex(patterns);
+        this.logger.debug(() => ["Retrieving tables matching %s", re]);
+        return this.db.any(this.sql.tables_matching_sql, [this.config.db_connection.schema, re])
+            .then(rows => rows
+                .filter(row => sequences || row.kind !== "S")
+                .map(row => ({ name: row.name, bytes: parseInt(row.bytes, 10) })));
+    }
+
+    /**
+     * Return a Promise resolved with a description of what archiving the
+     * specified report/analysis would do. The DROP statements are taken from a
+     * schema-only dump of the objects, so nothing is uploaded or dropped.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string[]} patterns - table patterns of the report/analysis
+     * @return{Promise<ObjectArchivePlan>} Promise resolved with the plan
+     */
+    private planArchive(type: ObjectType, id: number, patterns: string[]): Promise<ObjectArchivePlan> {
+        let plan: ObjectArchivePlan = { object_type: type, id: id, tables: [], bytes: 0, drop_statements: [] };
+        return this.getMatchingTables(patterns)
+            .then(tables => {
+                plan.tables = tables;
+                plan.bytes = _.sumBy(tables, "bytes");
+                if (tables.length === 0) {
+                    return plan;
+                }
+                return this.getSchemaCleanCommands(patterns)
+                    .then(cmds => {
+                        plan.drop_statements = cmds.split("\n").filter(l => l.trim() !== "");
+                        return plan;
+                    });
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the plan of archiving the specified report:
+     * the non-archived analyses that would be archived along with it, the tables
+     * of each and their sizes, and the DROP statements that would be executed.
+     * Nothing is transferred to archive storage or removed from the DB.
+     * 
+     * @param{number} id - key of report whose archive is planned
+     * @return{Promise<ArchivePlan>} Promise resolved with the plan
+     */
+    public planArchiveReport(id: number): Promise<ArchivePlan> {
+        this.logger.info(() => ["Planning archive of report: %d", id]);
+        return this.ready()
+            .then(() => this.db.one(this.sql.validate_report_present_sql, id))
+            .then(() => this.getDependentAnalyses(id))
+            .catch((err) => {
+                if (!isNoData(err)) {
+                    throw err;
+                }
+                let errMsg = `Report ${id} either does not exist or is already archived. Error: ${err}`;
+                this.logger.warn(() => [errMsg]);
+                throw new NotPresentError(errMsg, "report", id, err);
+            })
+            .then(deps => Promise.all([this.planArchive("report", id, reportTablePatterns(id))]
+                .concat(deps.map(a => this.planArchive("analysis", a, analysisTablePatterns(a))))))
+            .then(plans => {
+                this.logger.debug(() => ["Archive of report %d planned", id]);
+                return { report: plans[0], analyses: plans.slice(1), total_bytes: _.sumBy(plans, "bytes") };
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the plan of restoring the specified analysis:
+     * the archive location of its dump, and the archived reports that would be
+     * restored along with it and their archive locations. Nothing is retrieved
+     * from archive storage or restored.
+     * 
+     * @param{number} id - key of analysis whose restore is planned
+     * @return{Promise<RestorePlan>} Promise resolved with the plan
+     */
+    public planRestoreAnalysis(id: number): Promise<RestorePlan> {
+        let analysis: ObjectRestorePlan;
+        this.logger.info(() => ["Planning restore of analysis: %d", id]);
+        return this.ready()
+            .then<any>(() => this.db.one(this.sql.validate_analysis_archived_sql, id))
+            .then(r => {
+                analysis = { object_type: "analysis", id: id, archive_location: r.archive_location };
+                return this.getNeededReports(id);
+            })
+            .catch((err) => {
+                if (!isNoData(err)) {
+                    throw err;
+                }
+                let errMsg = `Analysis ${id} either does not exist or is not archived. Error: ${err}`;
+                this.logger.warn(() => [errMsg]);
+                throw new NotArchivedError(errMsg, "analysis", id, err);
+            })
+            .then(deps => Promise.all(deps.map(r => this.get_report_s3_location(r)
+                .then(loc => ({ object_type: "report" as ObjectType, id: r, archive_location: loc })))))
+            .then(reports => {
+                this.logger.debug(() => ["Restore of analysis %d planned", id]);
+                return { analysis: analysis, reports: reports };
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the activity of the specified report the
+     * policy needs: the age of its row if the policy has min_age_days, the days
+     * since its stats tables were last scanned if it has min_idle_days and the
+     * server tracks scans, and the total size of its tables.
+     * 
+     * @param{number} id - key of report
+     * @param{ArchivePolicy} policy - archive policy, validated by validatePolicy()
+     * @param{boolean} tracksScans - whether the server tracks the last scan of each table
+     * @return{Promise<ReportActivity>} Promise resolved with the report's activity
+     */
+    private getReportActivity(id: number, policy: ArchivePolicy, tracksScans: boolean): Promise<ReportActivity> {
+        let schema = this.config.db_connection.schema;
+        let tables = [schema, tablesRegex(reportTablePatterns(id))];
+        let toNumber = (n): number | null => _.isNil(n) ? null : Number(n);
+
+        this.logger.debug(() => ["Retrieving activity of report %d", id]);
+        let age: Promise<any> = _.isNil(policy.min_age_days) ? Promise.resolve({}) :
+            this.db.one(squel.select()
+                .from(`${schema}.report`)
+                .field(`extract(epoch from now() - ${policy.age_column}) / 86400`, "age_days")
+                .where("id=?")
+                .toParam()
+                .text, id);
+        let idle: Promise<any> = _.isNil(policy.min_idle_days) || !tracksScans ? Promise.resolve({}) :
+            this.db.one(this.sql.report_idle_sql, tables);
+        return Promise.all([age, idle, this.db.one(this.sql.report_size_sql, tables)])
+            .then(rows => {
+                let activity: ReportActivity = {
+                    id: id,
+                    age_days: toNumber(rows[0].age_days),
+                    idle_days: toNumber(rows[1].idle_days),
+                    total_bytes: Number(rows[2].total_bytes)
+                };
+                this.logger.debug(() => ["Activity of report %d: %s", id, JSON.stringify(activity)]);
+                return activity;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the reports selected by the specified archive
+     * policy, along with the analyses that would be archived with each of them,
+     * and the reports considered but not selected with the reasons why. A
+     * report whose activity cannot be retrieved is skipped. On servers older
+     * than Postgres 16, which do not track table scans, a policy with
+     * min_idle_days selects nothing.
+     * 
+     * @param{ArchivePolicy} policy - rules selecting the reports, by default the
+     *                                "archive_policy" section of the configuration
+     * @return{Promise<PolicySelection>} Promise resolved with the selection
+     */
+    public selectReportsToArchive(policy: ArchivePolicy = this.config.archive_policy || {}): Promise<PolicySelection> {
+        let selection: PolicySelection = { selected: [], skipped: [] };
+        let idleUnsupported: string[] = [];
+
+        this.logger.info(() => ["Selecting reports to archive using policy %s", JSON.stringify(policy)]);
+        let checked = this.ready()
+            .then(() => {
+                validatePolicy(policy);
+                if (_.isNil(policy.min_idle_days)) {
+                    return;
+                }
+                return this.db.one(this.sql.server_version_sql)
+                    .then(row => {
+                        let reason = idleTrackingUnsupported(row.server_version_num);
+                        if (reason !== null) {
+                            this.logger.warn(() => ["No report can be selected: %s", reason]);
+                            idleUnsupported = [reason];
+                        }
+                    });
+            });
+        // Only the allowed reports are considered when there is an allow list
+        let candidates: Promise<number[]> = checked.then(() => _.isEmpty(policy.allow) ?
+            this.db.any(this.sql.present_reports_sql).then(rows => rows.map(row => row.id)) :
+            _.sortBy(_.uniq(policy.allow)));
+
+        return candidates
+            .then(ids => ids.reduce((p, id) => p.then(() => {
+                let reasons = policyExclusions(policy, { id: id, age_days: null, idle_days: null, total_bytes: 0 }, true);
+                if (reasons.length > 0) {
+                    selection.skipped.push({ id: id, reasons: reasons });
+                    return;
+                }
+                return this.db.one(this.sql.validate_report_present_sql, id)
+                    .then(() => this.getReportActivity(id, policy, idleUnsupported.length === 0)
+                        .then(activity => {
+                            reasons = policyExclusions(policy, activity).concat(idleUnsupported);
+                            if (reasons.length > 0) {
+                                selection.skipped.push({ id: id, reasons: reasons });
+                                return;
+                            }
+                            return this.getDependentAnalyses(id)
+                                .then(analyses => {
+                                    selection.selected.push({ activity: activity, analyses: analyses });
+                                });
+                        })
+                        .catch(err => {
+                            this.logger.warn(() => ["Could not evaluate report %d against the archive policy: %s", id, err]);
+                            selection.skipped.push({ id: id, reasons: [`activity could not be retrieved: ${err}`] });
+                        }),
+                    () => {
+                        selection.skipped.push({ id: id, reasons: ["report does not exist or is already archived"] });
+                    });
+            }), Promise.resolve()))
+            .then(() => {
+                if (!_.isNil(policy.limit) && selection.selected.length > policy.limit) {
+                    selection.selected.slice(policy.limit).forEach(c => {
+                        selection.skipped.push({ id: c.activity.id, reasons: [`batch limit of ${policy.limit} reports reached`] });
+                    });
+                    selection.selected = selection.selected.slice(0, policy.limit);
+                }
+                this.logger.info(() => ["%d reports selected for archive, %d skipped", selection.selected.length, selection.skipped.length]);
+                return selection;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when every report selected by the specified
+     * archive policy has been archived (along with its dependent analyses) or
+     * has failed to. Reports are archived one at a time, so an analysis shared
+     * by two selected reports is archived once, with the first of them. The
+     * Promise is never rejected because of a failed archive; failures are
+     * reported in the summary instead.
+     * 
+     * @param{ArchivePolicy} policy - rules selecting the reports, by default the
+     *                                "archive_policy" section of the configuration
+     * @param{string} initiator - who requested the archives, recorded in the history
+     * @return{Promise<BatchArchiveResult>} Promise resolved with a summary of the batch
+     */
+    public archiveStaleReports(policy: ArchivePolicy = this.config.archive_policy || {},
+        initiator: string | null = null): Promise<BatchArchiveResult> {
+        let result: BatchArchiveResult = { archived: [], failed: [], skipped: [] };
+
+        return this.selectReportsToArchive(policy)
+            .then(selection => {
+                result.skipped = selection.skipped;
+                return selection.selected.reduce((p, candidate) => p.then(() => {
+                    let id = candidate.activity.id;
+                    let analyses: number[];
+                    return this.getDependentAnalyses(id)
+                        .then(deps => {
+                            analyses = deps;
+                            return this.archiveReport(id, initiator);
+                        })
+                        .then(loc => {
+                            result.archived.push({ id: id, archive_location: loc, analyses: analyses });
+                        })
+                        .catch(err => {
+                            result.failed.push({ id: id, error: `${err}` });
+                        });
+                }), Promise.resolve());
+            })
+            .then(() => {
+                this.logger.info(() => ["Batch archive complete: %d archived, %d failed, %d skipped",
+                    result.archived.length, result.failed.length, result.skipped.length]);
+                return result;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the archive state of the specified
+     * report/analysis, the size of its dump if it is archived, and the state
+     * of its neighbours through analysis_report: the analyses depending on a
+     * report, or the reports an analysis depends on (those of them that are
+     * archived are restored along with it). The Promise is rejected if it does
+     * not exist.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @return{Promise<ObjectStatus>} Promise resolved with the archive state
+     */
+    private getStatus(type: ObjectType, id: number): Promise<ObjectStatus> {
+        let other: ObjectType = type === "report" ? "analysis" : "report";
+        let status: ObjectStatus;
+        this.logger.debug(() => ["Retrieving status of %s %d", type, id]);
+        return this.db.oneOrNone(this.sql.status_sql[type], id)
+            .then(row => {
+                if (_.isNil(row)) {
+                    throw new NotFoundError(`${_.capitalize(type)} ${id} does not exist`, type, id);
+                }
+                status = toObjectStatus(type, row);
+                return Promise.all([this.dumpSize(status.archive_location), this.db.any(this.sql.neighbours_sql[type], id)]);
+            })
+            .then(results => {
+                status.dump_size = results[0];
+                status.dependencies = results[1].map(row => toObjectStatus(other, row));
+                return status;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the size of the dump at the given archive
+     * location, or null if there is none or it cannot be found in archive
+     * storage
+     * 
+     * @param{string} loc - archive location, or null
+     * @return{Promise<number>} Promise resolved with the size in bytes, or null
+     */
+    private dumpSize(loc: string | null): Promise<number | null> {
+        if (_.isNil(loc)) {
+            return Promise.resolve(null);
+        }
+        return this.storage.size(loc)
+            .catch(err => {
+                this.logger.warn(() => ["Unable to retrieve the size of %s: %s", loc, err]);
+                return null;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with a page of the archive states of the
+     * archived reports/analyses matching the query, in id order
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{ArchiveListQuery} query - filters and page
+     * @return{Promise<ObjectStatusPage>} Promise resolved with the page
+     */
+    private listArchived(type: ObjectType, query: ArchiveListQuery): Promise<ObjectStatusPage> {
+        let limit = _.isNil(query.limit) ? DEFAULT_PAGE_SIZE : query.limit;
+        let offset = query.offset || 0;
+        if (!(_.isInteger(limit) && limit >= 1) || !(_.isInteger(offset) && offset >= 0)) {
+            return Promise.reject(new Error(`Invalid page: limit ${limit}, offset ${offset}`));
+        }
+        let filters: any[] = [
+            _.isNil(query.archived_after) ? null : query.archived_after,
+            _.isNil(query.archived_before) ? null : query.archived_before,
+            _.isNil(query.location_prefix) ? null : query.location_prefix
+        ];
+        return Promise.all([
+            this.db.any(this.sql.archived_sql[type], filters.concat([limit, offset])),
+            this.db.one(this.sql.archived_count_sql[type], filters)
+        ])
+            .then(results => ({
+                items: results[0].map(row => toObjectStatus(type, row)),
+                total: parseInt(results[1].total, 10),
+                limit: limit,
+                offset: offset
+            }));
+    }
+
+    /**
+     * Return a Promise resolved with the archive state of the specified report
+     * 
+     * @param{number} id - key of report
+     * @return{Promise<ObjectStatus>} Promise resolved with the archive state
+     */
+    public getReportStatus(id: number): Promise<ObjectStatus> {
+        return this.ready().then(() => this.getStatus("report", id));
+    }
+
+    /**
+     * Return a Promise resolved with the archive state of the specified analysis
+     * 
+     * @param{number} id - key of analysis
+     * @return{Promise<ObjectStatus>} Promise resolved with the archive state
+     */
+    public getAnalysisStatus(id: number): Promise<ObjectStatus> {
+        return this.ready().then(() => this.getStatus("analysis", id));
+    }
+
+    /**
+     * Return a Promise resolved with a page of the archive states of the
+     * archived reports matching the query
+     * 
+     * @param{ArchiveListQuery} query - filters and page, the first 100 of all by default
+     * @return{Promise<ObjectStatusPage>} Promise resolved with the archived reports
+     */
+    public listArchivedReports(query: ArchiveListQuery = {}): Promise<ObjectStatusPage> {
+        return this.ready().then(() => this.listArchived("report", query));
+    }
+
+    /**
+     * Return a Promise resolved with a page of the archive states of the
+     * archived analyses matching the query
+     * 
+     * @param{ArchiveListQuery} query - filters and page, the first 100 of all by default
+     * @return{Promise<ObjectStatusPage>} Promise resolved with the archived analyses
+     */
+    public listArchivedAnalyses(query: ArchiveListQuery = {}): Promise<ObjectStatusPage> {
+        return this.ready().then(() => this.listArchived("analysis", query));
+    }
+
+    /**
+     * Return a Promise resolved with the archived versions of the specified
+     * report that have not been pruned, newest first
+     * 
+     * @param{number} id - key of report
+     * @return{Promise<ArchiveVersion[]>} Promise resolved with the versions
+     */
+    public listReportVersions(id: number): Promise<ArchiveVersion[]> {
+        return this.ready().then(() => this.versions.list("report", id));
+    }
+
+    /**
+     * Return a Promise resolved with the archived versions of the specified
+     * analysis that have not been pruned, newest first
+     * 
+     * @param{number} id - key of analysis
+     * @return{Promise<ArchiveVersion[]>} Promise resolved with the versions
+     */
+    public listAnalysisVersions(id: number): Promise<ArchiveVersion[]> {
+        return this.ready().then(() => this.versions.list("analysis", id));
+    }
+
+    /**
+     * Return a Promise resolved with a page of the archives/restores recorded
+     * in the history matching the query, newest first, e.g. who restored a
+     * report and when
+     * 
+     * @param{HistoryQuery} query - filters and page, the last 100 operations by default
+     * @return{Promise<HistoryPage>} Promise resolved with the entries
+     */
+    public listHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+        return this.ready().then(() => this.history.list(query));
+    }
+
+    /**
+     * Return a Promise resolved when the archived versions that the retention
+     * policy does not keep (see selectPrunable in versions.ts) have been
+     * deleted from archive storage and marked pruned in the version history.
+     * Each version is pruned under the lock of its report/analysis.
+     * 
+     * @param{RetentionPolicy} policy - retention policy, the configured "retention" by default
+     * @return{Promise<PruneResult>} Promise resolved with the pruned versions and the number kept
+     */
+    public pruneVersions(policy: RetentionPolicy = this.config.retention || {}): Promise<PruneResult> {
+        let result: PruneResult = { pruned: [], kept: 0 };
+        return this.ready()
+            .then(() => this.versions.all())
+            .then(versions => {
+                let prunable = selectPrunable(versions, policy);
+                result.kept = versions.length - prunable.length;
+                this.logger.info(() => ["Pruning %d of %d archived versions", prunable.length, versions.length]);
+                return prunable.reduce((p, version) => p
+                    .then(() => this.locks.withLocks(objectKeys(version.object_type, [version.object_id]), () => this.pruneVersion(version)))
+                    .then(pruned => {
+                        if (pruned) {
+                            result.pruned.push(version);
+                        } else {
+                            result.kept++;
+                        }
+                        return {};
+                    }), Promise.resolve({}));
+            })
+            .then(() => result);
+    }
+
+    /**
+     * Return a Promise resolved with true when the dump and manifest of the
+     * version have been deleted and the version marked pruned, or with false if
+     * the version was pruned or became the current archive of its
+     * report/analysis meanwhile. The lock of the report/analysis must be held.
+     * 
+     * @param{ArchiveVersion} version - version to prune
+     * @return{Promise<boolean>} Promise resolved with whether the version was pruned
+     */
+    private pruneVersion(version: ArchiveVersion): Promise<boolean> {
+        return this.versions.at(version.archive_location)
+            .then(v => {
+                if (_.isNil(v) || v.current) {
+                    return false;
+                }
+                this.logger.info(() => ["Pruning version %s of %s %d", v.version, v.object_type, v.object_id]);
+                return this.storage.remove(v.archive_location)
+                    .then(() => _.isNil(v.manifest_location) ? {} : this.storage.remove(v.manifest_location))
+                    .then(() => this.versions.markPruned(v))
+                    .then(() => true);
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the discrepancies between the DB and
+     * archive storage (see reconcile.ts). With repair set, the repairable
+     * discrepancies are fixed one at a time, each under the lock of its
+     * report/analysis, and those that could not be fixed say why.
+     * 
+     * @param{boolean} repair - fix the discrepancies that are safe to fix
+     * @return{Promise<ReconcileReport>} Promise resolved with the report
+     */
+    public reconcile(repair: boolean = false): Promise<ReconcileReport> {
+        let report: ReconcileReport;
+        return this.ready()
+            .then(() => this.reconcileInventory())
+            .then(inventory => {
+                let discrepancies = findDiscrepancies(inventory);
+                report = {
+                    reports: _.filter(inventory.objects, { object_type: "report" }).length,
+                    analyses: _.filter(inventory.objects, { object_type: "analysis" }).length,
+                    tables: inventory.tables.length,
+                    stored_objects: inventory.stored.length,
+                    versions: inventory.versions.length,
+                    discrepancies: discrepancies,
+                    repaired: 0
+                };
+                this.logger.info(() => ["Reconciliation found %d discrepancies", discrepancies.length]);
+                if (!repair) {
+                    return {};
+                }
+                return discrepancies.filter(d => d.repairable)
+                    .reduce((p, d) => p.then(() => this.repairDiscrepancy(d)), Promise.resolve({}));
+            })
+            .then(() => {
+                report.repaired = _.filter(report.discrepancies, "repaired").length;
+                return report;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with every report/analysis row, the tables
+     * they own, the objects in archive storage below the prefix of this
+     * database and schema, the unpruned versions and the locations of the
+     * unfinished jobs. The rows are read before archive storage is listed, so
+     * a dump is listed if an archive that stored it completed in between.
+     * Archive locations outside the listed prefix are looked up one by one.
+     * 
+     * @return{Promise<ReconcileInventory>} Promise resolved with the inventory
+     */
+    private reconcileInventory(): Promise<ReconcileInventory> {
+        let inventory = {} as ReconcileInventory;
+        let listed = normalizeLocation(this.storage.location(this.storageKey("")));
+        return Promise.all([
+            this.db.any(this.sql.objects_sql["report"]),
+            this.db.any(this.sql.objects_sql["analysis"]),
+            this.db.any(this.sql.tables_matching_sql, [this.config.db_connection.schema, OWNED_TABLES_REGEX]),
+            this.versions.all(),
+            this.ledger.unfinished()
+        ])
+            .then(results => {
+                inventory.objects = results[0].map(row => ({ object_type: "report" as ObjectType, id: row.id, archive_location: row.archive_location }))
+                    .concat(results[1].map(row => ({ object_type: "analysis" as ObjectType, id: row.id, archive_location: row.archive_location })));
+                inventory.tables = results[2].map(row => row.name);
+                inventory.versions = results[3];
+                inventory.jobLocations = results[4].map(job => job.archive_location).filter(loc => !_.isNil(loc));
+                return this.storage.list(this.storageKey(""));
+            })
+            .then(stored => {
+                inventory.stored = stored;
+                let elsewhere = _.uniq(inventory.objects.map(o => o.archive_location)
+                    .concat(inventory.versions.map(v => v.archive_location))
+                    .filter(loc => !_.isNil(loc) && !_.startsWith(normalizeLocation(loc), listed)));
+                return Promise.all(elsewhere.map(loc => this.queues.transfer.run(() => this.storage.size(loc))
+                    .then(() => loc, () => null)));
+            })
+            .then(found => {
+                inventory.stored = inventory.stored.concat(found.filter(loc => !_.isNil(loc)));
+                return inventory;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the discrepancy once its repair has been
+     * attempted under the lock of its report/analysis. The discrepancy is
+     * marked repaired, or the reason it was not is recorded in its error.
+     * 
+     * @param{Discrepancy} d - a repairable discrepancy
+     * @return{Promise<Discrepancy>} Promise resolved with the discrepancy
+     */
+    private repairDiscrepancy(d: Discrepancy): Promise<Discrepancy> {
+        let repairs: { [kind: string]: () => Promise<{}> } = {
+            archived_with_tables: () => this.markVerifiedPresent(d.object_type, d.id, d.location),
+            orphan_dump: () => this.removeOrphanDump(d.location),
+            missing_version: () => this.pruneMissingVersion(d.location)
+        };
+        this.logger.info(() => ["Repairing %s of %s %d at %s", d.kind, d.object_type, d.id, d.location]);
+        return this.locks.withLocks(objectKeys(d.object_type, [d.id]), repairs[d.kind])
+            .then(() => {
+                d.repaired = true;
+                return d;
+            }, err => {
+                this.logger.warn(() => ["Unable to repair %s of %s %d: %s", d.kind, d.object_type, d.id, err]);
+                d.error = `${err}`;
+                return d;
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the specified report/analysis, still
+     * archived at the given location, has been marked present because its
+     * tables match the manifest of its dump. An analysis is only marked
+     * present if the reports it needs are. The lock of the report/analysis
+     * must be held.
+     * 
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} loc - archive location of the report/analysis
+     * @return{Promise} Promise resolved when the report/analysis is marked present
+     */
+    private markVerifiedPresent(type: ObjectType, id: number, loc: string): Promise<{}> {
+        return this.db.one(this.sql.status_sql[type], id)
+            .then(row => {
+                if (row.archive_location !== loc) {
+                    throw new Error(`${_.capitalize(type)} ${id} is no longer archived at ${loc}`);
+                }
+                return type === "analysis" ? this.getNeededReports(id) : [];
+            })
+            .then(archived => {
+                if (archived.length > 0) {
+                    throw new Error(`Reports ${archived.join(", ")} needed by analysis ${id} are archived`);
+                }
+                return this.storage.metadata(loc);
+            })
+            .then(metadata => {
+                if (_.isNil(metadata[MANIFEST_METADATA_KEY])) {
+                    throw new Error(`No manifest stored with the dump of ${type} ${id} to verify its tables against`);
+                }
+                return this.readManifest(metadata[MANIFEST_METADATA_KEY]);
+            })
+            .then(manifest => this.describeTables(manifest.tables.map(t => t.name))
+                .then(actual => compareManifest(manifest, actual)))
+            .then(mismatches => {
+                if (mismatches.length > 0) {
+                    throw new ManifestMismatchError(type, id, mismatches);
+                }
+                this.logger.info(() => ["Tables of %s %d match its manifest, marking it present", type, id]);
+                return this.db.none(this.sql.reset_s3_location_sql[type], [null, null, "now()", id]);
+            })
+            .then(() => ({}));
+    }
+
+    /**
+     * Return a Promise resolved when the dump at the given location, and its
+     * manifest, have been deleted from archive storage, provided that no
+     * report/analysis, unpruned version or unfinished job refers to it. The
+     * lock of its report/analysis must be held.
+     * 
+     * @param{string} loc - archive location of the dump
+     * @return{Promise} Promise resolved when the dump is deleted
+     */
+    private removeOrphanDump(loc: string): Promise<{}> {
+        return Promise.all([this.versions.at(loc), this.ledger.unfinished(), this.reconcileObjectLocations()])
+            .then(results => {
+                let referenced = _.compact([results[0] && results[0].archive_location])
+                    .concat(results[1].map(job => job.archive_location), results[2])
+                    .filter(l => !_.isNil(l))
+                    .map(normalizeLocation);
+                if (_.includes(referenced, normalizeLocation(loc))) {
+                    throw new Error(`${loc} is no longer orphaned`);
+                }
+                this.logger.info(() => ["Deleting orphan dump %s", loc]);
+                return this.storage.remove(loc);
+            })
+            .then(() => this.storage.remove(manifestLocation(loc)));
+    }
+
+    /**
+     * Return a Promise resolved with the archive locations of every archived
+     * report/analysis
+     */
+    private reconcileObjectLocations(): Promise<string[]> {
+        return Promise.all([this.db.any(this.sql.objects_sql["report"]), this.db.any(this.sql.objects_sql["analysis"])])
+            .then(results => _.flatten(results).map(row => row.archive_location).filter(loc => !_.isNil(loc)));
+    }
+
+    /**
+     * Return a Promise resolved when the version stored at the given location,
+     * whose dump is not in archive storage, has been marked pruned, provided
+     * that it is still unpruned and not the current archive of its
+     * report/analysis. The lock of its report/analysis must be held.
+     * 
+     * @param{string} loc - archive location of the version
+     * @return{Promise} Promise resolved when the version is marked pruned
+     */
+    private pruneMissingVersion(loc: string): Promise<{}> {
+        return this.versions.at(loc)
+            .then(v => {
+                if (_.isNil(v) || v.current) {
+                    throw new Error(`The version at ${loc} is pruned or current`);
+                }
+                return this.storage.size(loc)
+                    .then(() => {
+                        throw new Error(`The dump of the version at ${loc} is in archive storage`);
+                    }, () => this.versions.markPruned(v));
+            })
+            .then(() => ({}));
+    }
+}
+
+/**
+ * Return a Promise resolved when a temporary file name is generated
+ * @return{string} pathname of temporary file name
+ */
+function generateTmpFile(): Promise<string> {
+    return new Promise((resolve, reject) => {
+        tmp.tmpName(function _tempNameGenerated(err, path) {
+            if (err) {
+                reject(err);
+            } else {
+                resolve(path);
+            }
+        });
+    })
+}
+
+/**
+ * Return a Promise resolved with the contents of the specified file
+ */
+function readFile(fn: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        fs.readFile(fn, (err, data) => err ? reject(err) : resolve(data));
+    });
+}
+
+/**
+ * Return a Promise resolved when the data has been written to the specified file
+ */
+function writeFile(fn: string, data: string): Promise<{}> {
+    return new Promise((resolve, reject) => {
+        fs.writeFile(fn, data, err => err ? reject(err) : resolve());
+    });
+}
+
+/**
+ * Return the lock keys of the specified reports/analyses
+ * 
+ * @param{ObjectType} type - "report" or "analysis"
+ * @param{number[]} ids - ids of the reports/analyses
+ * @return{LockKey[]} one key per id
+ */
+function objectKeys(type: ObjectType, ids: number[]): LockKey[] {
+    return ids.map(id => ({ object_type: type, id: id }));
+}
+
+/**
+ * Return the pg_dump table patterns, relative to the configured schema,
+ * matching the DB objects of the specified analysis
+ * 
+ * @param{number} a - key of analysis
+ * @return{string[]} table patterns
+ */
+function analysisTablePatterns(a: number): string[] {
+    return [`analysis_${a}_*`];
+}
+
+/**
+ * Return the pg_dump table patterns, relative to the configured schema,
+ * matching the DB objects of the specified report
+ * 
+ * @param{number} r - id of report
+ * @return{string[]} table patterns
+ */
+function reportTablePatterns(r: number): string[] {
+    return [`segment_${r}`, `stats_${r}_*`];
+}
+
+/**
+ * Return the pg_dump table patterns of the specified report/analysis
+ * 
+ * @param{ObjectType} type - "report" or "analysis"
+ * @param{number} id - id of the report/analysis
+ * @return{string[]} table patterns
+ */
+function tablePatterns(type: ObjectType, id: number): string[] {
+    return type === "report" ? reportTablePatterns(id) : analysisTablePatterns(id);
+}
+
+/**
+ * Return the version of the dump stored at the given archive location, or
+ * null if it was stored before archives were versioned
+ * 
+ * @param{string} location - archive location of a dump
+ * @return{string} the version or null
+ */
+function versionOf(location: string): string | null {
+    let m = /\/(?:report|analysis)_[0-9]+\/([^\/]+)\.dump$/.exec(location);
+    return m === null ? null : m[1];
+}
+
+/**
+ * Return the statements of pg_restore's clean output that drop DB objects
+ * 
+ * @param{string} output - SQL script written by pg_restore -c
+ * @return{string} the DROP statements, one per line
+ */
+function cleanCommandLines(output: string): string {
+    return output.split("\n")
+        .filter(line => /^DROP/.test(line) || /ALTER TABLE .* DROP .*/.test(line))
+        .map(line => line + "\n")
+        .join("");
+}
+
+/**
+ * Return a regular expression matching the table names matched by the
+ * specified pg_dump table patterns
+ * 
+ * @param{string[]} patterns - table patterns relative to the configured schema
+ * @return{string} anchored regular expression
+ */
+function tablesRegex(patterns: string[]): string {
+    return `^(${patterns.map(p => p.replace(/\*/g, ".*").replace(/\?/g, ".")).join("|")})$`;
+}
+
+/**
+ * Convert a row selected by the status_sql/archived_sql statements to an
+ * ObjectStatus
+ */
+function toObjectStatus(type: ObjectType, row): ObjectStatus {
+    return {
+        object_type: type,
+        id: row.id,
+        state: _.isNil(row.archive_location) ? "present" : "archived",
+        archive_location: row.archive_location,
+        archive_checksum: row.archive_checksum,
+        archive_timestamp: row.archive_timestamp,
+        restore_timestamp: row.restore_timestamp
+    };
+}
+
+/**
+ * Create an archiver for the database described by the configuration
+ *
+ * @param{Config} config - library configuration, in the shape of conf/config.js
+ * @param{ArchiverDeps} deps - dependencies to use instead of creating them
+ * @return{Archiver} the new archiver
+ */
+export function createArchiver(config: Config, deps: ArchiverDeps = {}): Archiver {
+    return new Archiver(config, deps);
+}
@@ -0,0 +1,496 @@
+#!/usr/bin/env node
+/**
+ * Command line interface to the archive/restore library, for use outside of
+ * a Sails app. Usage:
+ *
+ *      ts-archive-restore [--config <file>] [--json] <command> [args]
+ *
+ * where command is one of:
+ *
+ *      archive-report <id...>      Archive reports (and their dependent analyses)
+ *      archive-analysis <id...>    Archive analyses (leaving their reports in place)
+ *      restore-report <id...>      Restore reports
+ *      restore-analysis <id...>    Restore analyses (and the reports they need)
+ *      status [--analysis] <id>    Show the archive state of a report/analysis
+ *      list-archived               List all archived reports and analyses
+ *      versions [--analysis] <id>  List the archived versions of a report/analysis
+ *      prune                       Delete the versions the retention policy does not keep
+ *      reconcile [--repair]        Compare the DB with archive storage, repairing what is safe to
+ *      migrate                     Create or upgrade the bookkeeping columns and tables
+ *      history [--analysis] <id>   List the archives/restores of a report/analysis, newest first
+ *
+ * restore-report and restore-analysis accept --version <version> along with a
+ * single id, to restore that version instead of the current archive. The
+ * archives and restores are recorded in the history as requested by the user
+ * running the command, or by the initiator given with --initiator <name>.
+ * list-archived and history accept --limit <n> and --offset <n> to page
+ * through the archived reports/analyses (the first 100 of each by default)
+ * or the history (the last 100 operations by default). reconcile
+ * only reports the discrepancies it finds unless --repair is given (see
+ * reconcile.ts for what it repairs).
+ *
+ * The configuration file has the shape of conf/config.js, which is used when
+ * --config is not given. Progress is written to stderr and results to stdout;
+ * with --json, only a single JSON document describing the results is written.
+ *
+ * Exit codes:
+ *
+ *      0 - every operation succeeded
+ *      1 - every operation failed
+ *      2 - invalid command line
+ *      3 - some operations succeeded and some failed
+ *      4 - the configuration could not be loaded
+ *      5 - reconcile found discrepancies that are left unrepaired
+ */
+
+import os = require("os");
+import path = require("path");
+import _ = require('lodash');
+import {
+    Config, ObjectStatus, ObjectStatusPage, ArchiveVersion, PruneResult, Discrepancy, ReconcileReport, SchemaMigrationResult,
+    HistoryEntry, HistoryPage
+} from "./types";
+import { Archiver, createArchiver } from "./archiver";
+import { Operation } from "./progress";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PARTIAL = 3;
+export const EXIT_CONFIG = 4;
+export const EXIT_DISCREPANCIES = 5;
+
+const usage = `Usage: ts-archive-restore [--config <file>] [--json] <command> [args]
+
+Commands:
+    archive-report <id...>      Archive reports (and their dependent analyses)
+    archive-analysis <id...>    Archive analyses (leaving their reports in place)
+    restore-report <id...>      Restore reports
+    restore-analysis <id...>    Restore analyses (and the reports they need)
+    status [--analysis] <id>    Show the archive state of a report/analysis
+    list-archived               List all archived reports and analyses
+    versions [--analysis] <id>  List the archived versions of a report/analysis
+    prune                       Delete the versions the retention policy does not keep
+    reconcile [--repair]        Compare the DB with archive storage, repairing what is safe to
+    migrate                     Create or upgrade the bookkeeping columns and tables
+    history [--analysis] <id>   List the archives/restores of a report/analysis, newest first
+
+restore-report and restore-analysis accept --version <version> with a single id.
+archive-* and restore-* accept --initiator <name>, recorded in the history.
+list-archived and history accept --limit <n> and --offset <n>.
+`;
+
+export class UsageError extends Error { }
+
+export interface CliOptions {
+    config: string,
+    json: boolean,
+    analysis: boolean,
+    version: string | null,
+    limit: number | null,
+    offset: number | null,
+    repair: boolean,
+    initiator: string | null,
+    command: string,
+    ids: number[]
+}
+
+/**
+ * Outcome of the operation on a single report/analysis id
+ */
+interface CliResult {
+    id: number,
+    ok: boolean,
+    result?: any,
+    error?: string
+}
+
+/**
+ * Parse the command line arguments (without the node executable and script)
+ *
+ * @param{string[]} argv - command line arguments
+ * @return{CliOptions} parsed options
+ */
+export function parseArgs(argv: string[]): CliOptions {
+    let opts: CliOptions = {
+        config: path.join(__dirname, "..", "conf", "config.js"),
+        json: false,
+        analysis: false,
+        version: null,
+        limit: null,
+        offset: null,
+        repair: false,
+        initiator: null,
+        command: null,
+        ids: []
+    };
+    let args: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case "--config":
+                if (i + 1 >= argv.length) {
+                    throw new UsageError("--config requires a file name");
+                }
+                opts.config = path.resolve(argv[++i]);
+                break;
+            case "--json":
+                opts.json = true;
+                break;
+            case "--analysis":
+                opts.analysis = true;
+                break;
+            case "--repair":
+                opts.repair = true;
+                break;
+            case "--version":
+                if (i + 1 >= argv.length) {
+                    throw new UsageError("--version requires a version");
+                }
+                opts.version = argv[++i];
+                break;
+            case "--initiator":
+                if (i + 1 >= argv.length) {
+                    throw new UsageError("--initiator requires a name");
+                }
+                opts.initiator = argv[++i];
+                break;
+            case "--limit":
+            case "--offset":
+                if (i + 1 >= argv.length || !/^[0-9]+$/.test(argv[i + 1])) {
+                    throw new UsageError(`${argv[i]} requires a number`);
+                }
+                opts[argv[i].slice(2)] = parseInt(argv[++i], 10);
+                break;
+            default:
+                if (/^--/.test(argv[i])) {
+                    throw new UsageError(`Unknown option ${argv[i]}`);
+                }
+                args.push(argv[i]);
+        }
+    }
+
+    if (args.length === 0) {
+        throw new UsageError("No command given");
+    }
+    opts.command = args[0];
+    opts.ids = args.slice(1).map(a => {
+        if (!/^[0-9]+$/.test(a)) {
+            throw new UsageError(`Invalid id: ${a}`);
+        }
+        return parseInt(a, 10);
+    });
+
+    switch (opts.command) {
+        case "archive-report":
+        case "archive-analysis":
+        case "restore-report":
+        case "restore-analysis":
+            if (opts.ids.length === 0) {
+                throw new UsageError(`${opts.command} requires at least one id`);
+            }
+            break;
+        case "status":
+        case "versions":
+        case "history":
+            if (opts.ids.length !== 1) {
+                throw new UsageError(`${opts.command} requires exactly one id`);
+            }
+            break;
+        case "list-archived":
+        case "prune":
+        case "reconcile":
+        case "migrate":
+            if (opts.ids.length !== 0) {
+                throw new UsageError(`${opts.command} takes no arguments`);
+            }
+            break;
+        default:
+            throw new UsageError(`Unknown command ${opts.command}`);
+    }
+    if (opts.analysis && !_.includes(["status", "versions", "history"], opts.command)) {
+        throw new UsageError("--analysis only applies to the status, versions and history commands");
+    }
+    if ((opts.limit !== null || opts.offset !== null) && opts.command !== "list-archived" && opts.command !== "history") {
+        throw new UsageError("--limit and --offset only apply to the list-archived and history commands");
+    }
+    if (opts.initiator !== null && !/^(archive|restore)-/.test(opts.command)) {
+        throw new UsageError("--initiator only applies to the archive and restore commands");
+    }
+    if (opts.repair && opts.command !== "reconcile") {
+        throw new UsageError("--repair only applies to the reconcile command");
+    }
+    if (opts.limit === 0) {
+        throw new UsageError("--limit must be at least 1");
+    }
+    if (opts.version !== null) {
+        if (opts.command !== "restore-report" && opts.command !== "restore-analysis") {
+            throw new UsageError("--version only applies to the restore-report and restore-analysis commands");
+        }
+        if (opts.ids.length !== 1) {
+            throw new UsageError("--version requires exactly one id");
+        }
+    }
+    return opts;
+}
+
+/**
+ * Return the exit code corresponding to the outcomes of the operations
+ */
+export function exitCode(results: CliResult[]): number {
+    let failed = results.filter(r => !r.ok).length;
+    if (failed === 0) {
+        return EXIT_OK;
+    }
+    return failed === results.length ? EXIT_FAILED : EXIT_PARTIAL;
+}
+
+/**
+ * Create the archiver configured by the specified configuration file
+ */
+function loadArchiver(opts: CliOptions): Archiver {
+    let config: Config = require(opts.config);
+    if (opts.json) {
+        config.logger.console = false;
+    }
+    return createArchiver(config);
+}
+
+/**
+ * Return a Promise resolved with the outcome of applying the operation to
+ * each id in turn, reporting progress as each one starts, moves through its
+ * stages and finishes
+ */
+function runEach(opts: CliOptions, verb: string, op: (id: number) => Operation<any>): Promise<CliResult[]> {
+    let results: CliResult[] = [];
+    let progress = (msg: string) => {
+        if (!opts.json) {
+            process.stderr.write(msg + "\n");
+        }
+    };
+    return opts.ids.reduce((p, id) => p.then(() => {
+        progress(`${verb} ${id}...`);
+        return op(id)
+            .on("stage", e => progress(`${verb} ${id}: ${e.stage}`))
+            .on("child", child => child.on("stage", e => progress(`${verb} ${id}: ${e.object_type} ${e.object_id} ${e.stage}`)))
+            .then(r => {
+                progress(`${verb} ${id}: done`);
+                results.push({ id: id, ok: true, result: r });
+            })
+            .catch(err => {
+                progress(`${verb} ${id}: failed: ${err}`);
+                results.push({ id: id, ok: false, error: `${err}` });
+            });
+    }), Promise.resolve()).then(() => results);
+}
+
+/**
+ * Format the archive state of a report/analysis for humans
+ */
+function formatStatus(s: ObjectStatus): string {
+    let lines = [`${s.object_type} ${s.id}: ${s.state}`];
+    if (!_.isNil(s.archive_location)) {
+        lines.push(`    archive_location:  ${s.archive_location}`);
+    }
+    if (!_.isNil(s.archive_checksum)) {
+        lines.push(`    archive_checksum:  ${s.archive_checksum}`);
+    }
+    if (!_.isNil(s.archive_timestamp)) {
+        lines.push(`    archive_timestamp: ${s.archive_timestamp}`);
+    }
+    if (!_.isNil(s.restore_timestamp)) {
+        lines.push(`    restore_timestamp: ${s.restore_timestamp}`);
+    }
+    if (!_.isNil(s.dump_size)) {
+        lines.push(`    dump_size:         ${s.dump_size}`);
+    }
+    (s.dependencies || []).forEach(d => {
+        lines.push(`    ${s.object_type === "report" ? "needed by" : "needs"} ${d.object_type} ${d.id}: ${d.state}`);
+    });
+    return lines.join("\n");
+}
+
+/**
+ * Format the position of a page of archived reports/analyses for humans
+ */
+function formatPage(page: ObjectStatusPage): string {
+    let what = page.items.length > 0 ? page.items[0].object_type : "objects";
+    return page.items.length === 0 ?
+        `(no ${what} listed, ${page.total} archived)` :
+        `(${what} ${page.offset + 1}-${page.offset + page.items.length} of ${page.total} archived)`;
+}
+
+/**
+ * Format an archived version for humans
+ */
+function formatVersion(v: ArchiveVersion): string {
+    return `${v.version}${v.current ? " (current)" : ""}  ${v.archive_location}  ${v.archive_checksum || ""}`;
+}
+
+/**
+ * Format an entry of the history for humans
+ */
+function formatHistoryEntry(e: HistoryEntry): string {
+    let outcome = e.ok ? "succeeded" : `failed: ${e.error}`;
+    let lines = [`${e.started.toISOString()}  ${e.operation} ${e.object_type} ${e.object_id} by ${e.initiator || "(unknown)"}: ${outcome}`];
+    if (!_.isNil(e.parent_operation_id)) {
+        lines.push(`    cascaded from:    ${e.parent_operation_id}`);
+    }
+    if (!_.isNil(e.archive_location)) {
+        lines.push(`    archive_location: ${e.archive_location}${_.isNil(e.version) ? "" : ` (version ${e.version})`}`);
+    }
+    lines.push(`    duration:         ${e.finished.getTime() - e.started.getTime()} ms, ${e.bytes} bytes`);
+    return lines.join("\n");
+}
+
+/**
+ * Return the initiator recorded for the archives/restores of the command:
+ * that given with --initiator, the user running it otherwise
+ */
+function initiator(opts: CliOptions): string | null {
+    if (opts.initiator !== null) {
+        return opts.initiator;
+    }
+    try {
+        return os.userInfo().username;
+    } catch (err) {
+        return process.env.USER || null;
+    }
+}
+
+/**
+ * Format a discrepancy found by reconcile for humans
+ */
+function formatDiscrepancy(d: Discrepancy): string {
+    let outcome = d.repaired ? " (repaired)" : !_.isNil(d.error) ? ` (not repaired: ${d.error})` : "";
+    let lines = [`${d.kind}: ${d.detail}${outcome}`];
+    if (!_.isNil(d.location)) {
+        lines.push(`    location: ${d.location}`);
+    }
+    if (d.tables.length > 0) {
+        lines.push(`    tables:   ${d.tables.join(", ")}`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Return a Promise resolved with the exit code after running the command
+ * and writing its output to stdout
+ */
+function run(opts: CliOptions, archiver: Archiver): Promise<number> {
+    let out = (human: () => string, json: () => any) => {
+        process.stdout.write(opts.json ? JSON.stringify(json(), null, 2) + "\n" : human() + "\n");
+    };
+    let batch = (verb: string, op: (id: number) => Operation<any>, describe: (r: CliResult) => string) =>
+        runEach(opts, verb, op).then(results => {
+            out(() => results.map(describe).join("\n"), () => ({ command: opts.command, results: results }));
+            return exitCode(results);
+        });
+
+    switch (opts.command) {
+        case "archive-report":
+            return batch("Archiving report", id => archiver.archiveReport(id, initiator(opts)),
+                r => r.ok ? `report ${r.id} archived to ${r.result}` : `report ${r.id} not archived: ${r.error}`);
+        case "archive-analysis":
+            return batch("Archiving analysis", id => archiver.archiveAnalysis(id, initiator(opts)),
+                r => r.ok ? `analysis ${r.id} archived to ${r.result}` : `analysis ${r.id} not archived: ${r.error}`);
+        case "restore-report":
+            return batch("Restoring report", id => archiver.restoreReport(id, opts.version, initiator(opts)),
+                r => r.ok ? `report ${r.id} restored` : `report ${r.id} not restored: ${r.error}`);
+        case "restore-analysis":
+            return batch("Restoring analysis", id => archiver.restoreAnalysis(id, opts.version, initiator(opts)),
+                r => r.ok ? `analysis ${r.id} restored` : `analysis ${r.id} not restored: ${r.error}`);
+        case "status":
+            return (opts.analysis ? archiver.getAnalysisStatus(opts.ids[0]) : archiver.getReportStatus(opts.ids[0]))
+                .then((s: ObjectStatus) => {
+                    out(() => formatStatus(s), () => s);
+                    return EXIT_OK;
+                });
+        case "list-archived":
+            let query = _.omitBy({ limit: opts.limit, offset: opts.offset }, _.isNil);
+            return Promise.all([archiver.listArchivedReports(query), archiver.listArchivedAnalyses(query)])
+                .then((pages: ObjectStatusPage[]) => {
+                    out(() => _.flatMap(pages, page => page.items.map(formatStatus).concat([formatPage(page)])).join("\n"),
+                        () => ({ reports: pages[0], analyses: pages[1] }));
+                    return EXIT_OK;
+                });
+        case "versions":
+            return (opts.analysis ? archiver.listAnalysisVersions(opts.ids[0]) : archiver.listReportVersions(opts.ids[0]))
+                .then((versions: ArchiveVersion[]) => {
+                    out(() => versions.map(formatVersion).join("\n"), () => versions);
+                    return EXIT_OK;
+                });
+        case "prune":
+            return archiver.pruneVersions()
+                .then((r: PruneResult) => {
+                    out(() => r.pruned.map(v => `pruned ${v.object_type} ${v.object_id} version ${v.version}`)
+                        .concat([`${r.pruned.length} versions pruned, ${r.kept} kept`]).join("\n"), () => r);
+                    return EXIT_OK;
+                });
+        case "reconcile":
+            return archiver.reconcile(opts.repair)
+                .then((r: ReconcileReport) => {
+                    out(() => r.discrepancies.map(formatDiscrepancy)
+                        .concat([`${r.reports} reports, ${r.analyses} analyses, ${r.tables} tables and ${r.stored_objects} ` +
+                            `stored objects checked: ${r.discrepancies.length} discrepancies, ${r.repaired} repaired`]).join("\n"),
+                        () => r);
+                    return r.repaired === r.discrepancies.length ? EXIT_OK : EXIT_DISCREPANCIES;
+                });
+        case "history":
+            let historyQuery = _.omitBy({
+                object_type: opts.analysis ? "analysis" : "report", object_id: opts.ids[0], limit: opts.limit, offset: opts.offset
+            }, _.isNil);
+            return archiver.listHistory(historyQuery)
+                .then((page: HistoryPage) => {
+                    out(() => page.items.map(formatHistoryEntry)
+                        .concat([`(${page.items.length} of ${page.total} operations listed)`]).join("\n"), () => page);
+                    return EXIT_OK;
+                });
+        case "migrate":
+            return archiver.ensureSchema()
+                .then((r: SchemaMigrationResult) => {
+                    out(() => r.applied.map(m => `applied migration ${m.version}: ${m.description}`)
+                        .concat([`schema at version ${r.to_version} (was ${r.from_version})`]).join("\n"), () => r);
+                    return EXIT_OK;
+                });
+    }
+}
+
+/**
+ * Entry point. Parses the command line, runs the command and exits with the
+ * corresponding exit code once the output has been flushed.
+ */
+export function main(argv: string[]) {
+    let opts: CliOptions;
+    let exit = (code: number) => process.stdout.write("", () => process.exit(code));
+
+    try {
+        opts = parseArgs(argv);
+    } catch (err) {
+        process.stderr.write(`${err.message}\n\n${usage}`);
+        return exit(EXIT_USAGE);
+    }
+
+    let archiver: Archiver;
+    try {
+        archiver = loadArchiver(opts);
+    } catch (err) {
+        process.stderr.write(`Unable to load configuration ${opts.config}: ${err}\n`);
+        return exit(EXIT_CONFIG);
+    }
+
+    run(opts, archiver)
+        .then(exit)
+        .catch(err => {
+            if (opts.json) {
+                process.stdout.write(JSON.stringify({ command: opts.command, error: `${err}` }, null, 2) + "\n");
+            } else {
+                process.stderr.write(`${err}\n`);
+            }
+            exit(EXIT_FAILED);
+        });
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,376 @@
+/**
+ * Client-side envelope encryption of archived objects. Every object is
+ * encrypted with AES-256-GCM under a data key of its own, generated when the
+ * object is stored. The data key is wrapped (itself encrypted) by a master key
+ * obtained from a KeyProvider, and the wrapped key, the id of the master key
+ * and the IV are stored in the object's metadata (see ENCRYPTION_METADATA_KEYS).
+ * The stored object is the ciphertext followed by the 16 byte GCM
+ * authentication tag, so it can be produced and consumed as a stream.
+ *
+ * EncryptedStorage wraps any storage backend, encrypting what is stored and
+ * decrypting what is retrieved, so the rest of the archiver only ever sees
+ * plain dumps. Objects stored without encryption metadata (archived before
+ * encryption was configured) are retrieved as they are.
+ *
+ * Master keys are rotated by adding a new key to the provider and making it
+ * current: new objects are wrapped with the new key, while objects archived
+ * earlier are unwrapped with the key recorded in their metadata, so old keys
+ * must be kept for as long as objects wrapped with them exist.
+ *
+ * The only provider for now is LocalKeyProvider, reading master keys from a
+ * JSON keyfile:
+ *
+ * {
+ *     "current": "2026-10",
+ *     "keys": {
+ *         "2026-01": "<base64 of 32 random bytes>",
+ *         "2026-10": "<base64 of 32 random bytes>"
+ *     }
+ * }
+ *
+ * Other providers (e.g. a KMS) implement KeyProvider and are passed to
+ * createArchiver() in deps.keyProvider.
+ */
+
+import _ = require('lodash');
+import crypto = require('crypto');
+import fs = require('fs');
+import stream = require('stream');
+import { Config, ObjectMetadata, StorageType, TransferListener } from "./types";
+import { StorageBackend, StreamUpload, StreamDownload, countTransfer } from "./storage";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Keys of the object metadata describing the encryption of an object
+ */
+export const ENCRYPTION_METADATA_KEYS = {
+    algorithm: "encryption",
+    keyId: "key-id",
+    wrappedKey: "wrapped-key",
+    iv: "iv"
+};
+
+/**
+ * A data key wrapped by a master key
+ */
+export interface WrappedKey {
+    /**
+     * Id of the master key that wrapped the data key
+     */
+    keyId: string,
+
+    /**
+     * The wrapped data key, base64 encoded
+     */
+    wrapped: string
+}
+
+/**
+ * Source of the master keys wrapping the data keys of archived objects
+ */
+export interface KeyProvider {
+    /**
+     * Return a Promise resolved with the data key wrapped by the current master key
+     *
+     * @param{Buffer} dataKey - the data key
+     * @return{Promise<WrappedKey>} Promise resolved with the wrapped key
+     */
+    wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+
+    /**
+     * Return a Promise resolved with the data key unwrapped by the master key
+     * with the given id
+     *
+     * @param{WrappedKey} key - the wrapped key
+     * @return{Promise<Buffer>} Promise resolved with the data key
+     */
+    unwrapKey(key: WrappedKey): Promise<Buffer>;
+}
+
+/**
+ * Provider of master keys read from a local JSON keyfile (see above). Data
+ * keys are wrapped with AES-256-GCM.
+ */
+export class LocalKeyProvider implements KeyProvider {
+
+    private current: string;
+    private keys: { [id: string]: Buffer };
+
+    /**
+     * @param{string} keyfile - path to the keyfile, which is read immediately
+     */
+    constructor(keyfile: string) {
+        let contents = JSON.parse(fs.readFileSync(keyfile, "utf8"));
+        this.current = contents.current;
+        this.keys = _.mapValues(contents.keys || {}, (key: string, id: string) => {
+            let buf = Buffer.from(key, "base64");
+            if (buf.length !== KEY_BYTES) {
+                throw new Error(`Key ${id} of ${keyfile} is not ${KEY_BYTES} bytes long`);
+            }
+            return buf;
+        });
+        if (!_.has(this.keys, this.current)) {
+            throw new Error(`The current key ${this.current} is not in ${keyfile}`);
+        }
+    }
+
+    public wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+        let iv = crypto.randomBytes(IV_BYTES);
+        let cipher = crypto.createCipheriv(ALGORITHM, this.keys[this.current], iv);
+        let ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+        return Promise.resolve({
+            keyId: this.current,
+            wrapped: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")
+        });
+    }
+
+    public unwrapKey(key: WrappedKey): Promise<Buffer> {
+        return new Promise<Buffer>(resolve => {
+            if (!_.has(this.keys, key.keyId)) {
+                throw new Error(`Unknown master key ${key.keyId}`);
+            }
+            let data = Buffer.from(key.wrapped, "base64");
+            let decipher = crypto.createDecipheriv(ALGORITHM, this.keys[key.keyId], data.slice(0, IV_BYTES));
+            decipher.setAuthTag(data.slice(IV_BYTES, IV_BYTES + TAG_BYTES));
+            resolve(Buffer.concat([decipher.update(data.slice(IV_BYTES + TAG_BYTES)), decipher.final()]));
+        });
+    }
+}
+
+/**
+ * Return the key provider selected by the "encryption" section of the
+ * configuration, or null if objects are not to be encrypted
+ *
+ * @param{Config} config - library configuration
+ * @return{KeyProvider} the key provider or null
+ */
+export function createKeyProvider(config: Config): KeyProvider | null {
+    let encryption = config.encryption;
+    if (_.isNil(encryption)) {
+        return null;
+    }
+    switch (encryption.provider) {
+        case "keyfile":
+            if (!encryption.keyfile) {
+                throw new Error("The keyfile key provider requires encryption.keyfile to be configured");
+            }
+            return new LocalKeyProvider(encryption.keyfile);
+        default:
+            throw new Error(`Unknown key provider ${encryption.provider}`);
+    }
+}
+
+/**
+ * Stream encrypting the data flowing through it with AES-256-GCM, followed by
+ * the authentication tag
+ */
+export class EncryptStream extends stream.Transform {
+
+    private cipher: crypto.Cipher;
+
+    /**
+     * @param{Buffer} key - 32 byte data key
+     * @param{Buffer} iv - 12 byte IV, never to be used again with the same key
+     */
+    constructor(key: Buffer, iv: Buffer) {
+        super();
+        this.cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    }
+
+    public _transform(chunk: Buffer, encoding: string, callback: (err?: Error, data?: Buffer) => void) {
+        callback(null, this.cipher.update(chunk));
+    }
+
+    public _flush(callback: (err?: Error) => void) {
+        this.push(this.cipher.final());
+        this.push(this.cipher.getAuthTag());
+        callback();
+    }
+}
+
+/**
+ * Stream decrypting the output of an EncryptStream. The stream fails at its
+ * end if the data or the tag has been tampered with.
+ */
+export class DecryptStream extends stream.Transform {
+
+    private decipher: crypto.Decipher;
+    private tail: Buffer = Buffer.alloc(0);
+
+    /**
+     * @param{Buffer} key - 32 byte data key
+     * @param{Buffer} iv - IV the data was encrypted with
+     */
+    constructor(key: Buffer, iv: Buffer) {
+        super();
+        this.decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    }
+
+    public _transform(chunk: Buffer, encoding: string, callback: (err?: Error, data?: Buffer) => void) {
+        // The last TAG_BYTES bytes seen so far may be the tag, so they are held back
+        let data = Buffer.concat([this.tail, chunk]);
+        let split = Math.max(0, data.length - TAG_BYTES);
+        this.tail = data.slice(split);
+        callback(null, this.decipher.update(data.slice(0, split)));
+    }
+
+    public _flush(callback: (err?: Error) => void) {
+        try {
+            if (this.tail.length !== TAG_BYTES) {
+                throw new Error("Encrypted object is truncated");
+            }
+            this.decipher.setAuthTag(this.tail);
+            this.push(this.decipher.final());
+            callback();
+        } catch (err) {
+            callback(new Error(`Unable to decrypt object: ${err.message}`));
+        }
+    }
+}
+
+/**
+ * Storage backend encrypting the objects stored in another backend
+ */
+export class EncryptedStorage implements StorageBackend {
+
+    public readonly scheme: StorageType;
+
+    /**
+     * @param{StorageBackend} backend - backend holding the encrypted objects
+     * @param{KeyProvider} keys - provider of the master keys
+     * @param{Logger} logger - logger
+     */
+    constructor(private backend: StorageBackend, private keys: KeyProvider, private logger) {
+        this.scheme = backend.scheme;
+    }
+
+    public location(key: string): string {
+        return this.backend.location(key);
+    }
+
+    public upload(fn: string, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            let rd = fs.createReadStream(fn);
+            // The plain dump is reported, as its size is known
+            countTransfer(rd, _.isNil(listener) ? null : fs.statSync(fn).size, listener);
+            let upload = this.uploadStream(rd, key, metadata);
+            rd.on("error", err => {
+                upload.abort();
+                reject(err);
+            });
+            upload.promise.then(resolve, reject);
+        });
+    }
+
+    public download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return Promise.all([this.downloadStream(location), _.isNil(listener) ? null : this.plainSize(location)])
+            .then(([download, total]) => new Promise((resolve, reject) => {
+                let wr = fs.createWriteStream(fn);
+                download.stream.on("error", err => {
+                    download.abort();
+                    wr.end();
+                    reject(err);
+                });
+                wr.on("error", reject);
+                wr.on("finish", () => resolve({}));
+                countTransfer(download.stream, total, listener);
+                download.stream.pipe(wr);
+            }));
+    }
+
+    /**
+     * Return a Promise resolved with the size of the object at the given
+     * location once decrypted
+     */
+    private plainSize(location: string): Promise<number> {
+        return Promise.all([this.backend.metadata(location), this.backend.size(location)])
+            .then(([metadata, size]) => _.isNil(metadata[ENCRYPTION_METADATA_KEYS.algorithm]) ? size : size - TAG_BYTES);
+    }
+
+    public metadata(location: string): Promise<ObjectMetadata> {
+        return this.backend.metadata(location);
+    }
+
+    public remove(location: string): Promise<{}> {
+        return this.backend.remove(location);
+    }
+
+    public list(prefix: string): Promise<string[]> {
+        return this.backend.list(prefix);
+    }
+
+    public size(location: string): Promise<number> {
+        // The size of the stored ciphertext, i.e. of the dump plus the tag
+        return this.backend.size(location);
+    }
+
+    public uploadStream(source: NodeJS.ReadableStream, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): StreamUpload {
+        let dataKey = crypto.randomBytes(KEY_BYTES);
+        let iv = crypto.randomBytes(IV_BYTES);
+        let encrypted = new EncryptStream(dataKey, iv);
+        let upload: StreamUpload | null = null;
+        let aborted = false;
+        source.on("error", err => encrypted.emit("error", err));
+        source.pipe(encrypted);
+        let promise = this.keys.wrapKey(dataKey)
+            .then(wrapped => {
+                if (aborted) {
+                    throw new Error(`Encrypted upload of ${key} aborted`);
+                }
+                this.logger.debug(() => ["Encrypting %s with a data key wrapped by master key %s", key, wrapped.keyId]);
+                upload = this.backend.uploadStream(encrypted, key, _.assign({}, metadata, {
+                    [ENCRYPTION_METADATA_KEYS.algorithm]: ALGORITHM,
+                    [ENCRYPTION_METADATA_KEYS.keyId]: wrapped.keyId,
+                    [ENCRYPTION_METADATA_KEYS.wrappedKey]: wrapped.wrapped,
+                    [ENCRYPTION_METADATA_KEYS.iv]: iv.toString("base64")
+                }), listener);
+                return upload.promise;
+            });
+        return {
+            promise: promise,
+            abort: () => {
+                aborted = true;
+                if (upload !== null) {
+                    upload.abort();
+                }
+            }
+        };
+    }
+
+    public downloadStream(location: string): Promise<StreamDownload> {
+        let metadata: ObjectMetadata;
+        let dataKey: Buffer | null = null;
+        return this.backend.metadata(location)
+            .then(m => {
+                metadata = m;
+                if (_.isNil(metadata[ENCRYPTION_METADATA_KEYS.algorithm])) {
+                    this.logger.debug(() => ["%s is not encrypted", location]);
+                    return null;
+                }
+                if (metadata[ENCRYPTION_METADATA_KEYS.algorithm] !== ALGORITHM) {
+                    throw new Error(`${location} is encrypted with unsupported ${metadata[ENCRYPTION_METADATA_KEYS.algorithm]}`);
+                }
+                return this.keys.unwrapKey({
+                    keyId: metadata[ENCRYPTION_METADATA_KEYS.keyId],
+                    wrapped: metadata[ENCRYPTION_METADATA_KEYS.wrappedKey]
+                });
+            })
+            .then(key => {
+                dataKey = key;
+                return this.backend.downloadStream(location);
+            })
+            .then(download => {
+                if (dataKey === null) {
+                    return download;
+                }
+                let decrypted = new DecryptStream(dataKey, Buffer.from(metadata[ENCRYPTION_METADATA_KEYS.iv], "base64"));
+                download.stream.on("error", err => decrypted.emit("error", err));
+                download.stream.pipe(decrypted);
+                return { stream: decrypted, abort: download.abort };
+            });
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * Errors raised by the library. Every archive/restore fails with an
+ * ArchiveRestoreError, carrying the type and id of the report/analysis whose
+ * operation failed, the stage it failed in, and the error it was caused by,
+ * if any:
+ *
+ * NotPresentError - the report/analysis to archive does not exist or is
+ *     already archived
+ * NotArchivedError - the report/analysis (or version) to restore does not
+ *     exist or is not archived
+ * NotFoundError - the report/analysis does not exist
+ * StorageError - a request to archive storage failed, e.g. the dump is missing
+ * DumpError - the dump could not be taken, e.g. pg_dump failed
+ * RestoreError - the dump could not be restored, e.g. pg_restore failed
+ * CleanupError - the archived objects could not be dropped, or marked archived
+ * IntegrityError - the checksum of a retrieved dump does not match
+ * ManifestMismatchError - the tables restored do not match the manifest
+ * LockLostError - the connection holding the lock of the report/analysis was
+ *     lost while the operation ran
+ * BatchError - the operation failed for some of the ids of a batch
+ * SchemaError - the schema of the database is not the one the library
+ *     expects, so nothing is run
+ *
+ * Failures that are not raised as one of the above are wrapped by the
+ * Operation (see progress.ts) in the error of the stage it was in, e.g. a
+ * ProcessError of pg_dump in a DumpError, whose "stderr" is that of pg_dump.
+ */
+
+import { BatchItemResult, ObjectType, OperationStage } from "./types";
+
+/**
+ * Raised when a child process (pg_dump, pg_restore, psql) exits with an error
+ * status or is killed. "stderr" holds the end of its standard error.
+ */
+export class ProcessError extends Error {
+    constructor(public readonly command: string, public readonly args: string[],
+        public readonly status: number | null, public readonly signal: string | null, public readonly stderr: string) {
+        super(`${command} ${signal ? `killed by ${signal}` : `exited with status ${status}`}: ${stderr}`);
+    }
+}
+
+/**
+ * Base of the errors archives/restores fail with
+ */
+export class ArchiveRestoreError extends Error {
+
+    /**
+     * Stage of the operation that failed, null if it failed before starting
+     */
+    public stage: OperationStage | null = null;
+
+    /**
+     * End of the standard error of the child process that failed, if any
+     */
+    public readonly stderr: string | null;
+
+    /**
+     * @param{string} message - description of the failure
+     * @param{ObjectType} object_type - type of the report/analysis, null if not known yet
+     * @param{number} id - id of the report/analysis, null if not known yet
+     * @param{any} cause - error the failure was caused by, if any
+     */
+    constructor(message: string, public object_type: ObjectType | null = null, public id: number | null = null,
+        public readonly cause: any = null) {
+        super(message);
+        this.name = this.constructor.name;
+        this.stderr = cause instanceof ProcessError ? cause.stderr : null;
+    }
+}
+
+export class NotPresentError extends ArchiveRestoreError { }
+
+/**
+ * Former name of NotPresentError, kept for the callers that catch it
+ */
+export { NotPresentError as AlreadyArchivedOrDoesNotExistError };
+
+export class NotArchivedError extends ArchiveRestoreError { }
+
+export class NotFoundError extends ArchiveRestoreError { }
+
+/**
+ * Raised when a request to archive storage failed. "location" is that of the
+ * object, or the key of an object being stored, null if not known.
+ */
+export class StorageError extends ArchiveRestoreError {
+    constructor(message: string, public readonly location: string | null, cause: any = null) {
+        super(message, null, null, cause);
+    }
+}
+
+export class DumpError extends ArchiveRestoreError { }
+
+export class RestoreError extends ArchiveRestoreError { }
+
+export class CleanupError extends ArchiveRestoreError { }
+
+/**
+ * Raised when the checksum of a retrieved dump does not match the one
+ * recorded when it was archived
+ */
+export class IntegrityError extends ArchiveRestoreError {
+    constructor(object_type: ObjectType, id: number,
+        public readonly location: string, public readonly expected: string, public readonly actual: string) {
+        super(`Dump of ${object_type} ${id} at ${location} is corrupt: SHA-256 is ${actual}, expected ${expected}`, object_type, id);
+    }
+}
+
+/**
+ * Raised when the tables restored from a dump do not match its manifest
+ */
+export class ManifestMismatchError extends ArchiveRestoreError {
+    constructor(object_type: ObjectType, id: number, public readonly mismatches: string[]) {
+        super(`Restore of ${object_type} ${id} does not match its manifest: ${mismatches.join("; ")}`, object_type, id);
+    }
+}
+
+/**
+ * Raised when the connection holding the advisory lock of the report/analysis
+ * was lost while the operation ran. The server released the lock with the
+ * connection, so another process may have worked on the object meanwhile.
+ */
+export class LockLostError extends ArchiveRestoreError {
+    constructor(object_type: ObjectType, id: number, cause: any) {
+        super(`Lock of ${object_type} ${id} was lost while it was held: ${cause}`, object_type, id, cause);
+    }
+}
+
+/**
+ * Raised when an operation failed for some of the reports/analyses of a
+ * batch. Every operation of the batch has settled, and the outcome for each
+ * id is in "results".
+ */
+export class BatchError extends ArchiveRestoreError {
+    constructor(public readonly operation: string, object_type: ObjectType,
+        public readonly results: BatchItemResult<any>[]) {
+        super(`${operation} failed for ${results.filter(r => !r.ok).length} of ${results.length} ${object_type} ids: ` +
+            results.filter(r => !r.ok).map(r => `${object_type} ${r.id}: ${r.error}`).join("; "), object_type);
+    }
+
+    /**
+     * The results of the operations that failed
+     */
+    public get failures(): BatchItemResult<any>[] {
+        return this.results.filter(r => !r.ok);
+    }
+}
+
+/**
+ * Raised when the schema of the database does not match the migrations of
+ * schema.ts. "version" is the version of the schema.
+ */
+export class SchemaError extends ArchiveRestoreError {
+    constructor(message: string, public readonly version: number) {
+        super(message);
+    }
+}
+
+/**
+ * Return the error an operation failed with in the given stage, wrapping
+ * the error it failed with unless it is an ArchiveRestoreError
+ *
+ * @param{any} err - the error the operation failed with
+ * @param{OperationStage} stage - stage the operation was in, null if none
+ * @return{ArchiveRestoreError} the error
+ */
+export function stageError(err, stage: OperationStage | null): ArchiveRestoreError {
+    if (err instanceof ArchiveRestoreError) {
+        return err;
+    }
+    let message = err instanceof Error ? err.message : `${err}`;
+    switch (stage) {
+        case "dumping":
+            return new DumpError(message, null, null, err);
+        case "uploading":
+        case "downloading":
+            return new StorageError(message, null, err);
+        case "restoring":
+        case "marking":
+            return new RestoreError(message, null, null, err);
+        case "cleaning":
+            return new CleanupError(message, null, null, err);
+        default:
+            return new ArchiveRestoreError(message, null, null, err);
+    }
+}
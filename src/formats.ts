@@ -0,0 +1,154 @@
+/**
+ * pg_dump formats. Dumps are taken in the format selected by the "dump"
+ * section of the configuration:
+ *
+ * custom - a single pg_dump -Fc file, restored by piping pg_restore into psql
+ * directory - a pg_dump -Fd directory written by "jobs" parallel pg_dump
+ *     workers, packaged as a tar file for archive storage, and restored with
+ *     pg_restore -j "jobs" directly against the database
+ *
+ * Both honour the configured compression level (pg_dump -Z). The format of
+ * every dump is stored in its metadata (under FORMAT_METADATA_KEY) and in its
+ * manifest, so a dump is always restored with the strategy matching the way
+ * it was taken, whatever the configuration says now. Dumps archived before
+ * formats were recorded are custom format dumps.
+ *
+ * Directory format dumps cannot be written to or read from a pipe, so they
+ * always go through temporary files, even in streaming mode.
+ */
+
+import _ = require('lodash');
+import fs = require('fs');
+import path = require('path');
+import { startProcess, processOutput } from "./process";
+import { Config, DumpFormat, DumpOptions } from "./types";
+
+/**
+ * Key of the dump metadata holding the format of the dump
+ */
+export const FORMAT_METADATA_KEY = "dump-format";
+
+/**
+ * Options used for the settings not configured in the "dump" section of the
+ * configuration
+ */
+export const DEFAULT_DUMP_OPTIONS: DumpOptions = {
+    format: "custom",
+    jobs: 1,
+    compression: null
+};
+
+/**
+ * Return the dump options of the configuration, completed with the defaults
+ *
+ * @param{Config} config - library configuration
+ * @return{DumpOptions} the validated dump options
+ */
+export function dumpOptions(config: Config): DumpOptions {
+    let options = _.defaults({}, config.dump, DEFAULT_DUMP_OPTIONS) as DumpOptions;
+    if (options.format !== "custom" && options.format !== "directory") {
+        throw new Error(`Unknown dump format ${options.format}`);
+    }
+    if (!(_.isInteger(options.jobs) && options.jobs >= 1)) {
+        throw new Error(`The number of dump jobs must be an integer of at least 1, not ${options.jobs}`);
+    }
+    if (!_.isNil(options.compression) && !(_.isInteger(options.compression) && options.compression >= 0 && options.compression <= 9)) {
+        throw new Error(`The dump compression level must be an integer from 0 to 9, not ${options.compression}`);
+    }
+    return options;
+}
+
+/**
+ * Return the format recorded in the metadata of a dump
+ *
+ * @param{object} metadata - metadata of the dump
+ * @return{DumpFormat} the format of the dump
+ */
+export function metadataFormat(metadata: { [key: string]: string }): DumpFormat {
+    let format = metadata[FORMAT_METADATA_KEY];
+    return _.isNil(format) ? "custom" : format as DumpFormat;
+}
+
+/**
+ * Return the pg_dump arguments writing a dump with the given options, to the
+ * given file or directory, or to the standard output if none is given
+ *
+ * @param{DumpOptions} options - dump options
+ * @param{string} fn - path to the dump file or directory
+ * @return{string[]} pg_dump arguments, to be followed by the table selection
+ */
+export function pgDumpArgs(options: DumpOptions, fn: string | null = null): string[] {
+    let args = options.format === "directory" ? ["-Fd", "-j", String(options.jobs)] : ["-Fc"];
+    if (!_.isNil(options.compression)) {
+        args.push("-Z", String(options.compression));
+    }
+    if (!_.isNil(fn)) {
+        args.push("-f", fn);
+    }
+    return ["-c"].concat(args);
+}
+
+/**
+ * Return the pg_restore arguments restoring the dump at the given path. A
+ * custom format dump is turned into a script for psql, a directory format
+ * dump is restored by "jobs" workers connected to the database.
+ *
+ * @param{DumpFormat} format - format of the dump
+ * @param{DumpOptions} options - dump options
+ * @param{string} database - name of the database restored into
+ * @param{string} fn - path to the dump file or directory
+ * @return{string[]} pg_restore arguments
+ */
+export function pgRestoreArgs(format: DumpFormat, options: DumpOptions, database: string, fn: string): string[] {
+    if (format === "directory") {
+        return ["-c", "--if-exists", "-Fd", "-j", String(options.jobs), "-d", database, fn];
+    }
+    return ["-c", "-Fc", fn];
+}
+
+/**
+ * Return a Promise resolved when the contents of the directory have been
+ * written to the given tar file
+ *
+ * @param{string} dir - directory to package
+ * @param{string} fn - path to the tar file
+ * @return{Promise} Promise resolved when the tar file is written
+ */
+export function packDirectory(dir: string, fn: string): Promise<{}> {
+    return processOutput(startProcess("tar", ["-cf", fn, "-C", dir, "."])).then(() => ({}));
+}
+
+/**
+ * Return a Promise resolved when the tar file has been extracted to the
+ * given directory, which is created
+ *
+ * @param{string} fn - path to the tar file
+ * @param{string} dir - directory to extract to
+ * @return{Promise} Promise resolved when the tar file is extracted
+ */
+export function unpackDirectory(fn: string, dir: string): Promise<{}> {
+    return new Promise((resolve, reject) => {
+        fs.mkdir(dir, 0o700, err => err ? reject(err) : resolve());
+    })
+        .then(() => processOutput(startProcess("tar", ["-xf", fn, "-C", dir])))
+        .then(() => ({}));
+}
+
+/**
+ * Return a Promise resolved when the directory, which holds a directory
+ * format dump and therefore only files, has been removed
+ *
+ * @param{string} dir - directory to remove
+ * @return{Promise} Promise resolved when the directory is removed
+ */
+export function removeDirectory(dir: string): Promise<{}> {
+    return new Promise<string[]>((resolve, reject) => {
+        fs.readdir(dir, (err, files) => err ? reject(err) : resolve(files));
+    })
+        .then(files => Promise.all(files.map(f => new Promise((resolve, reject) => {
+            fs.unlink(path.join(dir, f), err => err ? reject(err) : resolve());
+        }))))
+        .then(() => new Promise<{}>((resolve, reject) => {
+            fs.rmdir(dir, err => err ? reject(err) : resolve({}));
+        }));
+}
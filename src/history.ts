@@ -0,0 +1,195 @@
+/**
+ * Append-only history of the archives and restores of reports/analyses,
+ * kept in the archive_history table of the schema of the "db_connection"
+ * configuration. The archive_timestamp and restore_timestamp of a
+ * report/analysis only tell when it was last archived and restored; the
+ * history records every operation, including those that failed and those
+ * cascaded from another one, along with who requested it.
+ *
+ * An entry is written once its Operation (see progress.ts) has succeeded or
+ * failed, and never updated. Failing to write it is logged, and does not fail
+ * the operation. A request joining an archive/restore already in flight shares
+ * its Operation, so it has no entry of its own: the entry names the initiator
+ * of the request that started the operation.
+ *
+ * The history table is created by Archiver.ensureSchema() (migration 4 of
+ * schema.ts) with:
+ *
+ * create table archive_history (
+ *     id serial primary key,
+ *     operation_id text not null,
+ *     correlation_id text not null,
+ *     parent_operation_id text default null,
+ *     operation text not null,
+ *     object_type text not null,
+ *     object_id integer not null,
+ *     initiator text default null,
+ *     started timestamp with time zone not null,
+ *     finished timestamp with time zone not null,
+ *     bytes bigint not null default 0,
+ *     archive_location text default null,
+ *     version text default null,
+ *     ok boolean not null,
+ *     error text default null,
+ *     reason text default null
+ * );
+ */
+
+import _ = require('lodash');
+import * as pgPromise from 'pg-promise';
+import { Logger } from "./logger";
+import { Operation, transferDelta } from "./progress";
+import { HistoryEntry, HistoryPage, HistoryQuery, PreparedStatement } from "./types";
+let squel = require("squel").useFlavour("postgres");
+
+/**
+ * Number of entries listed unless the query says otherwise
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+export class History {
+
+    /**
+      Insert an entry. The version, unless given, is that recorded for the
+      archive location in archive_version, if any.
+
+      @param{string} $1 - operation id
+      @param{string} $2 - correlation id
+      @param{string} $3 - id of the parent operation (or null)
+      @param{string} $4 - operation
+      @param{string} $5 - object type
+      @param{number} $6 - object id
+      @param{string} $7 - initiator (or null)
+      @param{Date} $8 - start time
+      @param{Date} $9 - end time
+      @param{number} $10 - bytes transferred
+      @param{string} $11 - archive location (or null)
+      @param{string} $12 - version (or null)
+      @param{boolean} $13 - whether the operation succeeded
+      @param{string} $14 - error text (or null)
+      @param{string} $15 - error class (or null)
+      */
+    private insert_entry_sql: PreparedStatement;
+
+    /**
+      Select a page of the entries matching the filters, newest first. A null
+      filter matches everything.
+
+      @param{string} $1 - object type
+      @param{number} $2 - object id
+      @param{string} $3 - operation
+      @param{string} $4 - initiator
+      @param{Date} $5 - only those started at or after this time
+      @param{Date} $6 - only those started before this time
+      @param{number} $7 - maximum number of rows
+      @param{number} $8 - number of rows skipped
+      */
+    private entries_sql: PreparedStatement;
+
+    /**
+      Count the entries matching the filters of entries_sql
+
+      @param{string} $1 - object type
+      @param{number} $2 - object id
+      @param{string} $3 - operation
+      @param{string} $4 - initiator
+      @param{Date} $5 - only those started at or after this time
+      @param{Date} $6 - only those started before this time
+      */
+    private entries_count_sql: PreparedStatement;
+
+    /**
+     * @param{IDatabase} db - the database
+     * @param{string} schema - schema holding the trafficstats tables
+     * @param{Logger} logger - logger
+     */
+    constructor(private db: pgPromise.IDatabase<any>, schema: string, private logger: Logger) {
+        this.insert_entry_sql = `insert into ${schema}.archive_history (operation_id, correlation_id, parent_operation_id, ` +
+            "operation, object_type, object_id, initiator, started, finished, bytes, archive_location, version, ok, error, reason) " +
+            "values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, " +
+            `coalesce($12::text, (select v.version from ${schema}.archive_version v where v.archive_location = $11::text ` +
+            "order by v.id desc limit 1)), $13, $14, $15)";
+
+        let entries = squel.select()
+            .from(`${schema}.archive_history`)
+            .where("($1::text is null or object_type = $1::text)")
+            .where("($2::integer is null or object_id = $2::integer)")
+            .where("($3::text is null or operation = $3::text)")
+            .where("($4::text is null or initiator = $4::text)")
+            .where("($5::timestamptz is null or started >= $5::timestamptz)")
+            .where("($6::timestamptz is null or started < $6::timestamptz)");
+
+        this.entries_sql = entries.clone()
+            .order("started", false)
+            .order("id", false)
+            .toString() + " limit $7 offset $8";
+
+        this.entries_count_sql = entries.clone()
+            .field("count(*)", "total")
+            .toString();
+    }
+
+    /**
+     * Record the operation in the history once it has succeeded or failed,
+     * and the operations it cascades to once they have
+     *
+     * @param{Operation} op - the operation, just started
+     * @param{string} initiator - who requested the operation, if known
+     * @param{string} parent - id of the operation it was cascaded from, if any
+     * @return{Operation} the operation
+     */
+    public observe<T>(op: Operation<T>, initiator: string | null = null, parent: string | null = null): Operation<T> {
+        let started = new Date();
+        let bytes = 0;
+        let delta = transferDelta();
+        let location: string | null = null;
+        let version: string | null = null;
+        op.on("transfer", e => {
+            bytes += delta(e);
+        });
+        op.on("location", e => {
+            location = e.archive_location;
+            version = e.version;
+        });
+        op.on("child", child => {
+            this.observe(child, initiator, op.operation_id);
+        });
+        op.on("outcome", e => {
+            let values = [
+                e.operation_id, e.correlation_id, parent, e.operation, e.object_type, e.object_id, initiator,
+                started, new Date(), bytes, location, version, e.ok, e.ok ? null : e.error, e.ok ? null : e.reason
+            ];
+            this.db.none(this.insert_entry_sql, values)
+                .catch(err => this.logger.warn(() => ["Could not record %s of %s %d in the history: %s",
+                    e.operation, e.object_type, e.object_id, err]));
+        });
+        return op;
+    }
+
+    /**
+     * Return a Promise resolved with a page of the entries matching the
+     * filters of the query, newest first
+     *
+     * @param{HistoryQuery} query - filters and page
+     * @return{Promise<HistoryPage>} Promise resolved with the page
+     */
+    public list(query: HistoryQuery = {}): Promise<HistoryPage> {
+        let limit = _.isNil(query.limit) ? DEFAULT_PAGE_SIZE : query.limit;
+        let offset = query.offset || 0;
+        if (!(_.isInteger(limit) && limit >= 1) || !(_.isInteger(offset) && offset >= 0)) {
+            return Promise.reject(new Error(`Invalid page: limit ${limit}, offset ${offset}`));
+        }
+        let filters: any[] = [query.object_type, query.object_id, query.operation, query.initiator,
+            query.started_after, query.started_before].map(f => _.isNil(f) ? null : f);
+        return Promise.all([
+            this.db.any(this.entries_sql, filters.concat([limit, offset])),
+            this.db.one(this.entries_count_sql, filters)
+        ])
+            .then(results => ({
+                items: results[0].map(row => _.assign({}, row, { bytes: parseInt(row.bytes, 10) }) as HistoryEntry),
+                total: parseInt(results[1].total, 10),
+                limit: limit,
+                offset: offset
+            }));
+    }
+}
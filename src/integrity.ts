@@ -0,0 +1,58 @@
+/**
+ * Integrity checksums of archived dumps. The SHA-256 of every dump is
+ * computed before it leaves the machine that took it, stored with the dump
+ * as object metadata (under CHECKSUM_METADATA_KEY) and in the
+ * "archive_checksum" column next to its "archive_location", and checked
+ * again against the retrieved dump before it is handed to pg_restore.
+ *
+ * Streamed dumps are hashed as they flow through a HashStream. Their checksum
+ * is only known once they have been stored, so it is kept in their manifest
+ * instead of their metadata, and a streamed restore is verified after
+ * pg_restore has run but before the object is marked present.
+ */
+
+import crypto = require('crypto');
+import fs = require('fs');
+import stream = require('stream');
+
+/**
+ * Key of the storage object metadata holding the checksum of a dump
+ */
+export const CHECKSUM_METADATA_KEY = "sha256";
+
+/**
+ * Return a Promise resolved with the hex encoded SHA-256 of the specified file
+ *
+ * @param{string} fn - path to the file to be checksummed
+ * @return{Promise<string>} Promise resolved with the checksum
+ */
+export function sha256File(fn: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let hash = crypto.createHash("sha256");
+        let rd = fs.createReadStream(fn);
+        rd.on("error", reject);
+        rd.on("data", chunk => hash.update(chunk));
+        rd.on("end", () => resolve(hash.digest("hex")));
+    });
+}
+
+/**
+ * Pass-through stream computing the SHA-256 of the data flowing through it,
+ * for dumps that are streamed instead of written to a file. The hex encoded
+ * checksum is available in "sha256" once the stream has ended.
+ */
+export class HashStream extends stream.Transform {
+
+    public sha256: string | null = null;
+    private hash = crypto.createHash("sha256");
+
+    public _transform(chunk: Buffer, encoding: string, callback: (err?: Error, data?: Buffer) => void) {
+        this.hash.update(chunk);
+        callback(null, chunk);
+    }
+
+    public _flush(callback: (err?: Error) => void) {
+        this.sha256 = this.hash.digest("hex");
+        callback();
+    }
+}
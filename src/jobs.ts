@@ -0,0 +1,206 @@
+/**
+ * Persistent ledger of archive/restore jobs. Every archive or restore of a
+ * report/analysis is recorded as a row of the archive_job table, and the row
+ * is advanced through the stages of the operation (see JobStage) as each
+ * stage completes. Jobs started as part of a cascaded operation (analyses
+ * archived along with a report, reports restored along with an analysis)
+ * reference the job of the operation that caused them in "parent".
+ *
+ * A job left in a non-terminal stage means the process died while the
+ * operation was in flight; Archiver.resumeJobs() in archiver.ts uses the
+ * recorded stage to decide whether to finish or roll back the operation.
+ *
+ * The ledger table is created by Archiver.ensureSchema() (migration 2 of
+ * schema.ts) with:
+ *
+ * create table archive_job (
+ *     id serial primary key,
+ *     parent integer default null references archive_job(id),
+ *     operation text not null,
+ *     object_type text not null,
+ *     object_id integer not null,
+ *     stage text not null,
+ *     archive_location text default null,
+ *     error text default null,
+ *     created timestamp with time zone not null default now(),
+ *     updated timestamp with time zone not null default now()
+ * );
+ */
+
+import * as pgPromise from 'pg-promise';
+import { Job, JobOperation, JobStage, ObjectType, PreparedStatement } from "./types";
+let squel = require("squel").useFlavour("postgres");
+
+const terminalStages: JobStage[] = ["MARKED", "FAILED", "ROLLED_BACK"];
+const terminalStagesSql: string = terminalStages.map(s => `'${s}'`).join(",");
+
+export class JobLedger {
+
+    /**
+      Insert a new job in the STARTED stage
+
+      @param{number} $1 - parent job id (or null)
+      @param{string} $2 - operation
+      @param{string} $3 - object type
+      @param{number} $4 - object id
+      @param{string} $5 - initial stage (should be STARTED)
+      */
+    private insert_job_sql: PreparedStatement;
+
+    /**
+      Advance a job to a new stage, optionally recording its archive location
+
+      @param{string} $1 - new stage
+      @param{string} $2 - archive location (or null to keep the current one)
+      @param{number} $3 - job id
+      */
+    private advance_job_sql: PreparedStatement;
+
+    /**
+      Move a job and all of its unfinished children to a terminal stage
+
+      @param{string} $1 - terminal stage
+      @param{string} $2 - error text (or null)
+      @param{number} $3 - job id
+      @param{number} $4 - job id (again, to match its children)
+      */
+    private finish_job_tree_sql: PreparedStatement;
+
+    /**
+      Retrieve all jobs that have not reached a terminal stage
+      */
+    private unfinished_jobs_sql: PreparedStatement;
+
+    constructor(private db: pgPromise.IDatabase<any>, private schema: string, private logger) {
+        this.insert_job_sql = squel.insert()
+            .into(`${schema}.archive_job`)
+            .set("parent", null)
+            .set("operation", null)
+            .set("object_type", null)
+            .set("object_id", null)
+            .set("stage", null)
+            .returning("id")
+            .toParam()
+            .text;
+
+        this.advance_job_sql = squel.update()
+            .table(`${schema}.archive_job`)
+            .set("stage", null)
+            .set("archive_location = coalesce(?, archive_location)")
+            .set("updated = now()")
+            .where("id=?")
+            .toParam()
+            .text;
+
+        this.finish_job_tree_sql = squel.update()
+            .table(`${schema}.archive_job`)
+            .set("stage", null)
+            .set("error", null)
+            .set("updated = now()")
+            .where(
+            squel.expr()
+                .and(`stage not in (${terminalStagesSql})`)
+                .and(squel.expr().or("id=?").or("parent=?"))
+            )
+            .toParam()
+            .text;
+
+        this.unfinished_jobs_sql = squel.select()
+            .from(`${schema}.archive_job`)
+            .where(`stage not in (${terminalStagesSql})`)
+            .order("id")
+            .toString();
+    }
+
+    /**
+     * Record the start of a new job
+     *
+     * @param{JobOperation} operation - "archive" or "restore"
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{number} parent - id of the job that caused this one, if any
+     * @return{Promise<number>} Promise resolved with the id of the new job
+     */
+    public start(operation: JobOperation, type: ObjectType, id: number, parent: number | null = null): Promise<number> {
+        return this.db.one(this.insert_job_sql, [parent, operation, type, id, "STARTED"])
+            .then(r => {
+                this.logger.debug(() => ["Started %s job %d for %s %d", operation, r.id, type, id]);
+                return r.id;
+            });
+    }
+
+    /**
+     * Advance a job to the specified stage
+     *
+     * @param{number} job - job id
+     * @param{JobStage} stage - stage the job has reached
+     * @param{string} location - archive location of the job's dump, if known
+     * @return{Promise} Promise resolved when the stage has been recorded
+     */
+    public advance(job: number, stage: JobStage, location: string | null = null): Promise<void> {
+        this.logger.debug(() => ["Job %d reached stage %s", job, stage]);
+        return this.db.none(this.advance_job_sql, [stage, location, job]);
+    }
+
+    /**
+     * Mark a job and its unfinished children as failed. Never rejects, since
+     * it is used on error paths where the original error is what matters.
+     *
+     * @param{number} job - job id
+     * @param{any} err - the error that caused the failure
+     * @return{Promise} Promise resolved when the failure has been recorded
+     */
+    public fail(job: number, err: any): Promise<void> {
+        return this.finishTree(job, "FAILED", `${err}`)
+            .catch(e => {
+                this.logger.warn(() => ["Unable to record failure of job %d: %s", job, e]);
+            });
+    }
+
+    /**
+     * Mark a job and its unfinished children as rolled back
+     *
+     * @param{number} job - job id
+     * @return{Promise} Promise resolved when the roll back has been recorded
+     */
+    public rollBack(job: number): Promise<void> {
+        return this.finishTree(job, "ROLLED_BACK", null);
+    }
+
+    /**
+     * Mark a job and its unfinished children as MARKED using the supplied
+     * task, so the update commits along with the rest of a transaction.
+     *
+     * @param{IBaseProtocol} t - pg-promise database or transaction
+     * @param{number} job - job id
+     * @return{Promise} Promise resolved when the update has been executed
+     */
+    public mark(t: pgPromise.IBaseProtocol<any>, job: number): Promise<void> {
+        return t.none(this.finish_job_tree_sql, ["MARKED", null, job, job]);
+    }
+
+    /**
+     * Return the SQL marking a job and its unfinished children as MARKED, for
+     * inclusion in the clean commands executed when an archive completes.
+     *
+     * @param{number} job - job id
+     * @return{string} SQL statement terminated with ";\n"
+     */
+    public markSql(job: number): string {
+        return `update ${this.schema}.archive_job set stage='MARKED',updated=now() where stage not in (${terminalStagesSql}) and (id=${job} or parent=${job});\n`;
+    }
+
+    /**
+     * Return all jobs that have not reached a terminal stage, oldest first
+     *
+     * @return{Promise<Job[]>} Promise resolved with the unfinished jobs
+     */
+    public unfinished(): Promise<Job[]> {
+        return this.db.any(this.unfinished_jobs_sql);
+    }
+
+    private finishTree(job: number, stage: JobStage, error: string | null): Promise<void> {
+        this.logger.debug(() => ["Job %d and its children reached stage %s", job, stage]);
+        return this.db.none(this.finish_job_tree_sql, [stage, error, job, job]);
+    }
+}
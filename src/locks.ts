@@ -0,0 +1,229 @@
+/**
+ * Per-object locks serializing archives and restores of the same
+ * report/analysis, both within a process and across every process working on
+ * the same database.
+ *
+ * Within a process, callers queue for each object in turn. Across processes,
+ * the lock is a session-level Postgres advisory lock keyed on (object type,
+ * id), taken with pg_try_advisory_lock on a connection dedicated to locking
+ * and retried until it is granted. Polling instead of blocking in
+ * pg_advisory_lock keeps a waiting lock from stalling the lock connection,
+ * which is shared by every lock held by the process.
+ *
+ * The lock connection is opened outside the connection pool, so it does not
+ * take a connection from the archives and restores. If it is lost, the server
+ * releases its locks: the next lock opens a new connection, and the operations
+ * that held locks on the lost one fail with a LockLostError once they settle.
+ *
+ * An operation takes all the locks it needs up front with withLocks(). Locks
+ * are always taken in the same order (analyses before reports, by id), so two
+ * operations needing overlapping sets of objects cannot deadlock.
+ */
+
+import _ = require('lodash');
+import * as pgPromise from 'pg-promise';
+import { LockLostError } from "./errors";
+import { ObjectType } from "./types";
+
+/**
+ * First key of the advisory locks of each object type. The values are
+ * arbitrary, chosen to be unlikely to clash with other users of advisory locks
+ * in the same database.
+ */
+export const LOCK_CLASSES: { [type: string]: number } = {
+    analysis: 0x74610001,
+    report: 0x74610002
+};
+
+const try_lock_sql = "select pg_try_advisory_lock($1, $2) as locked";
+const unlock_sql = "select pg_advisory_unlock($1, $2) as unlocked";
+
+export interface LockKey {
+    object_type: ObjectType,
+    id: number
+}
+
+/**
+ * Return the keys without duplicates, in the order in which they must be locked
+ *
+ * @param{LockKey[]} keys - keys of the objects to lock
+ * @return{LockKey[]} the keys in locking order
+ */
+export function lockOrder(keys: LockKey[]): LockKey[] {
+    return _.sortBy(_.uniqBy(keys, k => `${k.object_type} ${k.id}`), [k => k.object_type === "analysis" ? 0 : 1, "id"]);
+}
+
+/**
+ * Connection holding advisory locks, and the error it was lost with, if it was
+ */
+interface LockSession {
+    sco: any,
+    lost: any
+}
+
+/**
+ * A lock taken: the session holding its advisory lock, and the function
+ * releasing it
+ */
+interface HeldLock {
+    key: LockKey,
+    session: LockSession,
+    release: () => Promise<{}>
+}
+
+export class LockManager {
+
+    private connection: Promise<LockSession> | null = null;
+    private queues: { [key: string]: Promise<{}> } = {};
+
+    /**
+     * @param{IDatabase} db - database whose advisory locks are used
+     * @param{Logger} logger - logger
+     * @param{number} pollInterval - milliseconds between attempts to take a contended advisory lock
+     */
+    constructor(private db: pgPromise.IDatabase<any>, private logger, private pollInterval: number = 500) { }
+
+    /**
+     * Return a Promise resolved with the result of the function, which is run
+     * while the locks of all of the specified objects are held. The locks are
+     * released when the Promise returned by the function settles. If the lock
+     * connection was lost meanwhile, the Promise is rejected with a
+     * LockLostError, whatever the function returned.
+     *
+     * @param{LockKey[]} keys - objects to lock
+     * @param{function} f - function run while the locks are held
+     * @return{Promise} Promise resolved/rejected as the Promise returned by f
+     */
+    public withLocks<T>(keys: LockKey[], f: () => Promise<T>): Promise<T> {
+        let held: HeldLock[] = [];
+        let releaseAll = () => held.reverse().reduce((p, lock) => p.then(lock.release), Promise.resolve({}));
+        let checkHeld = () => {
+            let lost = _.find(held, lock => !_.isNil(lock.session.lost));
+            if (!_.isUndefined(lost)) {
+                throw new LockLostError(lost.key.object_type, lost.key.id, lost.session.lost);
+            }
+        };
+        return lockOrder(keys).reduce((p, key) => p
+            .then(() => this.lock(key))
+            .then(lock => {
+                held.push(lock);
+            }), Promise.resolve())
+            .then(() => f())
+            .then(result => releaseAll().then(() => {
+                checkHeld();
+                return result;
+            }), err => releaseAll().then(() => {
+                checkHeld();
+                throw err;
+            }));
+    }
+
+    /**
+     * Return a Promise resolved with the lock of the object once it has been
+     * taken
+     */
+    private lock(key: LockKey): Promise<HeldLock> {
+        let name = `${key.object_type} ${key.id}`;
+        let releaseLocal: () => void;
+        let previous = this.queues[name] || Promise.resolve({});
+        let mine = new Promise<{}>(resolve => {
+            releaseLocal = () => resolve({});
+        });
+        this.queues[name] = mine;
+
+        let unlockLocal = () => {
+            if (this.queues[name] === mine) {
+                delete this.queues[name];
+            }
+            releaseLocal();
+        };
+        return previous
+            .then(() => this.lockAdvisory(key, false))
+            .then((session: LockSession) => {
+                this.logger.debug(() => ["Lock of %s taken", name]);
+                return {
+                    key: key,
+                    session: session,
+                    release: () => this.unlockAdvisory(key, session)
+                        .catch(err => {
+                            this.logger.warn(() => ["Unable to release the advisory lock of %s: %s", name, err]);
+                        })
+                        .then(() => {
+                            this.logger.debug(() => ["Lock of %s released", name]);
+                            unlockLocal();
+                            return {};
+                        })
+                };
+            }, err => {
+                unlockLocal();
+                throw err;
+            });
+    }
+
+    /**
+     * Return a Promise resolved with the session holding the advisory lock of
+     * the object once it has been taken, retrying every pollInterval
+     * milliseconds while another process holds it
+     */
+    private lockAdvisory(key: LockKey, waiting: boolean): Promise<LockSession> {
+        return this.session()
+            .then(session => session.sco.one(try_lock_sql, [LOCK_CLASSES[key.object_type], key.id])
+                .then(r => r.locked ? session : null))
+            .then((session: LockSession | null) => {
+                if (!_.isNil(session)) {
+                    return session;
+                }
+                if (!waiting) {
+                    this.logger.info(() => ["%s %d is locked by another process, waiting", key.object_type, key.id]);
+                }
+                return new Promise(resolve => setTimeout(resolve, this.pollInterval))
+                    .then(() => this.lockAdvisory(key, true));
+            });
+    }
+
+    /**
+     * Return a Promise resolved when the advisory lock of the object has been
+     * released on the session it was taken on. The locks of a lost session
+     * were released by the server with the connection.
+     */
+    private unlockAdvisory(key: LockKey, session: LockSession): Promise<{}> {
+        if (!_.isNil(session.lost)) {
+            return Promise.resolve({});
+        }
+        return session.sco.one(unlock_sql, [LOCK_CLASSES[key.object_type], key.id])
+            .then(() => ({}));
+    }
+
+    /**
+     * Return a Promise resolved with the session holding the advisory locks,
+     * connecting on first use and after the connection was lost. Advisory
+     * locks belong to a session, so they must all be taken and released on the
+     * same connection.
+     */
+    private session(): Promise<LockSession> {
+        if (this.connection === null) {
+            let connection = this.db.connect({ direct: true })
+                .then(sco => {
+                    let session: LockSession = { sco: sco, lost: null };
+                    let lose = err => {
+                        if (_.isNil(session.lost)) {
+                            session.lost = err;
+                            this.logger.error(() => ["Lock connection lost, its locks are released: %s", err]);
+                            if (this.connection === connection) {
+                                this.connection = null;
+                            }
+                        }
+                    };
+                    sco.client.on("error", lose);
+                    sco.client.on("end", () => lose(new Error("Connection terminated")));
+                    return session;
+                })
+                .catch(err => {
+                    this.connection = null;
+                    throw err;
+                });
+            this.connection = connection;
+        }
+        return this.connection;
+    }
+}
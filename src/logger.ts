@@ -1,16 +1,16 @@
 import winston = require("winston");
 import fs = require("fs");
 import path = require("path");
-import { Config } from "./types";
-// const config: Config = require("../conf/config.js");
-const config = sails.config.archiveRestoreConfig
+import _ = require('lodash');
+import { LoggerConfig, LogFields } from "./types";
 const tsFormat = () => (new Date()).toUTCString();
+const isoFormat = () => (new Date()).toISOString();
 
 /**
- * This module exports a singleton wrapper around a winston logger configured 
- * by parameters in the config.js file.  The reason it exists is to allow all
- * components to share a common logger, and more importantly for performance
- * reasons.  The logging methods (debug, info, etc) exposed on the object accept
+ * This module exports a wrapper around a winston logger configured by the
+ * "logger" parameters in the config.js file.  The reason it exists is to allow
+ * all components of an archiver to share a common logger, and more importantly
+ * for performance reasons.  The logging methods (debug, info, etc) exposed on the object accept
  * a function returning an array of actual parameters passed to the logger instead
  * of directly accepting the parameters.  The reason for that is JavaScript is not a
  * big-boy language like Haskell or Scala, and has only eager evaluation instead of
@@ -25,89 +25,116 @@ const tsFormat = () => (new Date()).toUTCString();
  *      logger.debug( () => [JSON.stringify( really_big_object )] );
  * 
  * doesn't call stringify anything unless the logger processes debug messages.
+ *
+ * A Logger may carry structured fields, which are added to every line it
+ * logs as winston metadata. child(fields) returns a Logger writing to the
+ * same transports with more fields, e.g. the correlation id, object and stage
+ * of an archive/restore (see progress.ts). With "format": "json" in the
+ * configuration, every line is written to the console and the file as a
+ * single line JSON object holding the level, message, timestamp and fields.
  */
 
-class Logger {
+export class Logger {
 
     private level: number;
     private levels = { error: 0, warn: 1, info: 2, verbose: 3, debug: 4, silly: 5 };
     private _logger_: winston.LoggerInstance;
+    private fields: LogFields = {};
 
-    constructor() {
+    constructor(config: LoggerConfig) {
+        let json = config.format === "json";
 
         // Create the log directory if it does not exist
-        if (!fs.existsSync(config.logger.directory)) {
-            fs.mkdirSync(config.logger.directory);
+        if (!fs.existsSync(config.directory)) {
+            fs.mkdirSync(config.directory);
         }
 
-        // Configure singleton logging object
+        let transports: winston.TransportInstance[] = [
+            new (winston.transports.File)({
+                filename: config.directory + path.sep + config.filename,
+                timestamp: json ? isoFormat : tsFormat,
+                // level: config.file_level
+                level: config.level
+            })
+        ];
+        // colorize the output to the console, unless console logging is disabled
+        // or it is JSON
+        if (config.console !== false) {
+            transports.unshift(new (winston.transports.Console)({
+                timestamp: json ? isoFormat : tsFormat,
+                colorize: !json,
+                json: json,
+                stringify: json ? (obj => JSON.stringify(obj)) : undefined,
+                //level: config.console_level
+                level: config.level
+            }));
+        }
+
+        // Configure logging object
         this._logger_ = new (winston.Logger)({
             levels: this.levels,
-            level: config.logger.level,
-            transports: [
-                // colorize the output to the console
-                new (winston.transports.Console)({
-                    timestamp: tsFormat,
-                    colorize: true,
-                    //level: config.logger.console_level
-                    level: config.logger.level
-                }),
-                new (winston.transports.File)({
-                    filename: config.logger.directory + path.sep + config.logger.filename,
-                    timestamp: tsFormat,
-                    // level: config.logger.file_level
-                    level: config.logger.level
-                })
-            ]
+            level: config.level,
+            transports: transports
         });
 
         this.level = this.levels[this._logger_.level];
     }
 
+    /**
+     * Return a Logger writing to the same transports at the same level, which
+     * adds the given fields to those of this Logger on every line
+     *
+     * @param{LogFields} fields - fields to add
+     * @return{Logger} the child logger
+     */
+    public child(fields: LogFields): Logger {
+        // The child reaches the winston logger and level through its prototype
+        let child: Logger = Object.create(this);
+        child.fields = _.assign({}, this.fields, fields);
+        return child;
+    }
+
+    /**
+     * Log the message returned by f, followed by the fields as metadata
+     */
+    private log(level: string, f: () => any[]) {
+        let args = _.isEmpty(this.fields) ? f() : f().concat([this.fields]);
+        this._logger_.log.apply(this._logger_, [level].concat(args));
+    }
+
     public error(f: () => any[]) {
         if (this.level >= this.levels["error"]) {
-            this._logger_.error.apply(null, f())
+            this.log("error", f);
         }
     }
 
     public warn(f: () => any[]) {
         if (this.level >= this.levels["warn"]) {
-            this._logger_.warn.apply(null, f())
+            this.log("warn", f);
         }
     }
 
     public info(f: () => any[]) {
         if (this.level >= this.levels["info"]) {
-            this._logger_.info.apply(null, f())
+            this.log("info", f);
         }
     }
 
     public verbose(f: () => any[]) {
         if (this.level >= this.levels["verbose"]) {
-            this._logger_.verbose.apply(null, f())
+            this.log("verbose", f);
         }
     }
 
     public debug(f: () => any[]) {
         if (this.level >= this.levels["debug"]) {
-            this._logger_.debug.apply(null, f())
+            this.log("debug", f);
         }
     }
 
     public silly(f: () => any[]) {
         if (this.level >= this.levels["silly"]) {
-            this._logger_.silly.apply(null, f())
+            this.log("silly", f);
         }
     }
 }
-
-let _singleton_ : Logger;
-
-function getLogger() {
-    if (typeof(_singleton_) === "undefined") {
-        _singleton_ = new Logger();
-    }
-    return _singleton_;
-}
-
-module.exports = getLogger;
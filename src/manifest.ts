@@ -0,0 +1,56 @@
+/**
+ * Archive manifests. Every dump is accompanied by a JSON manifest stored next
+ * to it, listing the tables captured with their exact row counts and column
+ * signatures, the pg_dump and server versions, and the analysis/report
+ * dependency edges of the archived object at archive time. The rows are
+ * counted in the snapshot pg_dump dumps, so they match the dump even if the
+ * tables are written to meanwhile. The location of the manifest is kept in the
+ * dump's metadata under MANIFEST_METADATA_KEY.
+ *
+ * After a restore, the restored tables are described again and compared with
+ * the manifest, so a pg_restore that silently skipped a table or some rows
+ * does not mark the object present.
+ */
+
+import _ = require('lodash');
+import { Manifest, ManifestTable } from "./types";
+
+/**
+ * Version of the manifest format written by this library
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Key of the dump metadata holding the location of its manifest
+ */
+export const MANIFEST_METADATA_KEY = "manifest";
+
+/**
+ * Return the differences between the tables recorded in a manifest and the
+ * tables found in the DB after the restore. Tables that were not restored are
+ * described with null rows and no columns. Manifests written before sequences
+ * were left out of them list sequences the same way, with null rows; those
+ * entries are not compared.
+ *
+ * @param{Manifest} manifest - manifest written when the object was archived
+ * @param{ManifestTable[]} actual - description of the restored tables
+ * @return{string[]} one message per difference, empty if the restore is complete
+ */
+export function compareManifest(manifest: Manifest, actual: ManifestTable[]): string[] {
+    let found = _.keyBy(actual, "name");
+    let mismatches: string[] = [];
+    manifest.tables.filter(expected => !_.isNil(expected.rows)).forEach(expected => {
+        let table = found[expected.name];
+        if (_.isNil(table) || _.isNil(table.rows)) {
+            mismatches.push(`table ${expected.name} was not restored`);
+            return;
+        }
+        if (table.rows !== expected.rows) {
+            mismatches.push(`table ${expected.name} has ${table.rows} rows, expected ${expected.rows}`);
+        }
+        if (!_.isEqual(table.columns, expected.columns)) {
+            mismatches.push(`table ${expected.name} has columns (${table.columns.join(", ")}), expected (${expected.columns.join(", ")})`);
+        }
+    });
+    return mismatches;
+}
@@ -0,0 +1,302 @@
+/**
+ * Metrics of archives and restores, in Prometheus text format. An Archiver
+ * records into a MetricsRegistry, its own unless one is supplied in its
+ * dependencies, e.g. to expose the metrics of several archivers, or of the
+ * application, together. ArchiveMetrics observes the events of every
+ * Operation (see progress.ts) and keeps:
+ *
+ * ts_archive_operations_total - archives/restores by operation, object type
+ *     and outcome ("success" or "failure")
+ * ts_archive_failures_total - failed archives/restores by the class of their
+ *     error
+ * ts_archive_operation_duration_seconds - time taken by archives/restores
+ * ts_archive_stage_duration_seconds - time spent in each stage
+ *     (validating, dumping, uploading, cleaning, downloading, restoring, marking)
+ * ts_archive_transferred_bytes_total - bytes uploaded to and downloaded from
+ *     archive storage
+ * ts_archive_cascaded_total - archives/restores cascaded from another one
+ * ts_archive_retries_total - steps retried after a transient failure, by
+ *     kind of step and reason (see retry.ts)
+ *
+ * Cascaded operations are counted as operations of their own too. The text
+ * returned by MetricsRegistry.render() can be served by the application, or
+ * by the listener started by serveMetrics().
+ */
+
+import http = require('http');
+import _ = require('lodash');
+import { Logger } from "./logger";
+import { Operation, transferDelta } from "./progress";
+import { MetricLabels, OperationStage, RetryStep } from "./types";
+
+/**
+ * Upper bounds, in seconds, of the buckets of the duration histograms
+ */
+export const DURATION_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 300, 900, 1800, 3600];
+
+/**
+ * Path the metrics are served at unless the configuration says otherwise
+ */
+export const DEFAULT_METRICS_PATH = "/metrics";
+
+/**
+ * Return the label set in Prometheus text format, e.g. {type="report"}
+ */
+function formatLabels(labels: MetricLabels): string {
+    let pairs = _.keys(labels).sort().map(name =>
+        `${name}="${labels[name].replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`);
+    return pairs.length === 0 ? "" : `{${pairs.join(",")}}`;
+}
+
+/**
+ * A metric in a MetricsRegistry
+ */
+export interface Metric {
+    name: string,
+    help: string,
+
+    /**
+     * Return the samples of the metric in Prometheus text format, without
+     * its HELP and TYPE lines
+     */
+    samples(): string[];
+}
+
+export class Counter implements Metric {
+
+    private values: { [labels: string]: number } = {};
+
+    constructor(public readonly name: string, public readonly help: string) {
+    }
+
+    /**
+     * Add to the value of the counter with the given labels
+     *
+     * @param{MetricLabels} labels - labels of the counter
+     * @param{number} value - amount added, 1 by default
+     */
+    public inc(labels: MetricLabels, value: number = 1): void {
+        let key = formatLabels(labels);
+        this.values[key] = (this.values[key] || 0) + value;
+    }
+
+    /**
+     * Return the value of the counter with the given labels
+     */
+    public get(labels: MetricLabels): number {
+        return this.values[formatLabels(labels)] || 0;
+    }
+
+    public samples(): string[] {
+        return _.keys(this.values).sort().map(key => `${this.name}${key} ${this.values[key]}`);
+    }
+}
+
+export class Histogram implements Metric {
+
+    private series: { [labels: string]: { labels: MetricLabels, counts: number[], sum: number, count: number } } = {};
+
+    constructor(public readonly name: string, public readonly help: string, public readonly buckets: number[] = DURATION_BUCKETS) {
+    }
+
+    /**
+     * Record a value in the histogram with the given labels
+     *
+     * @param{MetricLabels} labels - labels of the histogram
+     * @param{number} value - observed value
+     */
+    public observe(labels: MetricLabels, value: number): void {
+        let key = formatLabels(labels);
+        let s = this.series[key] || (this.series[key] = { labels: labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 });
+        this.buckets.forEach((le, i) => {
+            if (value <= le) {
+                s.counts[i]++;
+            }
+        });
+        s.sum += value;
+        s.count++;
+    }
+
+    /**
+     * Return the number of values recorded in the histogram with the given labels
+     */
+    public count(labels: MetricLabels): number {
+        let s = this.series[formatLabels(labels)];
+        return _.isNil(s) ? 0 : s.count;
+    }
+
+    public samples(): string[] {
+        return _.flatMap(_.keys(this.series).sort(), key => {
+            let s = this.series[key];
+            return this.buckets.map((le, i) => `${this.name}_bucket${formatLabels(_.assign({}, s.labels, { le: `${le}` }))} ${s.counts[i]}`)
+                .concat([
+                    `${this.name}_bucket${formatLabels(_.assign({}, s.labels, { le: "+Inf" }))} ${s.count}`,
+                    `${this.name}_sum${key} ${s.sum}`,
+                    `${this.name}_count${key} ${s.count}`
+                ]);
+        });
+    }
+}
+
+export class MetricsRegistry {
+
+    private metrics: { [name: string]: Metric } = {};
+
+    /**
+     * Return the counter of the given name, registering it unless it is
+     * already registered
+     *
+     * @param{string} name - name of the counter
+     * @param{string} help - description of the counter
+     * @return{Counter} the counter
+     */
+    public counter(name: string, help: string): Counter {
+        return this.register(name, () => new Counter(name, help), Counter);
+    }
+
+    /**
+     * Return the histogram of the given name, registering it unless it is
+     * already registered
+     *
+     * @param{string} name - name of the histogram
+     * @param{string} help - description of the histogram
+     * @param{number[]} buckets - upper bounds of its buckets
+     * @return{Histogram} the histogram
+     */
+    public histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+        return this.register(name, () => new Histogram(name, help, buckets), Histogram);
+    }
+
+    /**
+     * Return every registered metric in Prometheus text format
+     */
+    public render(): string {
+        return _.flatMap(_.keys(this.metrics).sort(), name => {
+            let metric = this.metrics[name];
+            return [
+                `# HELP ${name} ${metric.help}`,
+                `# TYPE ${name} ${metric instanceof Counter ? "counter" : metric instanceof Histogram ? "histogram" : "untyped"}`
+            ].concat(metric.samples());
+        }).map(line => `${line}\n`).join("");
+    }
+
+    private register<M extends Metric>(name: string, create: () => M, type: Function): M {
+        if (!_.has(this.metrics, name)) {
+            this.metrics[name] = create();
+        } else if (!(this.metrics[name] instanceof type)) {
+            throw new Error(`Metric ${name} is already registered with another type`);
+        }
+        return this.metrics[name] as M;
+    }
+}
+
+/**
+ * The metrics of the archives/restores of an Archiver
+ */
+export class ArchiveMetrics {
+
+    private operations: Counter;
+    private failures: Counter;
+    private durations: Histogram;
+    private stages: Histogram;
+    private transferred: Counter;
+    private cascaded: Counter;
+    private retries: Counter;
+
+    /**
+     * @param{MetricsRegistry} registry - registry the metrics are recorded into
+     */
+    constructor(public readonly registry: MetricsRegistry) {
+        this.operations = registry.counter("ts_archive_operations_total", "Archives and restores by outcome");
+        this.failures = registry.counter("ts_archive_failures_total", "Failed archives and restores by error class");
+        this.durations = registry.histogram("ts_archive_operation_duration_seconds", "Time taken by archives and restores");
+        this.stages = registry.histogram("ts_archive_stage_duration_seconds", "Time spent by archives and restores in each stage");
+        this.transferred = registry.counter("ts_archive_transferred_bytes_total", "Bytes transferred to and from archive storage");
+        this.cascaded = registry.counter("ts_archive_cascaded_total", "Archives and restores cascaded from another one");
+        this.retries = registry.counter("ts_archive_retries_total", "Steps retried after a transient failure");
+    }
+
+    /**
+     * Count a retry of a step
+     *
+     * @param{RetryStep} step - kind of the step
+     * @param{string} reason - code or class of the error it failed with
+     */
+    public countRetry(step: RetryStep, reason: string): void {
+        this.retries.inc({ step: step, reason: reason });
+    }
+
+    /**
+     * Record the metrics of an operation, and of the operations it cascades
+     * to, as it progresses
+     *
+     * @param{Operation} op - the operation, just started
+     * @return{Operation} the operation
+     */
+    public observe<T>(op: Operation<T>): Operation<T> {
+        let labels = { operation: op.operation, object_type: op.object_type };
+        let stage: OperationStage | null = null;
+        let stageStarted = Date.now();
+        let endStage = () => {
+            if (stage !== null) {
+                this.stages.observe(_.assign({ stage: stage }, labels), (Date.now() - stageStarted) / 1000);
+            }
+        };
+        let delta = transferDelta();
+        op.on("stage", e => {
+            endStage();
+            stage = e.stage;
+            stageStarted = Date.now();
+        });
+        op.on("transfer", e => {
+            let bytes = delta(e);
+            if (bytes > 0) {
+                this.transferred.inc({ direction: e.direction, object_type: op.object_type }, bytes);
+            }
+        });
+        op.on("child", child => {
+            this.cascaded.inc({ operation: child.operation, object_type: child.object_type });
+            this.observe(child);
+        });
+        op.on("outcome", e => {
+            endStage();
+            let outcome = e.ok ? "success" : "failure";
+            this.operations.inc(_.assign({ outcome: outcome }, labels));
+            this.durations.observe(_.assign({ outcome: outcome }, labels), e.duration_ms / 1000);
+            if (!e.ok) {
+                this.failures.inc(_.assign({ reason: e.reason || "Error" }, labels));
+            }
+        });
+        return op;
+    }
+}
+
+/**
+ * Start an HTTP listener serving the metrics of the registry
+ *
+ * @param{MetricsRegistry} registry - the metrics
+ * @param{number} port - port to listen on, 0 for any free port
+ * @param{Logger} logger - logger
+ * @param{string} path - path the metrics are served at
+ * @return{Promise<http.Server>} Promise resolved with the server once it listens
+ */
+export function serveMetrics(registry: MetricsRegistry, port: number, logger: Logger,
+    path: string = DEFAULT_METRICS_PATH): Promise<http.Server> {
+    let server = http.createServer((req, res) => {
+        if (req.method !== "GET" || req.url.split("?")[0] !== path) {
+            res.writeHead(404, { "Content-Type": "text/plain" });
+            res.end("Not found\n");
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        res.end(registry.render());
+    });
+    return new Promise<http.Server>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, () => {
+            server.removeListener("error", reject);
+            logger.info(() => ["Serving metrics at http://localhost:%d%s", server.address().port, path]);
+            resolve(server);
+        });
+    });
+}
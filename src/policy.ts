@@ -0,0 +1,84 @@
+/**
+ * Rules deciding which reports are stale enough to be archived by
+ * archiveStaleReports(). The activity of each report (age of its row, time
+ * since its stats tables were last scanned, size of its tables) is gathered
+ * from the DB by Archiver.selectReportsToArchive() in archiver.ts; this module
+ * only decides, given that activity, whether the configured ArchivePolicy
+ * selects the report.
+ *
+ * The report table has no standard creation time column, so a policy with
+ * min_age_days must name the column holding it in age_column. Scan times, and
+ * so min_idle_days, are only tracked by Postgres 16 and later.
+ */
+
+import _ = require('lodash');
+import { validateIdentifier } from "./statements";
+import { ArchivePolicy, ReportActivity } from "./types";
+
+/**
+ * First value of server_version_num whose pg_stat_user_tables tracks the
+ * last scan of each table
+ */
+export const SCAN_TRACKING_VERSION_NUM = 160000;
+
+/**
+ * Throw unless the policy can be evaluated: min_age_days requires an
+ * age_column, which must be a plain identifier as it is spliced into SQL
+ *
+ * @param{ArchivePolicy} policy - archive policy
+ */
+export function validatePolicy(policy: ArchivePolicy): void {
+    if (!_.isNil(policy.min_age_days) && _.isNil(policy.age_column)) {
+        throw new Error("The archive policy sets min_age_days without the age_column of the report table holding its creation time");
+    }
+    if (!_.isNil(policy.age_column)) {
+        validateIdentifier(policy.age_column, "age column");
+    }
+}
+
+/**
+ * Return the reason min_idle_days cannot be evaluated by a server of the
+ * specified version, or null if it can
+ *
+ * @param{number} versionNum - server_version_num of the server
+ * @return{string} the reason, or null
+ */
+export function idleTrackingUnsupported(versionNum: number): string | null {
+    return versionNum >= SCAN_TRACKING_VERSION_NUM ? null :
+        `min_idle_days needs Postgres 16 or later to track table scans, the server is version ${versionNum}`;
+}
+
+/**
+ * Return the reasons why the policy does not select the report with the
+ * specified activity. An empty array means the report is selected.
+ *
+ * @param{ArchivePolicy} policy - archive policy
+ * @param{ReportActivity} activity - activity of the report
+ * @param{boolean} listsOnly - only evaluate the allow and deny lists, e.g.
+ *                             before the activity has been gathered
+ * @return{string[]} reasons the report is not selected
+ */
+export function policyExclusions(policy: ArchivePolicy, activity: ReportActivity, listsOnly: boolean = false): string[] {
+    let reasons: string[] = [];
+
+    if (_.includes(policy.deny || [], activity.id)) {
+        reasons.push("report is on the deny list");
+    }
+    if (!_.isEmpty(policy.allow) && !_.includes(policy.allow, activity.id)) {
+        reasons.push("report is not on the allow list");
+    }
+    if (listsOnly) {
+        return reasons;
+    }
+    if (!_.isNil(policy.min_age_days) && (_.isNil(activity.age_days) || activity.age_days < policy.min_age_days)) {
+        reasons.push(`report is younger than ${policy.min_age_days} days`);
+    }
+    // A report whose tables were never scanned counts as idle
+    if (!_.isNil(policy.min_idle_days) && !_.isNil(activity.idle_days) && activity.idle_days < policy.min_idle_days) {
+        reasons.push(`report was accessed within the last ${policy.min_idle_days} days`);
+    }
+    if (!_.isNil(policy.min_total_bytes) && activity.total_bytes < policy.min_total_bytes) {
+        reasons.push(`report tables are smaller than ${policy.min_total_bytes} bytes`);
+    }
+    return reasons;
+}
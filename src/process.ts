@@ -0,0 +1,195 @@
+/**
+ * Child processes running the Postgres binaries. Commands are spawned
+ * directly (never through a shell) with their arguments as an array, so
+ * nothing in a schema name, file name or SQL statement is interpreted by a
+ * shell. Their standard streams are pipes that can be connected to other
+ * streams, and a process exiting with an error rejects with a ProcessError
+ * carrying the end of its standard error.
+ *
+ * A PgRunner starts pg_dump, pg_restore and psql against the configured
+ * database. The connection parameters are passed in the environment (PGHOST,
+ * PGPORT, PGDATABASE, PGUSER) rather than on the command line, where any user
+ * could see them with ps. The password is passed in PGPASSWORD or, with
+ * "pg_credentials" set to "pgpass", in a pgpass file readable only by the
+ * current user, created on first use and removed when the process exits.
+ */
+
+import _ = require('lodash');
+import fs = require('fs');
+import path = require('path');
+import tmp = require("tmp");
+import { ChildProcess, spawn } from "child_process";
+import { ProcessError } from "./errors";
+import { Logger } from "./logger";
+import { Config, PgBinary } from "./types";
+
+/**
+ * Only the end of the standard error of a process is kept for its error
+ */
+const MAX_STDERR_BYTES = 16 * 1024;
+
+export interface RunningProcess {
+    /**
+     * The child process
+     */
+    child: ChildProcess,
+
+    /**
+     * Promise resolved when the process exits with status 0, rejected if it
+     * cannot be started, exits with another status or is killed
+     */
+    exited: Promise<{}>,
+
+    /**
+     * Kill the process, unless it has already exited
+     */
+    kill(): void
+}
+
+/**
+ * Start the command with the given arguments
+ *
+ * @param{string} command - path to the executable
+ * @param{string[]} args - arguments of the command
+ * @param{object} env - variables added to the environment of the process
+ * @return{RunningProcess} the started process
+ */
+export function startProcess(command: string, args: string[], env: { [name: string]: string } = {}): RunningProcess {
+    let child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"], env: _.assign({}, process.env, env) });
+    let stderr = "";
+    let done = false;
+    child.stderr.on("data", chunk => {
+        stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_BYTES);
+    });
+    // A consumer that went away must not take the process down with EPIPE
+    child.stdin.on("error", _.noop);
+
+    let exited = new Promise<{}>((resolve, reject) => {
+        child.on("error", err => {
+            done = true;
+            reject(err);
+        });
+        child.on("close", (code, signal) => {
+            done = true;
+            if (code === 0) {
+                resolve({});
+            } else {
+                reject(new ProcessError(command, args, code, signal, stderr.trim()));
+            }
+        });
+    });
+
+    return {
+        child: child,
+        exited: exited,
+        kill: () => {
+            if (!done) {
+                child.kill();
+            }
+        }
+    };
+}
+
+/**
+ * Return a Promise resolved with the standard output of the process once it
+ * has exited successfully
+ *
+ * @param{RunningProcess} running - the started process
+ * @param{string} input - written to the standard input of the process, which is then closed
+ * @return{Promise<string>} Promise resolved with the standard output
+ */
+export function processOutput(running: RunningProcess, input: string = ""): Promise<string> {
+    let stdout = "";
+    running.child.stdout.on("data", chunk => {
+        stdout += chunk.toString();
+    });
+    running.child.stdin.end(input);
+    return running.exited.then(() => stdout);
+}
+
+/**
+ * Return a pgpass file line matching the given connection parameters
+ */
+function pgpassLine(host: string, port: number, database: string, user: string, password: string): string {
+    let escape = (field: string | number) => String(field).replace(/[\\:]/g, c => `\\${c}`);
+    return [host, port, database, user, password].map(escape).join(":") + "\n";
+}
+
+export class PgRunner {
+
+    private passfile: string | null = null;
+
+    /**
+     * @param{Config} config - library configuration
+     * @param{Logger} logger - logger
+     */
+    constructor(private config: Config, private logger: Logger) { }
+
+    /**
+     * Start the named Postgres binary of the configured pg_prefix, connected
+     * to the configured database
+     *
+     * @param{PgBinary} binary - "pg_dump", "pg_restore" or "psql"
+     * @param{string[]} args - arguments of the command
+     * @return{RunningProcess} the started process
+     */
+    public start(binary: PgBinary, args: string[]): RunningProcess {
+        this.logger.debug(() => ["Starting %s %s", binary, args.join(" ")]);
+        return startProcess(path.join(this.config.pg_prefix, binary), args, this.env());
+    }
+
+    /**
+     * Return a Promise resolved with the standard output of the named Postgres
+     * binary once it has exited successfully
+     *
+     * @param{PgBinary} binary - "pg_dump", "pg_restore" or "psql"
+     * @param{string[]} args - arguments of the command
+     * @param{string} input - written to the standard input of the command
+     * @return{Promise<string>} Promise resolved with the standard output
+     */
+    public run(binary: PgBinary, args: string[], input: string = ""): Promise<string> {
+        return processOutput(this.start(binary, args), input);
+    }
+
+    /**
+     * Return the environment variables connecting libpq to the configured DB
+     */
+    private env(): { [name: string]: string } {
+        let conn = this.config.db_connection;
+        let env: { [name: string]: string } = {
+            PGHOST: conn.host,
+            PGPORT: String(conn.port),
+            PGDATABASE: conn.database,
+            PGUSER: conn.user
+        };
+        if (this.config.pg_credentials === "pgpass") {
+            env["PGPASSFILE"] = this.pgpassFile();
+        } else {
+            env["PGPASSWORD"] = conn.password;
+        }
+        return env;
+    }
+
+    /**
+     * Return the name of the pgpass file holding the configured password,
+     * creating it on first use
+     */
+    private pgpassFile(): string {
+        if (this.passfile === null) {
+            let conn = this.config.db_connection;
+            let name: string = tmp.tmpNameSync({ prefix: "ts-archive-restore-", postfix: ".pgpass" });
+            // Created exclusively, so the file cannot be one planted by another user
+            fs.writeFileSync(name, pgpassLine(conn.host, conn.port, conn.database, conn.user, conn.password), { mode: 0o600, flag: "wx" });
+            process.once("exit", () => {
+                try {
+                    fs.unlinkSync(name);
+                } catch (err) {
+                    // Already removed
+                }
+            });
+            this.logger.debug(() => ["Created pgpass file %s", name]);
+            this.passfile = name;
+        }
+        return this.passfile;
+    }
+}
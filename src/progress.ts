@@ -0,0 +1,279 @@
+/**
+ * Progress of archives and restores. Every archive/restore returns an
+ * Operation: a handle that can be used as a Promise of its result, and that
+ * emits events as the work progresses:
+ *
+ * stage - a StageEvent as it enters each stage. Archives go through
+ *     validating -> dumping -> uploading -> cleaning (the objects are dropped
+ *     and marked archived in one transaction), restores through
+ *     validating -> downloading -> restoring -> marking. In streaming mode a
+ *     dump is uploaded as it is taken, and restored as it is downloaded, so
+ *     the uploading and downloading stages are skipped.
+ * transfer - a TransferEvent as bytes are uploaded to or downloaded from
+ *     archive storage
+ * location - a LocationEvent once the archive location of the dump is known:
+ *     when it is stored, or before it is downloaded
+ * child - the Operation of an archive/restore cascaded from this one: of an
+ *     analysis archived along with a report it depends on, or of a report
+ *     restored along with an analysis that needs it. A cascaded analysis
+ *     archive ends once its dump is stored; its objects are dropped in the
+ *     transaction of the report archive.
+ * outcome - an OutcomeEvent once the operation has succeeded or failed
+ *
+ * The work only starts on the next tick, so listeners attached as soon as
+ * the Operation is returned see every event.
+ *
+ * An Operation fails with an ArchiveRestoreError (see errors.ts) holding the
+ * stage it failed in.
+ *
+ * Every Operation has an id, and a correlation id generated for each
+ * archive/restore requested by a caller and inherited by the operations it
+ * cascades to. Both are in its events and in the fields of its logger, along
+ * with its object and current stage, so that the log lines of interleaved
+ * operations can be told apart. The time spent in each stage, and by the
+ * whole operation, is logged in a "duration_ms" field.
+ */
+
+import crypto = require('crypto');
+import events = require('events');
+import _ = require('lodash');
+import { ArchiveRestoreError, stageError } from "./errors";
+import { Logger } from "./logger";
+import {
+    JobOperation, ObjectType, OperationStage, TransferDirection, TransferListener,
+    StageEvent, TransferEvent, LocationEvent, OutcomeEvent
+} from "./types";
+
+/**
+ * Return a new random operation/correlation id
+ */
+function newId(): string {
+    return crypto.randomBytes(8).toString("hex");
+}
+
+/**
+ * Return the class of an error an operation failed with
+ */
+export function errorReason(err): string {
+    return err instanceof Error ? err.constructor.name : "Error";
+}
+
+/**
+ * Return a function returning the bytes transferred by an operation since
+ * the previous transfer event it was called with
+ */
+export function transferDelta(): (e: TransferEvent) => number {
+    let last = { upload: 0, download: 0 };
+    return e => {
+        // A count lower than the last one is that of a new transfer
+        let delta = e.transferred >= last[e.direction] ? e.transferred - last[e.direction] : e.transferred;
+        last[e.direction] = e.transferred;
+        return delta;
+    };
+}
+
+/**
+ * What the archiver reports progress to
+ */
+export interface ProgressReporter {
+    /**
+     * Logger of the operation, adding its fields to every line
+     */
+    readonly logger: Logger;
+
+    /**
+     * Report that the operation entered the given stage
+     *
+     * @param{OperationStage} stage - the new stage
+     */
+    reportStage(stage: OperationStage): void;
+
+    /**
+     * Return the listener reporting the bytes of a transfer
+     *
+     * @param{TransferDirection} direction - "upload" or "download"
+     * @return{TransferListener} listener to hand to the storage backend
+     */
+    reportTransfer(direction: TransferDirection): TransferListener;
+
+    /**
+     * Report the archive location of the dump stored or restored
+     *
+     * @param{string} location - archive location of the dump
+     * @param{string} version - version of the dump, null if not known
+     */
+    reportLocation(location: string, version: string | null): void;
+
+    /**
+     * Return the Promise of an operation cascaded from this one, reporting
+     * to its own reporter
+     *
+     * @param{JobOperation} operation - "archive" or "restore"
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{function} work - function starting the operation
+     * @return{Promise} Promise of the cascaded operation
+     */
+    startChild<R>(operation: JobOperation, type: ObjectType, id: number, work: (progress: ProgressReporter) => Promise<R>): Promise<R>;
+}
+
+/**
+ * Return the reporter of work done outside of any Operation, e.g. by
+ * resumeJobs(), which only logs to the given logger
+ *
+ * @param{Logger} logger - logger of the work
+ * @return{ProgressReporter} reporter ignoring the progress of the work
+ */
+export function noProgress(logger: Logger): ProgressReporter {
+    let reporter: ProgressReporter = {
+        logger: logger,
+        reportStage: () => undefined,
+        reportTransfer: () => () => undefined,
+        reportLocation: () => undefined,
+        startChild: (operation, type, id, work) => work(reporter)
+    };
+    return reporter;
+}
+
+/**
+ * An archive/restore in progress
+ */
+export class Operation<T> extends events.EventEmitter implements ProgressReporter, PromiseLike<T> {
+
+    /**
+     * Promise resolved with the result of the operation
+     */
+    public readonly promise: Promise<T>;
+
+    public readonly operation_id: string = newId();
+
+    /**
+     * Logger of the current stage
+     */
+    public logger: Logger;
+
+    private baseLogger: Logger;
+    private started: number = Date.now();
+    private stageStarted: number = Date.now();
+    private stage: OperationStage | null = null;
+
+    /**
+     * @param{JobOperation} operation - "archive" or "restore"
+     * @param{ObjectType} object_type - "report" or "analysis"
+     * @param{number} object_id - id of the report/analysis
+     * @param{Logger} logger - logger of the archiver
+     * @param{function} work - function starting the operation, reporting to the Operation
+     * @param{string} correlation_id - correlation id of the operation this one is cascaded from, if any
+     */
+    constructor(public readonly operation: JobOperation, public readonly object_type: ObjectType, public readonly object_id: number,
+        logger: Logger, work: (progress: ProgressReporter) => Promise<T>, public readonly correlation_id: string = newId()) {
+        super();
+        this.baseLogger = logger.child({
+            correlation_id: this.correlation_id,
+            operation_id: this.operation_id,
+            operation: operation,
+            object_type: object_type,
+            object_id: object_id
+        });
+        this.logger = this.baseLogger;
+        this.promise = Promise.resolve().then(() => work(this)).catch(err => {
+            throw this.failure(err);
+        });
+        this.promise.then(result => this.finish({ ok: true, result: result }), err => this.finish({ ok: false, error: `${err}`, reason: errorReason(err) }));
+    }
+
+    public on(event: "stage", listener: (e: StageEvent) => void): this;
+    public on(event: "transfer", listener: (e: TransferEvent) => void): this;
+    public on(event: "location", listener: (e: LocationEvent) => void): this;
+    public on(event: "child", listener: (child: Operation<any>) => void): this;
+    public on(event: "outcome", listener: (e: OutcomeEvent) => void): this;
+    public on(event: string, listener: Function): this {
+        return super.on(event, listener);
+    }
+
+    public then<R>(onfulfilled?: (value: T) => R | PromiseLike<R>, onrejected?: (reason: any) => R | PromiseLike<R>): Promise<R> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    public catch<R>(onrejected: (reason: any) => R | PromiseLike<R>): Promise<T | R> {
+        return this.promise.catch(onrejected);
+    }
+
+    public reportStage(stage: OperationStage): void {
+        this.endStage();
+        this.stage = stage;
+        this.stageStarted = Date.now();
+        this.logger = this.baseLogger.child({ stage: stage });
+        this.emit("stage", this.event({ stage: stage }) as StageEvent);
+    }
+
+    public reportTransfer(direction: TransferDirection): TransferListener {
+        return (transferred, total) => this.emit("transfer",
+            this.event({ direction: direction, transferred: transferred, total: total }) as TransferEvent);
+    }
+
+    public reportLocation(location: string, version: string | null): void {
+        this.emit("location", this.event({ archive_location: location, version: version }) as LocationEvent);
+    }
+
+    public startChild<R>(operation: JobOperation, type: ObjectType, id: number, work: (progress: ProgressReporter) => Promise<R>): Promise<R> {
+        let child = new Operation(operation, type, id, this.baseLogger, work, this.correlation_id);
+        this.emit("child", child);
+        return child.promise;
+    }
+
+    /**
+     * Log the time spent in the current stage, if any
+     */
+    private endStage() {
+        if (this.stage !== null) {
+            let duration = Date.now() - this.stageStarted;
+            this.logger.child({ duration_ms: duration })
+                .debug(() => ["%s of %s %d: %s took %d ms", this.operation, this.object_type, this.object_id, this.stage, duration]);
+        }
+    }
+
+    /**
+     * Return the error of the stage the operation failed in, completed with
+     * the object of the operation unless it is that of a cascaded operation
+     */
+    private failure(err): ArchiveRestoreError {
+        let failure = stageError(err, this.stage);
+        if (failure.object_type === null) {
+            failure.object_type = this.object_type;
+            failure.id = this.object_id;
+        }
+        if (failure.stage === null) {
+            failure.stage = this.stage;
+        }
+        return failure;
+    }
+
+    /**
+     * Log the outcome of the operation and emit it
+     */
+    private finish(outcome: { ok: boolean, result?: any, error?: string, reason?: string }) {
+        this.endStage();
+        let duration = Date.now() - this.started;
+        let logger = this.baseLogger.child({ duration_ms: duration, ok: outcome.ok });
+        if (outcome.ok) {
+            logger.info(() => ["%s of %s %d succeeded in %d ms", this.operation, this.object_type, this.object_id, duration]);
+        } else {
+            logger.warn(() => ["%s of %s %d failed after %d ms: %s", this.operation, this.object_type, this.object_id, duration, outcome.error]);
+        }
+        this.emit("outcome", this.event(_.assign({ duration_ms: duration }, outcome)) as OutcomeEvent);
+    }
+
+    /**
+     * Return the event of this operation with the given details
+     */
+    private event(details: object) {
+        return _.assign({
+            correlation_id: this.correlation_id,
+            operation_id: this.operation_id,
+            operation: this.operation,
+            object_type: this.object_type,
+            object_id: this.object_id
+        }, details);
+    }
+}
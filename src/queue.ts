@@ -0,0 +1,92 @@
+/**
+ * Bounded work queues. An Archiver keeps one queue per kind of heavy work
+ * (pg_dump, pg_restore and transfers to/from archive storage), so a cascade
+ * touching many reports/analyses does not start a process or transfer for
+ * every one of them at once. Work beyond the limit of a queue waits, in
+ * arrival order, for a running one to finish.
+ */
+
+import _ = require('lodash');
+import { BatchItemResult, ConcurrencyConfig } from "./types";
+
+/**
+ * Limits used for the kinds of work not configured in the "concurrency"
+ * section of the configuration
+ */
+export const DEFAULT_CONCURRENCY: ConcurrencyConfig = {
+    dump: 2,
+    restore: 2,
+    transfer: 4
+};
+
+export class WorkQueue {
+
+    private active: number = 0;
+    private waiting: (() => void)[] = [];
+
+    /**
+     * @param{string} name - name of the kind of work, for logging
+     * @param{number} limit - maximum number of pieces of work running at once
+     * @param{Logger} logger - logger
+     */
+    constructor(public readonly name: string, public readonly limit: number, private logger) {
+        if (!(limit >= 1)) {
+            throw new Error(`The ${name} concurrency limit must be at least 1, not ${limit}`);
+        }
+    }
+
+    /**
+     * Return a Promise resolved/rejected as the Promise returned by the
+     * function, which is called once fewer than "limit" pieces of work are
+     * running
+     *
+     * @param{function} f - function starting the work
+     * @return{Promise} Promise of the work
+     */
+    public run<T>(f: () => Promise<T>): Promise<T> {
+        return this.enter()
+            .then(() => f())
+            .then(result => {
+                this.leave();
+                return result;
+            }, err => {
+                this.leave();
+                throw err;
+            });
+    }
+
+    private enter(): Promise<{}> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve({});
+        }
+        this.logger.debug(() => ["%s queue full (%d running), %d waiting", this.name, this.active, this.waiting.length + 1]);
+        return new Promise(resolve => {
+            // The slot is handed over by leave(), so active is not incremented here
+            this.waiting.push(() => resolve({}));
+        });
+    }
+
+    private leave() {
+        let next = this.waiting.shift();
+        if (_.isNil(next)) {
+            this.active--;
+        } else {
+            next();
+        }
+    }
+}
+
+/**
+ * Return a Promise resolved, once the operation has settled for every id,
+ * with the outcome for each id. The Promise is never rejected.
+ *
+ * @param{number[]} ids - ids of the reports/analyses
+ * @param{function} f - operation applied to each id
+ * @return{Promise<BatchItemResult[]>} Promise resolved with one outcome per id, in order
+ */
+export function settleAll<T>(ids: number[], f: (id: number) => Promise<T>): Promise<BatchItemResult<T>[]> {
+    return Promise.all(ids.map(id => f(id)
+        .then(result => ({ id: id, ok: true, result: result }) as BatchItemResult<T>,
+        error => ({ id: id, ok: false, error: error }) as BatchItemResult<T>)));
+}
@@ -0,0 +1,182 @@
+/**
+ * Reconciliation of the DB with archive storage. An archive or restore that
+ * failed partway, and was not brought to an end by resumeJobs(), can leave the
+ * report/analysis rows, the tables of the schema and the objects in archive
+ * storage disagreeing. reconcile() gathers all three, along with the version
+ * history, into a ReconcileInventory, and findDiscrepancies() classifies every
+ * disagreement:
+ *
+ * missing_dump - a row is archived but its dump is not in archive storage
+ * archived_with_tables - a row is archived but its tables still exist, e.g.
+ *     after a restore that died before marking it present
+ * present_without_tables - a row is present but none of its tables exist
+ * orphan_dump - a dump that no row, unpruned version or unfinished job
+ *     refers to, e.g. uploaded by an archive that was rolled back
+ * missing_version - an unpruned version, other than the current archive,
+ *     whose dump is not in archive storage
+ *
+ * Only the discrepancies that can be fixed without losing data are repairable:
+ * an archived_with_tables row is marked present if its tables match the
+ * manifest of its dump, an orphan dump of a versioned archive is deleted, and
+ * a missing_version is marked pruned. Dumps written before archives were
+ * versioned are never deleted: nothing refers to them once their object has
+ * been restored, yet they may be its only backup. Everything is checked again
+ * under the lock of the object before it is repaired.
+ */
+
+import _ = require('lodash');
+import { normalizeLocation } from "./storage";
+import { ArchiveVersion, Discrepancy, DiscrepancyKind, ObjectType } from "./types";
+
+/**
+ * Regular expression matching the names of the tables of every report
+ * (segment_<id>, stats_<id>_*) and analysis (analysis_<id>_*)
+ */
+export const OWNED_TABLES_REGEX = "^(segment_[0-9]+|stats_[0-9]+_.*|analysis_[0-9]+_.*)$";
+
+/**
+ * A report/analysis row as seen by reconcile()
+ */
+export interface ObjectRow {
+    object_type: ObjectType,
+    id: number,
+    archive_location: string | null
+}
+
+/**
+ * Everything reconcile() compares
+ */
+export interface ReconcileInventory {
+    /**
+     * Every report and analysis row
+     */
+    objects: ObjectRow[],
+
+    /**
+     * Names of the tables of the schema matching OWNED_TABLES_REGEX
+     */
+    tables: string[],
+
+    /**
+     * Locations of the objects in archive storage, as listed by the backend
+     */
+    stored: string[],
+
+    /**
+     * Unpruned versions of every report/analysis
+     */
+    versions: ArchiveVersion[],
+
+    /**
+     * Archive locations recorded by unfinished jobs
+     */
+    jobLocations: string[]
+}
+
+/**
+ * Return the report/analysis owning the named table, or null for a table
+ * that belongs to none
+ *
+ * @param{string} name - table name
+ * @return{object} type and id of the owner, or null
+ */
+export function tableOwner(name: string): { object_type: ObjectType, id: number } | null {
+    let m = /^(?:segment_([0-9]+)$|stats_([0-9]+)_)/.exec(name);
+    if (m !== null) {
+        return { object_type: "report", id: parseInt(m[1] || m[2], 10) };
+    }
+    m = /^analysis_([0-9]+)_/.exec(name);
+    return m === null ? null : { object_type: "analysis", id: parseInt(m[1], 10) };
+}
+
+/**
+ * Return the report/analysis whose dump is stored at the given location, and
+ * whether it is a versioned dump, or null if the location holds no dump
+ *
+ * @param{string} location - archive location
+ * @return{object} type, id and versioning of the dump, or null
+ */
+export function dumpObject(location: string): { object_type: ObjectType, id: number, versioned: boolean } | null {
+    let m = /\/(report|analysis)_([0-9]+)(\/[^\/]+)?\.dump$/.exec(location);
+    return m === null ? null : { object_type: m[1] as ObjectType, id: parseInt(m[2], 10), versioned: !_.isNil(m[3]) };
+}
+
+/**
+ * Return the location of the manifest stored next to the dump at the given
+ * location
+ *
+ * @param{string} location - archive location of a dump
+ * @return{string} location of its manifest
+ */
+export function manifestLocation(location: string): string {
+    return location.replace(/\.dump$/, ".manifest.json");
+}
+
+/**
+ * Return every disagreement between the DB and archive storage found in the
+ * inventory
+ *
+ * @param{ReconcileInventory} inventory - rows, tables, stored objects and versions
+ * @return{Discrepancy[]} the discrepancies, none of them repaired yet
+ */
+export function findDiscrepancies(inventory: ReconcileInventory): Discrepancy[] {
+    let stored = new Set(inventory.stored.map(normalizeLocation));
+    let tables = _.groupBy(inventory.tables, name => {
+        let owner = tableOwner(name);
+        return owner === null ? "" : `${owner.object_type} ${owner.id}`;
+    });
+    let latest = _.mapValues(_.groupBy(inventory.versions, v => `${v.object_type} ${v.object_id}`),
+        versions => _.maxBy(versions, "version"));
+    let found: Discrepancy[] = [];
+    let add = (kind: DiscrepancyKind, type: ObjectType | null, id: number | null, location: string | null,
+        owned: string[], detail: string, repairable: boolean) => {
+        found.push({
+            kind: kind, object_type: type, id: id, location: location, tables: owned,
+            detail: detail, repairable: repairable, repaired: false
+        });
+    };
+
+    inventory.objects.forEach(o => {
+        let owned = tables[`${o.object_type} ${o.id}`] || [];
+        if (!_.isNil(o.archive_location)) {
+            if (!stored.has(normalizeLocation(o.archive_location))) {
+                add("missing_dump", o.object_type, o.id, o.archive_location, owned,
+                    `${o.object_type} ${o.id} is archived but its dump is not in archive storage`, false);
+            }
+            if (owned.length > 0) {
+                add("archived_with_tables", o.object_type, o.id, o.archive_location, owned,
+                    `${o.object_type} ${o.id} is archived but ${owned.length} of its tables still exist`, true);
+            }
+        } else if (owned.length === 0) {
+            let v = latest[`${o.object_type} ${o.id}`];
+            add("present_without_tables", o.object_type, o.id, null, owned,
+                `${o.object_type} ${o.id} is present but none of its tables exist` +
+                (_.isNil(v) ? "" : `; its latest archived version is ${v.version} at ${v.archive_location}`), false);
+        }
+    });
+
+    let referenced = new Set(inventory.objects.map(o => o.archive_location)
+        .concat(inventory.versions.map(v => v.archive_location))
+        .concat(inventory.jobLocations)
+        .filter(loc => !_.isNil(loc))
+        .map(normalizeLocation));
+    inventory.stored.map(normalizeLocation).forEach(loc => {
+        let owner = dumpObject(loc);
+        if (owner === null || referenced.has(loc)) {
+            return;
+        }
+        add("orphan_dump", owner.object_type, owner.id, loc, [],
+            owner.versioned ? `dump of ${owner.object_type} ${owner.id} referenced by no row, version or job` :
+                `unversioned dump of ${owner.object_type} ${owner.id} referenced by no row; kept as it may be the only other copy`,
+            owner.versioned);
+    });
+
+    inventory.versions.forEach(v => {
+        if (!v.current && !stored.has(normalizeLocation(v.archive_location))) {
+            add("missing_version", v.object_type, v.object_id, v.archive_location, [],
+                `version ${v.version} of ${v.object_type} ${v.object_id} is not in archive storage`, true);
+        }
+    });
+
+    return found;
+}
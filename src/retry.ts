@@ -0,0 +1,260 @@
+/**
+ * Retries of the steps of archives/restores that failed for a transient
+ * reason, e.g. an S3 5xx or throttling response, or a dropped DB connection.
+ * Each kind of step has its own RetryPolicy, set in the "retry" section of
+ * the configuration: the number of attempts, and the delay before the first
+ * retry, doubled for every further one up to a maximum. Each delay is
+ * jittered, between half and all of it, so that the operations of a batch
+ * that failed together do not retry together.
+ *
+ * isRetryable() tells transient errors from fatal ones, which fail the step
+ * at once. Only steps that can safely be run again are retried:
+ *
+ * storage - whole-file uploads and downloads, which start over from the file
+ *     or into a truncated file, and metadata, size, remove and list requests.
+ *     Streamed uploads/downloads are not retried, as their data cannot be
+ *     read twice.
+ * db - SELECT statements run outside of any transaction. Transactions, e.g.
+ *     the one dropping the tables of an archived report, are never run again,
+ *     as they may have been committed before the connection dropped.
+ *
+ * Every retry is logged and reported to the Retrier's listener, which counts
+ * it in the metrics of the archiver. A storage request that still fails is
+ * rejected with a StorageError (see errors.ts).
+ */
+
+import _ = require('lodash');
+import { ArchiveRestoreError, StorageError } from "./errors";
+import { Logger } from "./logger";
+import { StorageBackend, StreamDownload, StreamUpload } from "./storage";
+import { ObjectMetadata, RetryConfig, RetryPolicy, RetryStep, StorageType, TransferListener } from "./types";
+
+/**
+ * Policies used for the kinds of steps not configured in the "retry" section
+ * of the configuration
+ */
+export const DEFAULT_RETRY: { [step: string]: RetryPolicy } = {
+    storage: { attempts: 4, base_delay_ms: 500, max_delay_ms: 10000 },
+    db: { attempts: 3, base_delay_ms: 200, max_delay_ms: 5000 }
+};
+
+/**
+ * Codes of the network errors raised by node
+ */
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ESOCKETTIMEDOUT"];
+
+/**
+ * Codes of the transient errors returned by S3
+ */
+const S3_ERROR_CODES = [
+    "RequestTimeout", "Throttling", "ThrottlingException", "SlowDown", "RequestLimitExceeded",
+    "TooManyRequestsException", "NetworkingError", "TimeoutError", "InternalError", "ServiceUnavailable"
+];
+
+/**
+ * SQLSTATEs of the transient Postgres errors: connection exceptions (class
+ * 08), server shutting down or starting, too many connections, serialization
+ * failures and deadlocks
+ */
+const PG_ERROR_CODES = /^(08...|57P0[123]|53300|40001|40P01)$/;
+
+/**
+ * Return whether an error is transient, and the step that failed with it
+ * may be retried
+ *
+ * @param{any} err - the error
+ * @return{boolean} true if the error is transient
+ */
+export function isRetryable(err): boolean {
+    if (_.isNil(err) || typeof err !== "object") {
+        return false;
+    }
+    if (err.retryable === true || (typeof err.statusCode === "number" && err.statusCode >= 500)) {
+        return true;
+    }
+    let code = `${err.code || ""}`;
+    return _.includes(NETWORK_ERROR_CODES, code) || _.includes(S3_ERROR_CODES, code) || PG_ERROR_CODES.test(code) ||
+        /Connection terminated|connection (was )?(closed|reset)/i.test(`${err.message}`);
+}
+
+/**
+ * Return the reason a step is retried, for logging and metrics: the code of
+ * the error if it has one, its class otherwise
+ *
+ * @param{any} err - the transient error
+ * @return{string} the reason
+ */
+export function retryReason(err): string {
+    return _.isNil(err.code) ? (err instanceof Error ? err.constructor.name : "Error") : `${err.code}`;
+}
+
+/**
+ * Return the delay before the given retry
+ *
+ * @param{RetryPolicy} policy - policy of the step
+ * @param{number} retry - number of the retry, from 1
+ * @param{function} random - source of random numbers in [0, 1)
+ * @return{number} the delay in milliseconds
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+    let delay = Math.min(policy.max_delay_ms, policy.base_delay_ms * Math.pow(2, retry - 1));
+    return Math.round(delay / 2 + random() * delay / 2);
+}
+
+export class Retrier {
+
+    private policies: { [step: string]: RetryPolicy };
+
+    /**
+     * @param{RetryConfig} config - "retry" section of the configuration
+     * @param{Logger} logger - logger
+     * @param{function} onRetry - called with the step and reason of every retry
+     */
+    constructor(config: RetryConfig | undefined, private logger: Logger,
+        private onRetry: (step: RetryStep, reason: string) => void = () => undefined) {
+        this.policies = _.mapValues(DEFAULT_RETRY, (policy, step) => {
+            let merged: RetryPolicy = _.defaults({}, (config || {})[step], policy);
+            if (!(merged.attempts >= 1)) {
+                throw new Error(`The number of ${step} attempts must be at least 1, not ${merged.attempts}`);
+            }
+            return merged;
+        });
+    }
+
+    /**
+     * Return the Promise returned by the function, calling it again after a
+     * delay while it is rejected with a transient error and attempts remain
+     *
+     * @param{RetryStep} step - kind of the step
+     * @param{string} description - description of the step, for logging
+     * @param{function} f - function running the step
+     * @return{Promise} Promise of the last attempt
+     */
+    public run<T>(step: RetryStep, description: string, f: () => Promise<T>): Promise<T> {
+        let policy = this.policies[step];
+        let attempt = (n: number): Promise<T> => f().catch(err => {
+            if (n >= policy.attempts || !isRetryable(err)) {
+                throw err;
+            }
+            let reason = retryReason(err);
+            let delay = backoffDelay(policy, n);
+            this.logger.warn(() => ["%s failed (attempt %d of %d, %s), retrying in %d ms: %s",
+                description, n, policy.attempts, reason, delay, err]);
+            this.onRetry(step, reason);
+            return new Promise<T>(resolve => setTimeout(() => resolve(attempt(n + 1)), delay));
+        });
+        return attempt(1);
+    }
+}
+
+/**
+ * Return the Promise of a storage request, rejected with a StorageError if
+ * the request fails
+ *
+ * @param{string} description - description of the request
+ * @param{string} location - location or key of the object
+ * @param{Promise} request - Promise of the request
+ * @return{Promise} Promise of the request
+ */
+function storageRequest<T>(description: string, location: string, request: Promise<T>): Promise<T> {
+    return request.catch(err => {
+        throw err instanceof ArchiveRestoreError ? err :
+            new StorageError(`${description} failed: ${err instanceof Error ? err.message : err}`, location, err);
+    });
+}
+
+/**
+ * Storage backend retrying the requests of another backend that can safely
+ * be run again, and failing with StorageErrors
+ */
+export class RetryingStorage implements StorageBackend {
+
+    public readonly scheme: StorageType;
+
+    /**
+     * @param{StorageBackend} backend - backend whose requests are retried
+     * @param{Retrier} retrier - retrier of the "storage" steps
+     */
+    constructor(private backend: StorageBackend, private retrier: Retrier) {
+        this.scheme = backend.scheme;
+    }
+
+    public location(key: string): string {
+        return this.backend.location(key);
+    }
+
+    public upload(fn: string, key: string, metadata?: ObjectMetadata, listener?: TransferListener): Promise<string> {
+        return this.retried(`Upload of ${fn} to ${key}`, key, () => this.backend.upload(fn, key, metadata, listener));
+    }
+
+    public download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return this.retried(`Download of ${location}`, location, () => this.backend.download(location, fn, listener));
+    }
+
+    public metadata(location: string): Promise<ObjectMetadata> {
+        return this.retried(`Metadata request of ${location}`, location, () => this.backend.metadata(location));
+    }
+
+    public size(location: string): Promise<number> {
+        return this.retried(`Size request of ${location}`, location, () => this.backend.size(location));
+    }
+
+    public uploadStream(source: NodeJS.ReadableStream, key: string, metadata?: ObjectMetadata, listener?: TransferListener): StreamUpload {
+        let upload = this.backend.uploadStream(source, key, metadata, listener);
+        return { promise: storageRequest(`Streamed upload to ${key}`, key, upload.promise), abort: upload.abort };
+    }
+
+    public downloadStream(location: string): Promise<StreamDownload> {
+        return storageRequest(`Streamed download of ${location}`, location, this.backend.downloadStream(location));
+    }
+
+    public remove(location: string): Promise<{}> {
+        return this.retried(`Removal of ${location}`, location, () => this.backend.remove(location));
+    }
+
+    public list(prefix: string): Promise<string[]> {
+        return this.retried(`Listing of ${prefix}`, prefix, () => this.backend.list(prefix));
+    }
+
+    private retried<T>(description: string, location: string, f: () => Promise<T>): Promise<T> {
+        return storageRequest(description, location, this.retrier.run("storage", description, f));
+    }
+}
+
+/**
+ * Return whether a query only reads, and may be run again
+ *
+ * @param{any} query - SQL text, or object holding it in "text"
+ * @return{boolean} true for a SELECT that does not lock rows
+ */
+export function isReadOnly(query): boolean {
+    let text = typeof query === "string" ? query : (_.isNil(query) ? "" : `${query.text || ""}`);
+    return /^\s*select\b/i.test(text) && !/\bfor\s+(no\s+key\s+)?(update|share)\b/i.test(text) && !/\binto\b/i.test(text);
+}
+
+/**
+ * Query methods of a pg-promise database that are wrapped by retryingDatabase()
+ */
+const QUERY_METHODS = ["query", "none", "one", "many", "oneOrNone", "manyOrNone", "any", "result"];
+
+/**
+ * Return a pg-promise database retrying its read-only queries. Its tasks and
+ * transactions are those of the database, and are never retried.
+ *
+ * @param{any} db - pg-promise database
+ * @param{Retrier} retrier - retrier of the "db" steps
+ * @return{any} the database retrying its read-only queries
+ */
+export function retryingDatabase<D>(db: D, retrier: Retrier): D {
+    let retrying = Object.create(db as any);
+    QUERY_METHODS.forEach(method => {
+        // The methods of a pg-promise database are read-only, so they cannot be assigned
+        Object.defineProperty(retrying, method, {
+            value: (query, ...args) => isReadOnly(query) ?
+                retrier.run("db", `Query ${_.truncate(typeof query === "string" ? query : query.text, { length: 60 })}`,
+                    () => db[method](query, ...args)) :
+                db[method](query, ...args)
+        });
+    });
+    return retrying;
+}
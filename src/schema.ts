@@ -0,0 +1,298 @@
+/**
+ * Migrations of the bookkeeping columns and tables the archiver relies upon,
+ * in the schema of the "db_connection" configuration. Each migration has a
+ * version, and the versions applied to a database are recorded in the
+ * archive_schema_version table:
+ *
+ * create table archive_schema_version (
+ *     version integer primary key,
+ *     description text not null,
+ *     applied timestamp with time zone not null default now()
+ * );
+ *
+ * ensureSchema() applies the migrations a database lacks, in order, in one
+ * transaction holding an advisory lock, so processes starting together do not
+ * apply them twice. The migrations only add what is missing, so they can be
+ * applied to a database whose columns and tables were created by hand before
+ * migrations were tracked.
+ *
+ * check() rejects with a SchemaError unless every migration is applied, and
+ * every column the archiver reads and writes exists. An Archiver checks the
+ * schema before its first operation, and refuses to run if the check fails,
+ * unless "schema.check" is false in the configuration. With "schema.migrate"
+ * set, it applies the missing migrations instead.
+ */
+
+import _ = require('lodash');
+import * as pgPromise from 'pg-promise';
+import { SchemaError } from "./errors";
+import { Logger } from "./logger";
+import { PreparedStatement, SchemaMigration, SchemaMigrationResult } from "./types";
+let squel = require("squel").useFlavour("postgres");
+
+const pgp: pgPromise.IMain = pgPromise();
+
+/**
+ * Key of the advisory lock held while migrations are applied, next to the
+ * LOCK_CLASSES of locks.ts
+ */
+export const SCHEMA_LOCK_CLASS = 0x74610000;
+
+/**
+ * Every migration, in the order in which they are applied. The statements
+ * are formatted with the schema as $1.
+ */
+export const MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        description: "archive bookkeeping columns of report and analysis",
+        statements: _.flatMap(["report", "analysis"], table => [
+            `alter table $1~.${table} add column if not exists archive_location text default null`,
+            `alter table $1~.${table} add column if not exists archive_timestamp timestamp with time zone default null`,
+            `alter table $1~.${table} add column if not exists archive_checksum text default null`,
+            `alter table $1~.${table} add column if not exists restore_timestamp timestamp with time zone default null`
+        ])
+    },
+    {
+        version: 2,
+        description: "archive_job ledger (see jobs.ts)",
+        statements: [
+            "create table if not exists $1~.archive_job (" +
+            "id serial primary key, " +
+            "parent integer default null references $1~.archive_job(id), " +
+            "operation text not null, " +
+            "object_type text not null, " +
+            "object_id integer not null, " +
+            "stage text not null, " +
+            "archive_location text default null, " +
+            "error text default null, " +
+            "created timestamp with time zone not null default now(), " +
+            "updated timestamp with time zone not null default now())"
+        ]
+    },
+    {
+        version: 3,
+        description: "archive_version history (see versions.ts)",
+        statements: [
+            "create table if not exists $1~.archive_version (" +
+            "id serial primary key, " +
+            "object_type text not null, " +
+            "object_id integer not null, " +
+            "version text not null, " +
+            "archive_location text not null, " +
+            "manifest_location text default null, " +
+            "archive_checksum text default null, " +
+            "created timestamp with time zone not null default now(), " +
+            "pruned timestamp with time zone default null, " +
+            "unique (object_type, object_id, version))"
+        ]
+    },
+    {
+        version: 4,
+        description: "archive_history audit table (see history.ts)",
+        statements: [
+            "create table if not exists $1~.archive_history (" +
+            "id serial primary key, " +
+            "operation_id text not null, " +
+            "correlation_id text not null, " +
+            "parent_operation_id text default null, " +
+            "operation text not null, " +
+            "object_type text not null, " +
+            "object_id integer not null, " +
+            "initiator text default null, " +
+            "started timestamp with time zone not null, " +
+            "finished timestamp with time zone not null, " +
+            "bytes bigint not null default 0, " +
+            "archive_location text default null, " +
+            "version text default null, " +
+            "ok boolean not null, " +
+            "error text default null, " +
+            "reason text default null)",
+            "create index if not exists archive_history_object on $1~.archive_history (object_type, object_id, started)"
+        ]
+    }
+];
+
+/**
+ * Version of the schema this library expects
+ */
+export const SCHEMA_VERSION = _.max(MIGRATIONS.map(m => m.version));
+
+/**
+ * Columns read or written by the archiver, by table
+ */
+export const EXPECTED_COLUMNS: { [table: string]: string[] } = {
+    report: ["id", "archive_location", "archive_timestamp", "archive_checksum", "restore_timestamp"],
+    analysis: ["id", "archive_location", "archive_timestamp", "archive_checksum", "restore_timestamp"],
+    archive_job: ["id", "parent", "operation", "object_type", "object_id", "stage", "archive_location", "error", "created", "updated"],
+    archive_version: ["id", "object_type", "object_id", "version", "archive_location", "manifest_location",
+        "archive_checksum", "created", "pruned"],
+    archive_history: ["id", "operation_id", "correlation_id", "parent_operation_id", "operation", "object_type", "object_id",
+        "initiator", "started", "finished", "bytes", "archive_location", "version", "ok", "error", "reason"]
+};
+
+/**
+ * Return the columns of EXPECTED_COLUMNS missing from those found
+ *
+ * @param{object[]} found - table_name and column_name of every column of the schema
+ * @return{string[]} the missing columns, as "table.column"
+ */
+export function missingColumns(found: { table_name: string, column_name: string }[]): string[] {
+    let present = new Set(found.map(c => `${c.table_name}.${c.column_name}`));
+    return _.flatMap(_.keys(EXPECTED_COLUMNS), table => EXPECTED_COLUMNS[table].map(column => `${table}.${column}`))
+        .filter(column => !present.has(column));
+}
+
+export class SchemaManager {
+
+    /**
+      Create the archive_schema_version table unless it exists
+      */
+    private create_versions_sql: PreparedStatement;
+
+    /**
+      Select the applied versions
+      */
+    private applied_versions_sql: PreparedStatement;
+
+    /**
+      Record that a migration has been applied
+
+      @param{number} $1 - version
+      @param{string} $2 - description
+      */
+    private record_version_sql: PreparedStatement;
+
+    /**
+      Count the archive_schema_version tables of a schema
+
+      @param{string} $1 - schema
+      */
+    private versions_table_sql: PreparedStatement;
+
+    /**
+      Select the table_name and column_name of the columns of the given tables
+
+      @param{string} $1 - schema
+      @param{string[]} $2 - table names
+      */
+    private columns_sql: PreparedStatement;
+
+    /**
+     * @param{IDatabase} db - the database
+     * @param{string} schema - schema holding the trafficstats tables
+     * @param{Logger} logger - logger
+     */
+    constructor(private db: pgPromise.IDatabase<any>, private schema: string, private logger: Logger) {
+        this.create_versions_sql = pgp.as.format("create table if not exists $1~.archive_schema_version (" +
+            "version integer primary key, " +
+            "description text not null, " +
+            "applied timestamp with time zone not null default now())", schema);
+
+        this.applied_versions_sql = squel.select()
+            .from(`${schema}.archive_schema_version`)
+            .field("version")
+            .order("version")
+            .toString();
+
+        this.record_version_sql = squel.insert()
+            .into(`${schema}.archive_schema_version`)
+            .set("version", "?", { dontQuote: true })
+            .set("description", "?", { dontQuote: true })
+            .toString();
+
+        this.versions_table_sql = squel.select()
+            .from("information_schema.tables")
+            .field("count(*)::int", "n")
+            .where("table_schema = ?")
+            .where("table_name = 'archive_schema_version'")
+            .toParam()
+            .text;
+
+        this.columns_sql = squel.select()
+            .from("information_schema.columns")
+            .field("table_name")
+            .field("column_name")
+            .where("table_schema = $1")
+            .where("table_name in ($2:csv)")
+            .toString();
+    }
+
+    /**
+     * Return a Promise resolved with the version of the schema, 0 if no
+     * migration was ever applied
+     *
+     * @return{Promise<number>} Promise resolved with the highest applied version
+     */
+    public version(): Promise<number> {
+        return this.appliedVersions(this.db).then(versions => _.max(versions) || 0);
+    }
+
+    /**
+     * Return a Promise resolved once the schema holds everything this library
+     * expects, rejected with a SchemaError otherwise
+     *
+     * @return{Promise} Promise resolved when the schema is as expected
+     */
+    public check(): Promise<{}> {
+        return this.version()
+            .then(version => {
+                if (version > SCHEMA_VERSION) {
+                    throw new SchemaError(`The ${this.schema} schema is at version ${version}, newer than the version ${SCHEMA_VERSION} ` +
+                        `this library supports`, version);
+                }
+                if (version < SCHEMA_VERSION) {
+                    throw new SchemaError(`The ${this.schema} schema is at version ${version}, not ${SCHEMA_VERSION}: ` +
+                        `apply the missing migrations with ensureSchema() or "ts-archive-restore migrate"`, version);
+                }
+                return this.db.any(this.columns_sql, [this.schema, _.keys(EXPECTED_COLUMNS)])
+                    .then(columns => {
+                        let missing = missingColumns(columns);
+                        if (missing.length > 0) {
+                            throw new SchemaError(`The ${this.schema} schema lacks the columns ${missing.join(", ")}`, version);
+                        }
+                        this.logger.debug(() => ["The %s schema is at version %d", this.schema, version]);
+                        return {};
+                    });
+            });
+    }
+
+    /**
+     * Apply the migrations missing from the schema
+     *
+     * @return{Promise<SchemaMigrationResult>} Promise resolved with the versions before and after, and the migrations applied
+     */
+    public ensureSchema(): Promise<SchemaMigrationResult> {
+        return this.db.tx(t => t.one("select pg_advisory_xact_lock($1, 0)", SCHEMA_LOCK_CLASS)
+            .then(() => t.none(this.create_versions_sql))
+            .then(() => this.appliedVersions(t))
+            .then((versions: number[]) => {
+                let from = _.max(versions) || 0;
+                if (from > SCHEMA_VERSION) {
+                    throw new SchemaError(`The ${this.schema} schema is at version ${from}, newer than the version ${SCHEMA_VERSION} ` +
+                        `this library supports`, from);
+                }
+                let pending = MIGRATIONS.filter(m => !_.includes(versions, m.version));
+                return pending.reduce((p, m) => p
+                    .then(() => {
+                        this.logger.info(() => ["Applying migration %d to the %s schema: %s", m.version, this.schema, m.description]);
+                        return t.none(m.statements.map(s => pgp.as.format(s, this.schema)).join(";\n"));
+                    })
+                    .then(() => t.none(this.record_version_sql, [m.version, m.description])), Promise.resolve())
+                    .then(() => ({
+                        from_version: from,
+                        to_version: SCHEMA_VERSION,
+                        applied: pending.map(m => ({ version: m.version, description: m.description }))
+                    }));
+            }));
+    }
+
+    /**
+     * Return a Promise resolved with the applied versions, none if the
+     * archive_schema_version table does not exist
+     */
+    private appliedVersions(db): Promise<number[]> {
+        return db.one(this.versions_table_sql, this.schema)
+            .then(r => r.n === 0 ? [] : db.any(this.applied_versions_sql).then(rows => rows.map(row => row.version)));
+    }
+}
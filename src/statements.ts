@@ -0,0 +1,471 @@
+/**
+ * Prepared statements used by an Archiver. They are built for the schema
+ * holding the trafficstats tables, so each Archiver builds its own set.
+ *
+ * The schema name is spliced into SQL statements and pg_dump table patterns,
+ * where quoting it would also change how it is matched, so it must be a plain
+ * lower case identifier (see validateIdentifier).
+ */
+
+import _ = require('lodash');
+import { PreparedStatement } from "./types";
+let squel = require("squel").useFlavour("postgres");
+
+/**
+ * Return the name if it is an identifier that needs no quoting in SQL or in
+ * pg_dump patterns: lower case letters, digits, "_" and "$", not starting with
+ * a digit or "$", at most 63 characters. Throw otherwise.
+ *
+ * @param{string} name - the identifier
+ * @param{string} what - what the identifier names, for the error message
+ * @return{string} the name
+ */
+export function validateIdentifier(name: string, what: string): string {
+    if (!_.isString(name) || !/^[a-z_][a-z0-9_$]{0,62}$/.test(name)) {
+        throw new Error(`Invalid ${what} name ${JSON.stringify(name)}: only lower case letters, digits, "_" and "$" are allowed`);
+    }
+    return name;
+}
+
+export class Statements {
+
+    /**
+      Prepared statement to reset the S3 location of an un-archived report
+
+      @param{any} $1 - new archive_location (should be null)
+      @param{any} $2 - new archive timestamp (should be null)
+      @param{any} $3 - new restore timestamp (should be "now()")
+      @param{number} $4 - report id
+      */
+    public reset_report_s3_location_sql: PreparedStatement;
+
+    /**
+      Prepared statement to reset the S3 location of an un-archived analysis
+
+      @param{any} $1 - new archive_location (should be null)
+      @param{any} $2 - new archive timestamp (should be null)
+      @param{any} $3 - new restore timestamp (should be "now()")
+      @param{number} $4 - analysis id
+      */
+    public reset_analysis_s3_location_sql: PreparedStatement;
+
+    /**
+      The two statements above, by object type
+      */
+    public reset_s3_location_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select used to validate that an analysis has not been archived.            
+
+      @param{number} $1 - analysis id
+      */
+    public validate_analysis_archived_sql: PreparedStatement;
+
+    /**
+      Select used to validate that a report has not been archived.            
+
+      @param{number} $1 - report id
+      */
+    public validate_report_present_sql: PreparedStatement;
+
+    /**
+      Select used to validate that an analysis has not been archived.
+
+      @param{number} $1 - analysis id
+      */
+    public validate_analysis_present_sql: PreparedStatement;
+
+    /**
+      Prepared statement to retrieve the S3 location of an archived analysis
+
+      @param{number} $1 - analysis id
+      */
+    public analysis_s3_location_sql: PreparedStatement;
+
+    /**
+      Prepared statement to retrieve the S3 location of an archived report
+
+      @param{number} $1 - report id
+      */
+    public report_s3_location_sql: PreparedStatement;
+
+    /**
+      Select the checksum of the dump of an archived report/analysis, by object type
+
+      @param{number} $1 - report/analysis id
+      */
+    public checksum_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Prepared statement to retrieve all non-archived analysis ids dependent upon
+      a given report id.
+
+      @param{number} $1 - report id
+      */
+    public analyses_by_report_sql: PreparedStatement;
+
+    /** 
+      Prepared statement to retrieve all archived reports upon which
+      a given analysis depends.
+
+      @param{number} $1 - analysis id
+      */
+    public reports_by_analysis_sql: PreparedStatement;
+
+    /**
+      Select the tables (and sequences) of the configured schema whose names
+      match a regular expression, along with their relkind ('S' for a
+      sequence) and total on-disk size (including indexes and TOAST data)
+
+      @param{string} $1 - schema
+      @param{string} $2 - regular expression matched against table names
+      */
+    public tables_matching_sql: PreparedStatement;
+
+    /**
+      Select the column signatures of the named tables of the configured schema,
+      in column order
+
+      @param{string} $1 - schema
+      @param{string[]} $2 - table names
+      */
+    public columns_sql: PreparedStatement;
+
+    /**
+      Select the analysis/report dependency edges of a report/analysis, by
+      object type
+
+      @param{number} $1 - report/analysis id
+      */
+    public dependencies_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select the version of the DB server, e.g. "16.2", and its
+      server_version_num, e.g. 160002
+
+      */
+    public server_version_sql: PreparedStatement;
+
+    /**
+      Select the archive state of a report/analysis, by object type
+
+      @param{number} $1 - report/analysis id
+      */
+    public status_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select a page of the archive states of the archived reports/analyses
+      matching the filters, by object type. A null filter matches everything.
+
+      @param{Date} $1 - only those archived at or after this time
+      @param{Date} $2 - only those archived before this time
+      @param{string} $3 - only those whose archive location starts with this prefix
+      @param{number} $4 - maximum number of rows
+      @param{number} $5 - number of rows skipped
+      */
+    public archived_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Count the archived reports/analyses matching the filters of
+      archived_sql, by object type
+
+      @param{Date} $1 - only those archived at or after this time
+      @param{Date} $2 - only those archived before this time
+      @param{string} $3 - only those whose archive location starts with this prefix
+      */
+    public archived_count_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select the archive state of the neighbours of a report/analysis through
+      analysis_report (the analyses depending on a report, the reports an
+      analysis depends on), by object type
+
+      @param{number} $1 - report/analysis id
+      */
+    public neighbours_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select the id and archive location of every report/analysis, by object type
+
+      */
+    public objects_sql: { [type: string]: PreparedStatement };
+
+    /**
+      Select all reports that have not been archived
+
+      */
+    public present_reports_sql: PreparedStatement;
+
+    /**
+      Select the number of days since any stats table of a report was last
+      scanned (null if never). Scan times are only tracked by Postgres 16 and
+      later, older servers fail it.
+
+      @param{string} $1 - schema
+      @param{string} $2 - regular expression matched against the report's table names
+      */
+    public report_idle_sql: PreparedStatement;
+
+    /**
+      Select the total on-disk size of all of the tables of a report
+
+      @param{string} $1 - schema
+      @param{string} $2 - regular expression matched against the report's table names
+      */
+    public report_size_sql: PreparedStatement;
+
+    constructor(schema: string) {
+        validateIdentifier(schema, "schema");
+        this.reset_report_s3_location_sql = squel.update()
+            .table(`${schema}.report`)
+            .set("archive_location", null)
+            .set("archive_timestamp", null)
+            .set("archive_checksum = null")
+            .set("restore_timestamp", "now()")
+            .where("id=?")
+            .toParam()
+            .text;
+
+        this.reset_analysis_s3_location_sql = squel.update()
+            .table(`${schema}.analysis`)
+            .set("archive_location", null)
+            .set("archive_timestamp", null)
+            .set("archive_checksum = null")
+            .set("restore_timestamp", "now()")
+            .where("id=?")
+            .toParam()
+            .text;
+
+        this.reset_s3_location_sql = {
+            report: this.reset_report_s3_location_sql,
+            analysis: this.reset_analysis_s3_location_sql
+        };
+
+        this.validate_analysis_archived_sql = squel.select()
+            .from(`${schema}.analysis`)
+            .field("archive_location")
+            .where(
+            squel.expr()
+                .and("archive_location is not null")
+                .and("id=?")
+            )
+            .toParam()
+            .text;
+
+        this.validate_report_present_sql = squel.select()
+            .from(`${schema}.report`)
+            .field("archive_location")
+            .where(
+            squel.expr()
+                .and("archive_location is null")
+                .and("id=?")
+            )
+            .toParam()
+            .text;
+
+        this.validate_analysis_present_sql = squel.select()
+            .from(`${schema}.analysis`)
+            .field("archive_location")
+            .where(
+            squel.expr()
+                .and("archive_location is null")
+                .and("id=?")
+            )
+            .toParam()
+            .text;
+
+        this.analysis_s3_location_sql = squel.select()
+            .from(`${schema}.analysis`)
+            .field("archive_location")
+            .where(
+            squel.expr()
+                .and("archive_location is not null")
+                .and("id=?")
+            )
+            .toParam()
+            .text;
+
+        this.report_s3_location_sql = squel.select()
+            .from(`${schema}.report`)
+            .field("archive_location")
+            .where(
+            squel.expr()
+                .and("archive_location is not null")
+                .and("id=?")
+            )
+            .toParam()
+            .text;
+
+        this.checksum_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            squel.select()
+                .from(`${schema}.${type}`)
+                .field("archive_checksum")
+                .where(
+                squel.expr()
+                    .and("archive_location is not null")
+                    .and("id=?")
+                )
+                .toParam()
+                .text
+        ]));
+
+        this.analyses_by_report_sql = squel.select()
+            .from(`${schema}.analysis_report`, "j")
+            .field("j.analysis")
+            .distinct()
+            .join(`${schema}.analysis`, "a", "j.analysis = a.id")
+            .where(
+            squel.expr()
+                .and("a.archive_location is null")
+                .and("j.report=?")
+            )
+            .toParam()
+            .text;
+
+        this.reports_by_analysis_sql = squel.select()
+            .from(`${schema}.analysis_report`, "j")
+            .field("report")
+            .distinct()
+            .join(`${schema}.report`, "r", "j.report = r.id")
+            .where(
+            squel.expr()
+                .and("r.archive_location is not null")
+                .and("j.analysis=?")
+            )
+            .toParam()
+            .text;
+
+        this.tables_matching_sql = squel.select()
+            .from("pg_class", "c")
+            .field("c.relname", "name")
+            .field("c.relkind", "kind")
+            .field("pg_total_relation_size(c.oid)", "bytes")
+            .join("pg_namespace", "n", "n.oid = c.relnamespace")
+            .where(
+            squel.expr()
+                .and("c.relkind in ('r', 'p', 'v', 'm', 'f', 'S')")
+                .and("n.nspname=?")
+                .and("c.relname ~ ?")
+            )
+            .order("c.relname")
+            .toParam()
+            .text;
+
+        this.columns_sql = squel.select()
+            .from("information_schema.columns")
+            .field("table_name", "name")
+            .field("column_name || ' ' || data_type", "signature")
+            .where(
+            squel.expr()
+                .and("table_schema=?")
+                .and("table_name = any(?)")
+            )
+            .order("table_name")
+            .order("ordinal_position")
+            .toParam()
+            .text;
+
+        this.dependencies_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            squel.select()
+                .from(`${schema}.analysis_report`)
+                .field("analysis")
+                .field("report")
+                .where(`${type}=?`)
+                .order("analysis")
+                .order("report")
+                .toParam()
+                .text
+        ]));
+
+        this.server_version_sql = squel.select()
+            .field("current_setting('server_version')", "server_version")
+            .field("current_setting('server_version_num')::integer", "server_version_num")
+            .toString();
+
+        this.status_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            squel.select()
+                .from(`${schema}.${type}`)
+                .field("id")
+                .field("archive_location")
+                .field("archive_checksum")
+                .field("archive_timestamp")
+                .field("restore_timestamp")
+                .where("id=?")
+                .toParam()
+                .text
+        ]));
+
+        let archived = (type: string) => squel.select()
+            .from(`${schema}.${type}`)
+            .where("archive_location is not null")
+            .where("($1::timestamptz is null or archive_timestamp >= $1::timestamptz)")
+            .where("($2::timestamptz is null or archive_timestamp < $2::timestamptz)")
+            .where("($3::text is null or left(archive_location, length($3::text)) = $3::text)");
+
+        this.archived_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            archived(type)
+                .field("id")
+                .field("archive_location")
+                .field("archive_checksum")
+                .field("archive_timestamp")
+                .field("restore_timestamp")
+                .order("id")
+                .toString() + " limit $4 offset $5"
+        ]));
+
+        this.archived_count_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            archived(type)
+                .field("count(*)", "total")
+                .toString()
+        ]));
+
+        this.objects_sql = _.fromPairs(["report", "analysis"].map(type => [type,
+            squel.select()
+                .from(`${schema}.${type}`)
+                .field("id")
+                .field("archive_location")
+                .order("id")
+                .toString()
+        ]));
+
+        this.neighbours_sql = _.fromPairs([["report", "analysis"], ["analysis", "report"]].map(([type, other]) => [type,
+            squel.select()
+                .from(`${schema}.analysis_report`, "ar")
+                .join(`${schema}.${other}`, "o", `o.id = ar.${other}`)
+                .field("o.id")
+                .field("o.archive_location")
+                .field("o.archive_checksum")
+                .field("o.archive_timestamp")
+                .field("o.restore_timestamp")
+                .where(`ar.${type} = ?`)
+                .order("o.id")
+                .toParam()
+                .text
+        ]));
+
+        this.present_reports_sql = squel.select()
+            .from(`${schema}.report`)
+            .field("id")
+            .where("archive_location is null")
+            .order("id")
+            .toString();
+
+        let reportTables = squel.select()
+            .from("pg_stat_user_tables", "s")
+            .where(
+            squel.expr()
+                .and("s.schemaname=?")
+                .and("s.relname ~ ?")
+            );
+
+        this.report_idle_sql = reportTables.clone()
+            .field("extract(epoch from now() - max(greatest(s.last_seq_scan, s.last_idx_scan)) filter (where s.relname ~ '^stats_')) / 86400", "idle_days")
+            .toParam()
+            .text;
+
+        this.report_size_sql = reportTables.clone()
+            .field("coalesce(sum(pg_total_relation_size(s.relid)), 0)", "total_bytes")
+            .toParam()
+            .text;
+    }
+}
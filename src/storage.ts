@@ -0,0 +1,792 @@
+/**
+ * Archive storage backends. A backend knows how to store a local dump file
+ * under a key and how to fetch it back given the location string it returned
+ * at upload time. The location is what gets written to the "archive_location"
+ * column of the report/analysis tables, and it is prefixed with the scheme of
+ * the backend that holds the dump, e.g.
+ *
+ *      s3://bucket/trafficstats_internal/public/report_74.dump
+ *      file:///var/archive/trafficstats_internal/public/report_74.dump
+ *      memory://trafficstats_internal/public/report_74.dump
+ *
+ * Locations written before backends existed have no scheme and are of the
+ * form "bucket/key". Those are treated as S3 locations.
+ *
+ * Every backend also keeps a small set of string metadata with each object
+ * (e.g. the checksum of the dump, see integrity.ts).
+ *
+ * Besides files, backends store and retrieve streams, so that a dump can be
+ * piped from pg_dump to storage and from storage to pg_restore without being
+ * held on disk or in memory. Stream transfers can be aborted, discarding
+ * whatever was partially stored.
+ *
+ * Uploads and downloads report the bytes transferred to an optional
+ * TransferListener, along with the size of the transfer when it is known.
+ */
+
+import aws = require('aws-sdk');
+import fs = require('fs');
+import path = require('path');
+import stream = require('stream');
+import _ = require('lodash');
+import { Config, ObjectMetadata, StorageType, TransferListener } from "./types";
+
+/**
+ * A stream being stored by a backend
+ */
+export interface StreamUpload {
+    /**
+     * Promise resolved with the location of the stored object once the
+     * stream has ended and been stored
+     */
+    promise: Promise<string>,
+
+    /**
+     * Stop the transfer and discard what has been stored
+     */
+    abort(): void
+}
+
+/**
+ * A stream of an object being retrieved by a backend
+ */
+export interface StreamDownload {
+    /**
+     * Contents of the object
+     */
+    stream: NodeJS.ReadableStream,
+
+    /**
+     * Stop the transfer
+     */
+    abort(): void
+}
+
+/**
+ * Interface implemented by all storage backends
+ */
+export interface StorageBackend {
+    /**
+     * Scheme prefixed to every location produced by this backend
+     */
+    readonly scheme: StorageType;
+
+    /**
+     * Return the location at which an object stored under the given key is held
+     *
+     * @param{string} key - key of the object
+     * @return{string} location of the object
+     */
+    location(key: string): string;
+
+    /**
+     * Store the specified file under the given key
+     *
+     * @param{string} fn - file to be stored
+     * @param{string} key - key under which the file is stored
+     * @param{ObjectMetadata} metadata - metadata stored along with the object
+     * @param{TransferListener} listener - reported the bytes uploaded
+     * @return{Promise<string>} Promise resolved with the location of the stored object
+     */
+    upload(fn: string, key: string, metadata?: ObjectMetadata, listener?: TransferListener): Promise<string>;
+
+    /**
+     * Retrieve the object at the given location into the specified file
+     *
+     * @param{string} location - location previously returned by upload()
+     * @param{string} fn - file to contain the retrieved object
+     * @param{TransferListener} listener - reported the bytes downloaded
+     * @return{Promise} Promise resolved when the object has been written to the file
+     */
+    download(location: string, fn: string, listener?: TransferListener): Promise<{}>;
+
+    /**
+     * Retrieve the metadata stored along with the object at the given location
+     *
+     * @param{string} location - location previously returned by upload()
+     * @return{Promise<ObjectMetadata>} Promise resolved with the metadata
+     */
+    metadata(location: string): Promise<ObjectMetadata>;
+
+    /**
+     * Return the size in bytes of the object at the given location
+     *
+     * @param{string} location - location previously returned by upload()
+     * @return{Promise<number>} Promise resolved with the size of the object
+     */
+    size(location: string): Promise<number>;
+
+    /**
+     * Start storing the data of the stream under the given key
+     *
+     * @param{ReadableStream} source - data to be stored
+     * @param{string} key - key under which the data is stored
+     * @param{ObjectMetadata} metadata - metadata stored along with the object
+     * @param{TransferListener} listener - reported the bytes uploaded
+     * @return{StreamUpload} the transfer
+     */
+    uploadStream(source: NodeJS.ReadableStream, key: string, metadata?: ObjectMetadata, listener?: TransferListener): StreamUpload;
+
+    /**
+     * Start retrieving the object at the given location as a stream
+     *
+     * @param{string} location - location previously returned by upload()
+     * @return{Promise<StreamDownload>} Promise resolved with the transfer
+     */
+    downloadStream(location: string): Promise<StreamDownload>;
+
+    /**
+     * Delete the object at the given location, along with its metadata.
+     * Deleting an object that does not exist succeeds.
+     *
+     * @param{string} location - location previously returned by upload()
+     * @return{Promise} Promise resolved when the object has been deleted
+     */
+    remove(location: string): Promise<{}>;
+
+    /**
+     * Return the locations of all objects stored under keys starting with the
+     * given prefix
+     *
+     * @param{string} prefix - key prefix
+     * @return{Promise<string[]>} Promise resolved with the locations, in key order
+     */
+    list(prefix: string): Promise<string[]>;
+}
+
+export interface ParsedLocation {
+    scheme: StorageType,
+    path: string
+}
+
+/**
+ * Split an archive location into its scheme and the backend specific path.
+ * Legacy locations without a scheme are assumed to be "bucket/key" S3 locations.
+ *
+ * @param{string} location - value of an archive_location column
+ * @return{ParsedLocation} scheme and path of the location
+ */
+export function parseLocation(location: string): ParsedLocation {
+    let m = /^([a-z0-9]+):\/\/(.*)$/.exec(location);
+    if (m === null) {
+        return { scheme: "s3", path: location };
+    }
+    return { scheme: m[1] as StorageType, path: m[2] };
+}
+
+/**
+ * Return the location in the form produced by the backends, so that legacy
+ * locations compare equal to the locations listed by S3Storage
+ *
+ * @param{string} location - value of an archive_location column
+ * @return{string} the location prefixed with its scheme
+ */
+export function normalizeLocation(location: string): string {
+    let parsed = parseLocation(location);
+    return `${parsed.scheme}://${parsed.path}`;
+}
+
+/**
+ * Validate that the location belongs to the specified backend and return
+ * the backend specific path portion of it.
+ */
+function locationPath(backend: StorageBackend, location: string): Promise<string> {
+    let parsed = parseLocation(location);
+    if (parsed.scheme !== backend.scheme) {
+        return Promise.reject(new Error(`Location ${location} is not held by the ${backend.scheme} storage backend`));
+    }
+    return Promise.resolve(parsed.path);
+}
+
+/**
+ * Report the bytes read from the stream to the listener, if any, as they go
+ * by. Must be called in the tick in which the stream is piped.
+ *
+ * @param{ReadableStream} rd - stream being transferred
+ * @param{number} total - size of the transfer, null if it is not known
+ * @param{TransferListener} listener - listener reported the bytes transferred
+ */
+export function countTransfer(rd: NodeJS.ReadableStream, total: number | null, listener?: TransferListener) {
+    if (_.isNil(listener)) {
+        return;
+    }
+    let transferred = 0;
+    rd.on("data", (chunk: Buffer) => {
+        transferred += chunk.length;
+        listener(transferred, total);
+    });
+}
+
+/**
+ * Create the directory and any missing parents
+ */
+function mkdirs(dir: string) {
+    if (!fs.existsSync(dir)) {
+        mkdirs(path.dirname(dir));
+        fs.mkdirSync(dir);
+    }
+}
+
+/**
+ * Return a promise resolved when the file "from" has been copied to "to",
+ * reporting the bytes copied to the listener, if any
+ */
+function copyFile(from: string, to: string, listener?: TransferListener): Promise<{}> {
+    return new Promise((resolve, reject) => {
+        let rd = fs.createReadStream(from);
+        let wr = fs.createWriteStream(to);
+        rd.on("error", reject);
+        wr.on("error", reject);
+        wr.on("finish", () => resolve());
+        countTransfer(rd, _.isNil(listener) ? null : fs.statSync(from).size, listener);
+        rd.pipe(wr);
+    });
+}
+
+/**
+ * Return a promise resolved with the contents of the file
+ */
+function readFile(fn: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        fs.readFile(fn, (err, data) => err ? reject(err) : resolve(data));
+    });
+}
+
+/**
+ * Return a promise resolved when the data has been written to the file
+ */
+function writeFile(fn: string, data: string | Buffer): Promise<{}> {
+    return new Promise((resolve, reject) => {
+        fs.writeFile(fn, data, err => err ? reject(err) : resolve());
+    });
+}
+
+/**
+ * Return a promise resolved when the file has been deleted, or if it did not exist
+ */
+function unlinkIfExists(fn: string): Promise<{}> {
+    return new Promise((resolve, reject) => {
+        fs.unlink(fn, err => err && err.code !== "ENOENT" ? reject(err) : resolve());
+    });
+}
+
+/**
+ * Return a promise resolved with the paths of all files below the directory,
+ * or none if it does not exist
+ */
+function listFiles(dir: string): Promise<string[]> {
+    return new Promise<string[]>((resolve, reject) => {
+        fs.readdir(dir, (err, names) => err ? (err.code === "ENOENT" ? resolve([]) : reject(err)) : resolve(names));
+    })
+        .then(names => Promise.all(names.map(name => new Promise<string[]>((resolve, reject) => {
+            let p = path.join(dir, name);
+            fs.stat(p, (err, stats) => err ? reject(err) : resolve(stats.isDirectory() ? listFiles(p) : [p]));
+        }))))
+        .then(lists => _.flatten(lists));
+}
+
+const METADATA_SUFFIX = ".metadata.json";
+
+/**
+ * Path of the file holding the metadata of an object stored by FileStorage
+ */
+function metadataPath(target: string): string {
+    return `${target}${METADATA_SUFFIX}`;
+}
+
+/**
+ * Report the progress of an S3 upload to the listener, if any. The size of
+ * a streamed upload is not known.
+ */
+function reportUploadProgress(upload: aws.S3.ManagedUpload, listener?: TransferListener) {
+    if (!_.isNil(listener)) {
+        upload.on("httpUploadProgress", progress => listener(progress.loaded, _.isNil(progress.total) ? null : progress.total));
+    }
+}
+
+/**
+ * Backend storing dumps in an AWS S3 bucket
+ */
+export class S3Storage implements StorageBackend {
+
+    public readonly scheme: StorageType = "s3";
+
+    constructor(private bucket: string, private logger, private s3: aws.S3 = new aws.S3()) { }
+
+    public location(key: string): string {
+        return `s3://${this.bucket}/${key}`;
+    }
+
+    public upload(fn: string, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.logger.debug(() => ["Initiaing upload of S3 object %s/%s from %s", this.bucket, key, fn]);
+            let opts = {
+                flags: 'r',
+                encoding: null,
+                fd: null,
+                mode: 0o666,
+                autoClose: true
+            }
+            let stream = fs.createReadStream(fn, opts);
+            let upload = this.s3.upload({
+                'Bucket': this.bucket,
+                'Key': key,
+                'Body': stream,
+                'Metadata': metadata
+            }, {
+                    partSize: 10 * 1024 * 1024,
+                    queueSize: 1
+                }, (err, data) => {
+                    if (err) {
+                        this.logger.warn(() => ["Upload of S3 object %s/%s from %s failed: %s", this.bucket, key, fn, err]);
+                        reject(err);
+                    } else {
+                        this.logger.debug(() => ["Upload of S3 object %s/%s from %s successful", this.bucket, key, fn]);
+                        resolve(`s3://${data.Bucket}/${data.Key}`);
+                    }
+                });
+            reportUploadProgress(upload, listener);
+        });
+    }
+
+    /**
+     * Validate the location and split it into its bucket and key
+     */
+    private bucketAndKey(location: string): Promise<{ bucket: string, key: string }> {
+        return locationPath(this, location)
+            .then(loc => {
+                let firstSlashPos = loc.indexOf('/');
+                if (firstSlashPos <= 0 || firstSlashPos === loc.length - 1) {
+                    let msg = `Unable to determine bucket and key from s3location: ${location}`;
+                    this.logger.warn(() => [msg]);
+                    throw new Error(msg);
+                }
+                return { bucket: loc.substr(0, firstSlashPos), key: loc.substr(firstSlashPos + 1) };
+            });
+    }
+
+    public download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return Promise.all([this.downloadStream(location), _.isNil(listener) ? null : this.size(location)])
+            .then(([download, total]) => new Promise((resolve, reject) => {
+                this.logger.debug(() => ["Initiaing download of S3 object %s to %s", location, fn]);
+                let wr = fs.createWriteStream(fn);
+                let failed = err => {
+                    this.logger.warn(() => ["Download of S3 object %s to %s failed: %s", location, fn, err]);
+                    download.abort();
+                    reject(err);
+                };
+                download.stream.on("error", failed);
+                wr.on("error", failed);
+                wr.on("finish", () => {
+                    this.logger.debug(() => ["Download of S3 object %s to %s successful", location, fn]);
+                    resolve();
+                });
+                countTransfer(download.stream, total, listener);
+                download.stream.pipe(wr);
+            }));
+    }
+
+    public uploadStream(source: NodeJS.ReadableStream, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): StreamUpload {
+        this.logger.debug(() => ["Initiaing streamed upload of S3 object %s/%s", this.bucket, key]);
+        // Parts are uploaded one at a time, so at most two parts are held in memory
+        let upload = this.s3.upload({
+            'Bucket': this.bucket,
+            'Key': key,
+            'Body': source,
+            'Metadata': metadata
+        }, {
+                partSize: 10 * 1024 * 1024,
+                queueSize: 1
+            });
+        reportUploadProgress(upload, listener);
+        return {
+            promise: upload.promise()
+                .then(data => {
+                    this.logger.debug(() => ["Streamed upload of S3 object %s/%s successful", this.bucket, key]);
+                    return `s3://${data.Bucket}/${data.Key}`;
+                }, err => {
+                    this.logger.warn(() => ["Streamed upload of S3 object %s/%s failed: %s", this.bucket, key, err]);
+                    throw err;
+                }),
+            abort: () => upload.abort()
+        };
+    }
+
+    public downloadStream(location: string): Promise<StreamDownload> {
+        return this.bucketAndKey(location)
+            .then(({ bucket, key }) => {
+                this.logger.debug(() => ["Initiaing streamed download of S3 object %s/%s", bucket, key]);
+                let request = this.s3.getObject({
+                    'Bucket': bucket,
+                    'Key': key
+                });
+                return { stream: request.createReadStream(), abort: () => request.abort() };
+            });
+    }
+
+    public metadata(location: string): Promise<ObjectMetadata> {
+        return this.bucketAndKey(location)
+            .then(({ bucket, key }) => new Promise<ObjectMetadata>((resolve, reject) => {
+                this.s3.headObject({
+                    'Bucket': bucket,
+                    'Key': key
+                }, (err, data) => {
+                    if (err) {
+                        this.logger.warn(() => ["Error retrieving metadata of S3 object %s/%s: %s", bucket, key, err]);
+                        reject(err);
+                    } else {
+                        resolve(data.Metadata || {});
+                    }
+                });
+            }));
+    }
+
+    public size(location: string): Promise<number> {
+        return this.bucketAndKey(location)
+            .then(({ bucket, key }) => new Promise<number>((resolve, reject) => {
+                this.s3.headObject({
+                    'Bucket': bucket,
+                    'Key': key
+                }, (err, data) => {
+                    if (err) {
+                        this.logger.warn(() => ["Error retrieving size of S3 object %s/%s: %s", bucket, key, err]);
+                        reject(err);
+                    } else {
+                        resolve(data.ContentLength);
+                    }
+                });
+            }));
+    }
+
+    public remove(location: string): Promise<{}> {
+        return this.bucketAndKey(location)
+            .then(({ bucket, key }) => new Promise<{}>((resolve, reject) => {
+                this.logger.debug(() => ["Deleting S3 object %s/%s", bucket, key]);
+                this.s3.deleteObject({
+                    'Bucket': bucket,
+                    'Key': key
+                }, err => {
+                    if (err) {
+                        this.logger.warn(() => ["Error deleting S3 object %s/%s: %s", bucket, key, err]);
+                        reject(err);
+                    } else {
+                        resolve({});
+                    }
+                });
+            }));
+    }
+
+    public list(prefix: string): Promise<string[]> {
+        let locations: string[] = [];
+        let page = (token: string | undefined): Promise<string[]> => new Promise<aws.S3.ListObjectsV2Output>((resolve, reject) => {
+            this.s3.listObjectsV2({
+                'Bucket': this.bucket,
+                'Prefix': prefix,
+                'ContinuationToken': token
+            }, (err, data) => {
+                if (err) {
+                    this.logger.warn(() => ["Error listing S3 objects %s/%s*: %s", this.bucket, prefix, err]);
+                    reject(err);
+                } else {
+                    resolve(data);
+                }
+            });
+        })
+            .then(data => {
+                (data.Contents || []).forEach(o => locations.push(this.location(o.Key)));
+                return data.IsTruncated ? page(data.NextContinuationToken) : locations;
+            });
+        return page(undefined);
+    }
+}
+
+/**
+ * Backend storing dumps below a directory of the local filesystem
+ */
+export class FileStorage implements StorageBackend {
+
+    public readonly scheme: StorageType = "file";
+
+    constructor(private directory: string, private logger) { }
+
+    public location(key: string): string {
+        return `file://${path.resolve(this.directory, key)}`;
+    }
+
+    public upload(fn: string, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): Promise<string> {
+        let target = path.resolve(this.directory, key);
+        this.logger.debug(() => ["Copying %s to %s", fn, target]);
+        return Promise.resolve()
+            .then(() => mkdirs(path.dirname(target)))
+            .then(() => copyFile(fn, target, listener))
+            .then(() => writeFile(metadataPath(target), JSON.stringify(metadata)))
+            .then(() => {
+                this.logger.debug(() => ["Copy of %s to %s successful", fn, target]);
+                return `file://${target}`;
+            })
+            .catch(err => {
+                this.logger.warn(() => ["Copy of %s to %s failed: %s", fn, target, err]);
+                throw err;
+            });
+    }
+
+    public download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return locationPath(this, location)
+            .then(source => {
+                this.logger.debug(() => ["Copying %s to %s", source, fn]);
+                return copyFile(source, fn, listener);
+            })
+            .catch(err => {
+                this.logger.warn(() => ["Retrieval of %s to %s failed: %s", location, fn, err]);
+                throw err;
+            });
+    }
+
+    public metadata(location: string): Promise<ObjectMetadata> {
+        return locationPath(this, location)
+            .then(source => readFile(metadataPath(source)))
+            .then(data => JSON.parse(data.toString()) as ObjectMetadata)
+            .catch(err => {
+                // Objects stored before metadata was kept have none
+                if (err.code === "ENOENT") {
+                    return {};
+                }
+                this.logger.warn(() => ["Retrieval of the metadata of %s failed: %s", location, err]);
+                throw err;
+            });
+    }
+
+    public size(location: string): Promise<number> {
+        return locationPath(this, location)
+            .then(source => new Promise<number>((resolve, reject) => {
+                fs.stat(source, (err, stats) => err ? reject(err) : resolve(stats.size));
+            }));
+    }
+
+    public list(prefix: string): Promise<string[]> {
+        let base = path.resolve(this.directory);
+        return listFiles(base)
+            .then(files => files
+                .map(f => path.relative(base, f).split(path.sep).join("/"))
+                .filter(key => _.startsWith(key, prefix) && !_.endsWith(key, METADATA_SUFFIX))
+                .sort()
+                .map(key => this.location(key)));
+    }
+
+    public remove(location: string): Promise<{}> {
+        return locationPath(this, location)
+            .then(target => {
+                this.logger.debug(() => ["Deleting %s", target]);
+                return Promise.all([unlinkIfExists(target), unlinkIfExists(metadataPath(target))]);
+            })
+            .then(() => ({}));
+    }
+
+    public uploadStream(source: NodeJS.ReadableStream, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): StreamUpload {
+        let target = path.resolve(this.directory, key);
+        let wr: fs.WriteStream | null = null;
+        let aborted = false;
+        this.logger.debug(() => ["Streaming to %s", target]);
+        let promise = Promise.resolve()
+            .then(() => mkdirs(path.dirname(target)))
+            .then(() => new Promise((resolve, reject) => {
+                if (aborted) {
+                    reject(new Error(`Streaming to ${target} aborted`));
+                    return;
+                }
+                wr = fs.createWriteStream(target);
+                source.on("error", reject);
+                wr.on("error", reject);
+                wr.on("finish", () => aborted ? reject(new Error(`Streaming to ${target} aborted`)) : resolve());
+                countTransfer(source, null, listener);
+                source.pipe(wr);
+            }))
+            .then(() => writeFile(metadataPath(target), JSON.stringify(metadata)))
+            .then(() => {
+                this.logger.debug(() => ["Streaming to %s successful", target]);
+                return `file://${target}`;
+            })
+            .catch(err => {
+                this.logger.warn(() => ["Streaming to %s failed: %s", target, err]);
+                fs.unlink(target, _.noop);
+                throw err;
+            });
+        return {
+            promise: promise,
+            abort: () => {
+                aborted = true;
+                if (wr !== null) {
+                    source.unpipe(wr);
+                    wr.end();
+                }
+            }
+        };
+    }
+
+    public downloadStream(location: string): Promise<StreamDownload> {
+        return locationPath(this, location)
+            .then(source => {
+                let rd = fs.createReadStream(source);
+                return { stream: rd, abort: () => rd.close() };
+            });
+    }
+}
+
+/**
+ * Backend keeping dumps in process memory. Only useful for tests and for
+ * exercising archive/restore without any external storage.
+ */
+export class MemoryStorage implements StorageBackend {
+
+    public readonly scheme: StorageType = "memory";
+    private objects: { [key: string]: Buffer } = {};
+    private objectMetadata: { [key: string]: ObjectMetadata } = {};
+
+    constructor(private logger) { }
+
+    public location(key: string): string {
+        return `memory://${key}`;
+    }
+
+    public upload(fn: string, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): Promise<string> {
+        return new Promise((resolve, reject) => {
+            fs.readFile(fn, (err, data) => {
+                if (err) {
+                    this.logger.warn(() => ["Storing %s in memory failed: %s", fn, err]);
+                    reject(err);
+                } else {
+                    this.objects[key] = data;
+                    this.objectMetadata[key] = _.clone(metadata);
+                    if (!_.isNil(listener)) {
+                        listener(data.length, data.length);
+                    }
+                    this.logger.debug(() => ["Stored %s in memory as %s", fn, key]);
+                    resolve(`memory://${key}`);
+                }
+            });
+        });
+    }
+
+    public download(location: string, fn: string, listener?: TransferListener): Promise<{}> {
+        return locationPath(this, location)
+            .then(key => new Promise((resolve, reject) => {
+                if (!this.objects.hasOwnProperty(key)) {
+                    reject(new Error(`No object stored in memory under ${key}`));
+                    return;
+                }
+                fs.writeFile(fn, this.objects[key], err => {
+                    if (err) {
+                        reject(err);
+                    } else {
+                        if (!_.isNil(listener)) {
+                            listener(this.objects[key].length, this.objects[key].length);
+                        }
+                        this.logger.debug(() => ["Retrieved %s from memory to %s", key, fn]);
+                        resolve();
+                    }
+                });
+            }));
+    }
+
+    public metadata(location: string): Promise<ObjectMetadata> {
+        return locationPath(this, location)
+            .then(key => {
+                if (!this.objects.hasOwnProperty(key)) {
+                    throw new Error(`No object stored in memory under ${key}`);
+                }
+                return _.clone(this.objectMetadata[key]);
+            });
+    }
+
+    public size(location: string): Promise<number> {
+        return locationPath(this, location)
+            .then(key => {
+                if (!this.objects.hasOwnProperty(key)) {
+                    throw new Error(`No object stored in memory under ${key}`);
+                }
+                return this.objects[key].length;
+            });
+    }
+
+    public list(prefix: string): Promise<string[]> {
+        return Promise.resolve(_.keys(this.objects)
+            .filter(key => _.startsWith(key, prefix))
+            .sort()
+            .map(key => this.location(key)));
+    }
+
+    public uploadStream(source: NodeJS.ReadableStream, key: string, metadata: ObjectMetadata = {}, listener?: TransferListener): StreamUpload {
+        let chunks: Buffer[] = [];
+        let aborted = false;
+        let abort: () => void;
+        let promise = new Promise<string>((resolve, reject) => {
+            abort = () => {
+                aborted = true;
+                chunks = [];
+                reject(new Error(`Storing ${key} in memory aborted`));
+            };
+            source.on("data", (chunk: Buffer) => chunks.push(chunk));
+            countTransfer(source, null, listener);
+            source.on("error", reject);
+            source.on("end", () => {
+                if (aborted) {
+                    return;
+                }
+                this.objects[key] = Buffer.concat(chunks);
+                this.objectMetadata[key] = _.clone(metadata);
+                this.logger.debug(() => ["Stored stream in memory as %s", key]);
+                resolve(`memory://${key}`);
+            });
+        });
+        return {
+            promise: promise,
+            abort: () => abort()
+        };
+    }
+
+    public remove(location: string): Promise<{}> {
+        return locationPath(this, location)
+            .then(key => {
+                delete this.objects[key];
+                delete this.objectMetadata[key];
+                return {};
+            });
+    }
+
+    public downloadStream(location: string): Promise<StreamDownload> {
+        return locationPath(this, location)
+            .then(key => {
+                if (!this.objects.hasOwnProperty(key)) {
+                    throw new Error(`No object stored in memory under ${key}`);
+                }
+                let rd = new stream.PassThrough();
+                rd.end(this.objects[key]);
+                return { stream: rd, abort: () => rd.unpipe() };
+            });
+    }
+}
+
+/**
+ * Create the storage backend selected by the "storage" section of the
+ * configuration. Without that section, dumps are stored in config.s3_bucket.
+ *
+ * @param{Config} config - library configuration
+ * @param{Logger} logger - logger used by the backend
+ * @return{StorageBackend} the configured backend
+ */
+export function createStorage(config: Config, logger): StorageBackend {
+    let storage = config.storage || { type: "s3" as StorageType };
+    switch (storage.type) {
+        case "s3":
+            return new S3Storage(storage.bucket || config.s3_bucket, logger);
+        case "file":
+            if (!storage.directory) {
+                throw new Error("The file storage backend requires storage.directory to be configured");
+            }
+            return new FileStorage(storage.directory, logger);
+        case "memory":
+            return new MemoryStorage(logger);
+        default:
+            throw new Error(`Unknown storage backend type: ${storage.type}`);
+    }
+}
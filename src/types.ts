@@ -10,15 +10,146 @@ export interface DBConnection {
     schema: string
 }
 
+/**
+ * "text" keeps winston's default output, "json" writes every log line as a
+ * single line JSON object (see logger.ts)
+ */
+export type LogFormat = "text" | "json";
+
 export interface LoggerConfig {
     directory: string,
     filename: string,
-    level: string
+    level: string,
+    console?: boolean,
+    format?: LogFormat
+}
+
+/**
+ * Structured fields added to log lines
+ */
+export interface LogFields {
+    [name: string]: string | number | boolean | null
+}
+
+export type StorageType = "s3" | "file" | "memory";
+
+/**
+ * How the DB password is passed to pg_dump, pg_restore and psql (see process.ts)
+ */
+export type CredentialMode = "env" | "pgpass";
+
+export type PgBinary = "pg_dump" | "pg_restore" | "psql";
+
+/**
+ * Metadata stored along with an object by a storage backend
+ */
+export interface ObjectMetadata {
+    [key: string]: string
+}
+
+/**
+ * Format of a dump taken by pg_dump (see formats.ts)
+ */
+export type DumpFormat = "custom" | "directory";
+
+/**
+ * How dumps are taken: format, number of parallel pg_dump/pg_restore jobs
+ * for directory format dumps, and compression level (0-9, pg_dump's default
+ * if not set)
+ */
+export interface DumpConfig {
+    format?: DumpFormat,
+    jobs?: number,
+    compression?: number
+}
+
+/**
+ * The dump configuration completed with its defaults
+ */
+export interface DumpOptions {
+    format: DumpFormat,
+    jobs: number,
+    compression: number | null
+}
+
+export type KeyProviderType = "keyfile";
+
+/**
+ * Client-side encryption of archived objects (see encryption.ts)
+ */
+export interface EncryptionConfig {
+    provider: KeyProviderType,
+    keyfile?: string
+}
+
+export interface StorageConfig {
+    type: StorageType,
+    bucket?: string,
+    directory?: string
+}
+
+/**
+ * Maximum number of pg_dumps, pg_restores and archive storage transfers an
+ * archiver runs at once
+ */
+export interface ConcurrencyConfig {
+    dump?: number,
+    restore?: number,
+    transfer?: number
+}
+
+/**
+ * Port of the HTTP listener serving the metrics of an archiver in Prometheus
+ * text format (see metrics.ts)
+ */
+export interface MetricsConfig {
+    port?: number,
+    path?: string
+}
+
+/**
+ * Kinds of steps retried after a transient failure (see retry.ts)
+ */
+export type RetryStep = "storage" | "db";
+
+/**
+ * Number of attempts at a step, and delay before the first retry, doubled
+ * for every further one up to max_delay_ms
+ */
+export interface RetryPolicy {
+    attempts?: number,
+    base_delay_ms?: number,
+    max_delay_ms?: number
+}
+
+export interface RetryConfig {
+    storage?: RetryPolicy,
+    db?: RetryPolicy
+}
+
+/**
+ * Whether an Archiver checks the schema of the database before its first
+ * operation, and whether it applies the missing migrations (see schema.ts)
+ */
+export interface SchemaConfig {
+    check?: boolean,
+    migrate?: boolean
 }
 
 export interface Config {
     pg_prefix: string,
     s3_bucket: string,
+    storage?: StorageConfig,
+    archive_policy?: ArchivePolicy,
+    retention?: RetentionPolicy,
+    concurrency?: ConcurrencyConfig,
+    dump?: DumpConfig,
+    streaming?: boolean,
+    pg_credentials?: CredentialMode,
+    encryption?: EncryptionConfig,
+    metrics?: MetricsConfig,
+    retry?: RetryConfig,
+    schema?: SchemaConfig,
     logger: LoggerConfig,
     db_connection: DBConnection
 }
@@ -28,3 +159,422 @@ export interface Sails {
         archiveRestoreConfig: Config
     }
 }
+
+export type ObjectType = "report" | "analysis";
+
+/**
+ * A change to the bookkeeping columns and tables (see schema.ts)
+ */
+export interface SchemaMigration {
+    version: number,
+    description: string,
+    statements: string[]
+}
+
+export interface SchemaMigrationResult {
+    from_version: number,
+    to_version: number,
+    applied: { version: number, description: string }[]
+}
+
+export type JobOperation = "archive" | "restore";
+
+/**
+ * Stages an archive or restore job moves through. Archive jobs go
+ * STARTED -> DUMPED -> UPLOADED -> MARKED, restore jobs go
+ * STARTED -> DOWNLOADED -> RESTORED -> MARKED. MARKED, FAILED and
+ * ROLLED_BACK are terminal.
+ */
+export type JobStage = "STARTED" | "DUMPED" | "UPLOADED" | "DOWNLOADED" | "RESTORED" | "MARKED" | "FAILED" | "ROLLED_BACK";
+
+export interface Job {
+    id: number,
+    parent: number | null,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    stage: JobStage,
+    archive_location: string | null,
+    error: string | null,
+    created: Date,
+    updated: Date
+}
+
+export interface ResumeResult {
+    job: number,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    action: "finished" | "rolled back" | "failed",
+    error?: string
+}
+
+export interface TablePlan {
+    name: string,
+    bytes: number
+}
+
+/**
+ * What archiving a single report/analysis would do
+ */
+export interface ObjectArchivePlan {
+    object_type: ObjectType,
+    id: number,
+    tables: TablePlan[],
+    bytes: number,
+    drop_statements: string[]
+}
+
+export interface ArchivePlan {
+    report: ObjectArchivePlan,
+    analyses: ObjectArchivePlan[],
+    total_bytes: number
+}
+
+/**
+ * What restoring a single report/analysis would do
+ */
+export interface ObjectRestorePlan {
+    object_type: ObjectType,
+    id: number,
+    archive_location: string
+}
+
+export interface RestorePlan {
+    analysis: ObjectRestorePlan,
+    reports: ObjectRestorePlan[]
+}
+
+/**
+ * Rules selecting the reports archived by archiveStaleReports(). A report is
+ * selected only if it satisfies every rule that is configured.
+ */
+export interface ArchivePolicy {
+    /** Minimum age in days of the report row, which requires age_column */
+    min_age_days?: number,
+    /** Column of the report table holding the creation time of the report */
+    age_column?: string,
+    /** Minimum number of days since any stats_<id>_* table was last scanned */
+    min_idle_days?: number,
+    /** Minimum total on-disk size in bytes of the report's tables */
+    min_total_bytes?: number,
+    /** If not empty, only these reports are considered */
+    allow?: number[],
+    /** Reports never archived by the policy */
+    deny?: number[],
+    /** Maximum number of reports archived in one batch */
+    limit?: number
+}
+
+export interface ReportActivity {
+    id: number,
+    age_days: number | null,
+    idle_days: number | null,
+    total_bytes: number
+}
+
+export interface PolicyCandidate {
+    activity: ReportActivity,
+    analyses: number[]
+}
+
+export interface SkippedReport {
+    id: number,
+    reasons: string[]
+}
+
+export interface PolicySelection {
+    selected: PolicyCandidate[],
+    skipped: SkippedReport[]
+}
+
+/**
+ * Outcome of an operation on one report/analysis of a batch
+ */
+export interface BatchItemResult<T> {
+    id: number,
+    ok: boolean,
+    result?: T,
+    error?: any
+}
+
+/**
+ * A dump stored in archive storage, and the SQL commands that drop the DB
+ * objects it contains
+ */
+export interface StoredDump {
+    version: string,
+    location: string,
+    manifestLocation: string,
+    checksum: string,
+    cleanCommands: string
+}
+
+export interface BatchArchiveResult {
+    archived: { id: number, archive_location: string, analyses: number[] }[],
+    failed: { id: number, error: string }[],
+    skipped: SkippedReport[]
+}
+
+export interface ManifestTable {
+    name: string,
+    rows: number | null,
+    columns: string[]
+}
+
+export interface ManifestDependency {
+    analysis: number,
+    report: number
+}
+
+/**
+ * Contents of the JSON manifest stored next to every dump (see manifest.ts)
+ */
+export interface Manifest {
+    version: number,
+    object_type: ObjectType,
+    id: number,
+    created: string,
+    pg_dump_version: string,
+    server_version: string,
+    tables: ManifestTable[],
+    dependencies: ManifestDependency[],
+    dump_sha256?: string,
+    dump_format?: DumpFormat
+}
+
+/**
+ * Rules selecting the archived versions kept by pruneVersions(). A version is
+ * kept if any rule that is configured keeps it; the current archive of an
+ * object is always kept.
+ */
+export interface RetentionPolicy {
+    /** Number of most recent versions of each object kept */
+    keep_last?: number,
+    /** Versions younger than this many days are kept */
+    max_age_days?: number
+}
+
+/**
+ * An archived version of a report/analysis, as recorded in the
+ * archive_version table (see versions.ts)
+ */
+export interface ArchiveVersion {
+    id: number,
+    object_type: ObjectType,
+    object_id: number,
+    version: string,
+    archive_location: string,
+    manifest_location: string | null,
+    archive_checksum: string | null,
+    created: Date,
+    pruned: Date | null,
+    /** Whether this is the archive the object is currently restored from */
+    current: boolean
+}
+
+export interface PruneResult {
+    pruned: ArchiveVersion[],
+    kept: number
+}
+
+export interface ObjectStatus {
+    object_type: ObjectType,
+    id: number,
+    state: "present" | "archived",
+    archive_location: string | null,
+    archive_checksum: string | null,
+    archive_timestamp: Date | null,
+    restore_timestamp: Date | null,
+    /** Size in bytes of the stored dump of an archived object (single status only) */
+    dump_size?: number | null,
+    /**
+     * Status of the analyses depending on a report, or of the reports an
+     * analysis depends on (single status only)
+     */
+    dependencies?: ObjectStatus[]
+}
+
+/**
+ * Filters and page of listArchivedReports()/listArchivedAnalyses()
+ */
+export interface ArchiveListQuery {
+    /** Only objects archived at or after this time */
+    archived_after?: Date,
+    /** Only objects archived before this time */
+    archived_before?: Date,
+    /** Only objects whose archive location starts with this prefix, e.g. "s3://bucket/" */
+    location_prefix?: string,
+    /** Maximum number of objects returned, 100 by default */
+    limit?: number,
+    /** Number of matching objects skipped, in id order */
+    offset?: number
+}
+
+/**
+ * A page of archived objects
+ */
+export interface ObjectStatusPage {
+    items: ObjectStatus[],
+    /** Number of objects matching the filters, on all pages */
+    total: number,
+    limit: number,
+    offset: number
+}
+
+/**
+ * An archive/restore recorded in the history table (see history.ts)
+ */
+export interface HistoryEntry {
+    id: number,
+    operation_id: string,
+    correlation_id: string,
+    /** Operation this one was cascaded from, if any */
+    parent_operation_id: string | null,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    /** Who requested the operation, as passed by the caller, if anyone */
+    initiator: string | null,
+    started: Date,
+    finished: Date,
+    /** Bytes uploaded to or downloaded from archive storage */
+    bytes: number,
+    archive_location: string | null,
+    version: string | null,
+    ok: boolean,
+    error: string | null,
+    /** Class of the error, e.g. "StorageError" */
+    reason: string | null
+}
+
+/**
+ * Filters and page of a listing of the history
+ */
+export interface HistoryQuery {
+    object_type?: ObjectType,
+    object_id?: number,
+    operation?: JobOperation,
+    initiator?: string,
+    /** Only operations started at or after this time */
+    started_after?: Date,
+    /** Only operations started before this time */
+    started_before?: Date,
+    /** Maximum number of entries returned, 100 by default */
+    limit?: number,
+    /** Number of matching entries skipped, newest first */
+    offset?: number
+}
+
+/**
+ * A page of the history, newest first
+ */
+export interface HistoryPage {
+    items: HistoryEntry[],
+    /** Number of entries matching the filters, on all pages */
+    total: number,
+    limit: number,
+    offset: number
+}
+
+/**
+ * Kinds of disagreement between the DB and archive storage found by
+ * reconcile() (see reconcile.ts)
+ */
+export type DiscrepancyKind = "missing_dump" | "archived_with_tables" | "present_without_tables" | "orphan_dump" | "missing_version";
+
+export interface Discrepancy {
+    kind: DiscrepancyKind,
+    object_type: ObjectType | null,
+    id: number | null,
+    location: string | null,
+    /** Tables of the object found in the DB */
+    tables: string[],
+    detail: string,
+    /** Whether the repair mode of reconcile() fixes this kind of discrepancy */
+    repairable: boolean,
+    repaired: boolean,
+    /** Why a repair was not made */
+    error?: string
+}
+
+/**
+ * What reconcile() scanned and the discrepancies it found
+ */
+export interface ReconcileReport {
+    reports: number,
+    analyses: number,
+    tables: number,
+    stored_objects: number,
+    versions: number,
+    discrepancies: Discrepancy[],
+    repaired: number
+}
+
+/**
+ * Stages reported by an archive/restore as it progresses (see progress.ts)
+ */
+export type OperationStage = "validating" | "dumping" | "uploading" | "cleaning" | "downloading" | "restoring" | "marking";
+
+export type TransferDirection = "upload" | "download";
+
+/**
+ * Called with the number of bytes transferred so far, and the size of the
+ * transfer if it is known
+ */
+export type TransferListener = (transferred: number, total: number | null) => void;
+
+export interface StageEvent {
+    correlation_id: string,
+    operation_id: string,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    stage: OperationStage
+}
+
+export interface TransferEvent {
+    correlation_id: string,
+    operation_id: string,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    direction: TransferDirection,
+    transferred: number,
+    /** Size of the transfer, null if it is not known (e.g. a dump streamed from pg_dump) */
+    total: number | null
+}
+
+export interface LocationEvent {
+    correlation_id: string,
+    operation_id: string,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    /** Archive location of the dump stored or restored */
+    archive_location: string,
+    /** Version of the dump, null if not known (e.g. the current archive of a restore) */
+    version: string | null
+}
+
+export interface OutcomeEvent {
+    correlation_id: string,
+    operation_id: string,
+    operation: JobOperation,
+    object_type: ObjectType,
+    object_id: number,
+    ok: boolean,
+    /** Time taken by the operation, in milliseconds */
+    duration_ms: number,
+    result?: any,
+    error?: string,
+    /** Class of the error, e.g. "ProcessError" */
+    reason?: string
+}
+
+/**
+ * Label names and values of a metric sample
+ */
+export interface MetricLabels {
+    [name: string]: string
+}
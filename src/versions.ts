@@ -0,0 +1,200 @@
+/**
+ * History of the archived versions of every report/analysis. Each archive
+ * writes its dump and manifest under keys of their own, named after the
+ * version (see newVersion), instead of overwriting the previous archive of the
+ * same object. Every version is recorded as a row of the archive_version
+ * table, in the transaction that marks the object archived, and keeps its
+ * location, manifest location and checksum, so any version can be restored
+ * later.
+ *
+ * Versions accumulate until they are pruned according to a retention policy
+ * (see selectPrunable). Pruning deletes the dump and manifest from archive
+ * storage and sets "pruned" on the row, so the history itself is kept.
+ *
+ * The history table is created by Archiver.ensureSchema() (migration 3 of
+ * schema.ts) with:
+ *
+ * create table archive_version (
+ *     id serial primary key,
+ *     object_type text not null,
+ *     object_id integer not null,
+ *     version text not null,
+ *     archive_location text not null,
+ *     manifest_location text default null,
+ *     archive_checksum text default null,
+ *     created timestamp with time zone not null default now(),
+ *     pruned timestamp with time zone default null,
+ *     unique (object_type, object_id, version)
+ * );
+ */
+
+import _ = require('lodash');
+import * as pgPromise from 'pg-promise';
+import { ArchiveVersion, ObjectType, PreparedStatement, RetentionPolicy } from "./types";
+let squel = require("squel").useFlavour("postgres");
+
+const pgp: pgPromise.IMain = pgPromise();
+
+/**
+ * Return a new version name. Versions are UTC timestamps with millisecond
+ * precision, e.g. "20261019T120000123Z", so they sort in archive order.
+ *
+ * @param{Date} now - time of the archive
+ * @return{string} the version name
+ */
+export function newVersion(now: Date = new Date()): string {
+    return now.toISOString().replace(/[-:.]/g, "");
+}
+
+/**
+ * Return the versions that the retention policy allows to prune. A version is
+ * kept if it is one of the "keep_last" most recent versions of its object, if
+ * it is younger than "max_age_days", or if it is the current archive of its
+ * object. An empty policy keeps everything.
+ *
+ * @param{ArchiveVersion[]} versions - unpruned versions of any number of objects
+ * @param{RetentionPolicy} policy - retention policy
+ * @param{Date} now - time the ages are computed from
+ * @return{ArchiveVersion[]} the versions that may be pruned, oldest first
+ */
+export function selectPrunable(versions: ArchiveVersion[], policy: RetentionPolicy, now: Date = new Date()): ArchiveVersion[] {
+    if (_.isNil(policy.keep_last) && _.isNil(policy.max_age_days)) {
+        return [];
+    }
+    let byObject = _.groupBy(versions, v => `${v.object_type} ${v.object_id}`);
+    let prunable = _.flatMap(_.values(byObject), objectVersions =>
+        _.orderBy(objectVersions, ["version"], ["desc"])
+            .filter((v, i) => {
+                let recent = !_.isNil(policy.keep_last) && i < policy.keep_last;
+                let young = !_.isNil(policy.max_age_days) &&
+                    now.getTime() - new Date(v.created).getTime() < policy.max_age_days * 24 * 60 * 60 * 1000;
+                return !(recent || young || v.current);
+            }));
+    return _.sortBy(prunable, ["version"]);
+}
+
+export class VersionHistory {
+
+    /**
+      Select the unpruned versions of all objects, flagging the current
+      archive of each
+      */
+    private versions_sql: PreparedStatement;
+
+    /**
+      Select the unpruned versions of one object, newest first
+
+      @param{string} $1 - object type
+      @param{number} $2 - object id
+      */
+    private object_versions_sql: PreparedStatement;
+
+    /**
+      Select the unpruned version stored at an archive location
+
+      @param{string} $1 - archive location
+      */
+    private version_at_sql: PreparedStatement;
+
+    /**
+      Record that a version has been pruned
+
+      @param{number} $1 - version row id
+      */
+    private prune_version_sql: PreparedStatement;
+
+    constructor(private db: pgPromise.IDatabase<any>, private schema: string, private logger) {
+        let versions = squel.select()
+            .from(`${schema}.archive_version`, "v")
+            .field("v.*")
+            .field("coalesce(r.archive_location, a.archive_location) is not distinct from v.archive_location", "current")
+            .left_join(`${schema}.report`, "r", "v.object_type = 'report' and r.id = v.object_id")
+            .left_join(`${schema}.analysis`, "a", "v.object_type = 'analysis' and a.id = v.object_id")
+            .where("v.pruned is null");
+
+        this.versions_sql = versions.clone()
+            .order("v.object_type")
+            .order("v.object_id")
+            .order("v.version")
+            .toString();
+
+        this.object_versions_sql = versions.clone()
+            .where("v.object_type = ?")
+            .where("v.object_id = ?")
+            .order("v.version", false)
+            .toParam()
+            .text;
+
+        this.version_at_sql = versions.clone()
+            .where("v.archive_location = ?")
+            .toParam()
+            .text;
+
+        this.prune_version_sql = squel.update()
+            .table(`${schema}.archive_version`)
+            .set("pruned = now()")
+            .where("id = ?")
+            .toParam()
+            .text;
+    }
+
+    /**
+     * Return the SQL recording a new version, for inclusion in the clean
+     * commands executed when an archive completes
+     *
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @param{string} version - version name
+     * @param{string} location - archive location of the dump
+     * @param{string} manifest - location of the manifest of the dump
+     * @param{string} checksum - SHA-256 of the dump
+     * @return{string} SQL statement terminated with ";\n"
+     */
+    public recordSql(type: ObjectType, id: number, version: string, location: string, manifest: string, checksum: string): string {
+        return pgp.as.format("insert into $1~.archive_version (object_type,object_id,version,archive_location,manifest_location,archive_checksum) " +
+            "values ($2,$3,$4,$5,$6,$7) on conflict (object_type,object_id,version) do nothing;\n",
+            [this.schema, type, id, version, location, manifest, checksum]);
+    }
+
+    /**
+     * Return the unpruned versions of the specified report/analysis, newest first
+     *
+     * @param{ObjectType} type - "report" or "analysis"
+     * @param{number} id - id of the report/analysis
+     * @return{Promise<ArchiveVersion[]>} Promise resolved with the versions
+     */
+    public list(type: ObjectType, id: number): Promise<ArchiveVersion[]> {
+        return this.db.any(this.object_versions_sql, [type, id]);
+    }
+
+    /**
+     * Return the unpruned versions of every report/analysis
+     *
+     * @return{Promise<ArchiveVersion[]>} Promise resolved with the versions
+     */
+    public all(): Promise<ArchiveVersion[]> {
+        return this.db.any(this.versions_sql);
+    }
+
+    /**
+     * Return the version stored at the given archive location, or null for
+     * archives written before versions were recorded and pruned versions
+     *
+     * @param{string} location - archive location of a dump
+     * @return{Promise<ArchiveVersion>} Promise resolved with the version or null
+     */
+    public at(location: string): Promise<ArchiveVersion | null> {
+        return this.db.oneOrNone(this.version_at_sql, location);
+    }
+
+    /**
+     * Record that a version has been pruned
+     *
+     * @param{ArchiveVersion} version - the pruned version
+     * @return{Promise} Promise resolved when the version is marked pruned
+     */
+    public markPruned(version: ArchiveVersion): Promise<void> {
+        this.logger.debug(() => ["Version %s of %s %d pruned", version.version, version.object_type, version.object_id]);
+        return this.db.none(this.prune_version_sql, version.id);
+    }
+}
@@ -0,0 +1,453 @@
+const assert = require('assert');
+const stream = require('stream');
+const rewire = require('rewire');
+const archiver = require('../dist/archiver');
+const storage = require('../dist/storage');
+const errors = require('../dist/errors');
+const progress = require('../dist/progress');
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+const config = {
+    pg_prefix: "/usr/bin",
+    db_connection: { schema: "public" },
+    schema: { check: false }
+};
+
+// Database answering each query with respond(method, sql, values), recording
+// the statements run. Those run in a transaction or task are flagged "tx".
+function fakeDb(respond) {
+    let db = { statements: [] };
+    let t = {};
+    ["none", "one", "oneOrNone", "any", "manyOrNone", "many", "query", "result"].forEach(method => {
+        let run = tx => (sql, values) => {
+            db.statements.push({ method: method, sql: sql, values: values, tx: tx });
+            try {
+                return Promise.resolve(respond(method, sql, values));
+            } catch (err) {
+                return Promise.reject(err);
+            }
+        };
+        db[method] = run(false);
+        t[method] = run(true);
+    });
+    db.tx = f => f(t);
+    db.task = f => f(t);
+    return Object.freeze(db);
+}
+
+// Locks granted at once
+const noLocks = { withLocks: (keys, f) => f() };
+
+function createArchiver(db, store) {
+    return archiver.createArchiver(config, { db: db, storage: store || new storage.MemoryStorage(silent), logger: silent, locks: noLocks });
+}
+
+// Process standing in for a pg binary, which exits with exit(status) or when
+// it is killed
+function fakeProcess(binary) {
+    let proc = { binary: binary, killed: false, child: { stdin: new stream.PassThrough(), stdout: new stream.PassThrough() } };
+    proc.exited = new Promise((resolve, reject) => {
+        proc.exit = (status, signal) => status === 0 ? resolve({}) :
+            reject(new errors.ProcessError(binary, [], status, signal || null, `${binary} failed`));
+    });
+    proc.kill = () => {
+        proc.killed = true;
+        proc.exit(null, "SIGTERM");
+    };
+    return proc;
+}
+
+// Wait for the rejections left unhandled to be reported
+function settle() {
+    return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('archiver', function () {
+
+    describe('#createArchiver()', function () {
+        it('should keep the statements, database and logger of each archiver apart', () => {
+            let logged = { one: [], two: [] };
+            let logger = name => {
+                let l = { child: () => l };
+                ["error", "warn", "info", "verbose", "debug", "silly"].forEach(level => {
+                    l[level] = () => logged[name].push(level);
+                });
+                return l;
+            };
+            // Report 1 is present, of 100 bytes
+            let respond = (method, sql, values) => {
+                if (/pg_total_relation_size/.test(sql)) {
+                    return { total_bytes: "100" };
+                }
+                return method === "any" ? [{ id: 1 }] : {};
+            };
+            let dbs = { one: fakeDb(respond), two: fakeDb(respond) };
+            let archivers = ["one", "two"].map(name => archiver.createArchiver(
+                Object.assign({}, config, { db_connection: { schema: name } }),
+                { db: dbs[name], storage: new storage.MemoryStorage(silent), logger: logger(name), locks: noLocks }));
+            assert.notStrictEqual(archivers[0].sql, archivers[1].sql);
+            assert(/one\.report/.test(archivers[0].sql.status_sql.report));
+            assert(/two\.report/.test(archivers[1].sql.status_sql.report));
+            return archivers[0].selectReportsToArchive({})
+                .then(selection => {
+                    assert.deepEqual(selection.selected.map(c => c.activity.id), [1]);
+                    assert(dbs.one.statements.length > 0);
+                    assert(dbs.one.statements.every(s => !/two\./.test(s.sql)));
+                    assert.deepEqual(dbs.two.statements, []);
+                    assert(logged.one.length > 0);
+                    assert.deepEqual(logged.two, []);
+                });
+        });
+        it('should create the default archiver on first use, once', () => {
+            let created = [];
+            let createArchiver = archiver.createArchiver;
+            let sails = global.sails;
+            let restore = () => {
+                archiver.createArchiver = createArchiver;
+                global.sails = sails;
+            };
+            archiver.createArchiver = config => {
+                let a = { config: config, resumeJobs: () => Promise.resolve([]) };
+                created.push(a);
+                return a;
+            };
+            delete global.sails;
+            let ts = rewire('../dist/ts-archive-restore');
+            assert.deepEqual(created, []);
+            global.sails = { config: { archiveRestoreConfig: { db_connection: { schema: "public" } } } };
+            return Promise.all([ts.resumeJobs(), ts.resumeJobs()])
+                .then(() => {
+                    assert.equal(created.length, 1);
+                    assert.strictEqual(created[0].config, global.sails.config.archiveRestoreConfig);
+                    restore();
+                }, err => {
+                    restore();
+                    throw err;
+                });
+        });
+    });
+
+    describe('#selectReportsToArchive()', function () {
+        // Reports 1 and 2 are present, 1 of 100 bytes, 2 of 200
+        let respond = serverVersion => (method, sql, values) => {
+            if (/server_version_num/.test(sql)) {
+                return { server_version: "x", server_version_num: serverVersion };
+            }
+            if (/archive_location is null/.test(sql) && method === "any") {
+                return [{ id: 1 }, { id: 2 }];
+            }
+            if (/pg_total_relation_size/.test(sql)) {
+                return { total_bytes: /_1_/.test(values[1]) ? "100" : "200" };
+            }
+            if (/last_seq_scan/.test(sql)) {
+                return { idle_days: "400" };
+            }
+            if (/extract\(epoch from now\(\) - created\)/.test(sql)) {
+                return { age_days: "500" };
+            }
+            return method === "any" ? [] : {};
+        };
+
+        it('should select the reports the policy allows', () => {
+            let db = fakeDb(respond(160002));
+            return createArchiver(db).selectReportsToArchive({ min_total_bytes: 150, min_idle_days: 30, min_age_days: 365, age_column: "created" })
+                .then(selection => {
+                    assert.deepEqual(selection.selected.map(c => c.activity),
+                        [{ id: 2, age_days: 500, idle_days: 400, total_bytes: 200 }]);
+                    assert.deepEqual(selection.skipped.map(s => s.id), [1]);
+                });
+        });
+        it('should only query the activity the policy needs', () => {
+            let db = fakeDb(respond(160002));
+            return createArchiver(db).selectReportsToArchive({})
+                .then(selection => {
+                    assert.equal(selection.selected.length, 2);
+                    assert(!db.statements.some(s => /last_seq_scan|server_version|extract/.test(s.sql)));
+                });
+        });
+        it('should refuse an age rule without a valid age column', () => {
+            let db = fakeDb(respond(160002));
+            return createArchiver(db).selectReportsToArchive({ min_age_days: 365 })
+                .then(() => assert.fail("selected"), err => assert(/age_column/.test(err.message), err.message))
+                .then(() => createArchiver(db).selectReportsToArchive({ min_age_days: 365, age_column: "created) from pg_user; --" }))
+                .then(() => assert.fail("selected"), err => assert(/Invalid age column/.test(err.message), err.message))
+                .then(() => assert(!db.statements.some(s => /pg_user/.test(s.sql))));
+        });
+        it('should select nothing by idle time on servers that do not track scans', () => {
+            let db = fakeDb(respond(150004));
+            return createArchiver(db).selectReportsToArchive({ min_idle_days: 30 })
+                .then(selection => {
+                    assert.deepEqual(selection.selected, []);
+                    assert.equal(selection.skipped.length, 2);
+                    selection.skipped.forEach(s => assert(/Postgres 16/.test(s.reasons.join()), s.reasons.join()));
+                    assert(!db.statements.some(s => /last_seq_scan/.test(s.sql)));
+                });
+        });
+        it('should skip a report whose activity cannot be retrieved', () => {
+            let db = fakeDb((method, sql, values) => {
+                if (/pg_total_relation_size/.test(sql) && /_1_/.test(values[1])) {
+                    throw new Error("permission denied");
+                }
+                return respond(160002)(method, sql, values);
+            });
+            return createArchiver(db).selectReportsToArchive({})
+                .then(selection => {
+                    assert.deepEqual(selection.selected.map(c => c.activity.id), [2]);
+                    assert.equal(selection.skipped[0].id, 1);
+                    assert(/permission denied/.test(selection.skipped[0].reasons[0]));
+                });
+        });
+    });
+
+    describe('#archiveAnalysis()', function () {
+        // Analysis 4 is present, and archived once marked
+        let respond = (method, sql, values) => {
+            if (/archive_location is not null/.test(sql)) {
+                return { archive_location: "memory://db/public/analysis_4/v1.dump" };
+            }
+            if (/archive_location is null/.test(sql)) {
+                return { archive_location: null };
+            }
+            if (method === "oneOrNone") {
+                return { id: 4, archive_location: null };
+            }
+            return method === "any" ? [] : {};
+        };
+        // Archiver whose dumps are stored at once, and whose psql batches are
+        // passed to run(input)
+        let dumpedArchiver = (db, run) => {
+            let a = createArchiver(db);
+            a.storeDump = () => Promise.resolve({
+                version: "v1", location: "memory://db/public/analysis_4/v1.dump",
+                manifestLocation: "memory://db/public/analysis_4/v1.manifest.json", checksum: "abc",
+                cleanCommands: "DROP TABLE public.analysis_4_1;\n"
+            });
+            a.pg = { run: (command, args, input) => run(command, args, input) };
+            return a;
+        };
+
+        it('should drop the tables and mark the analysis archived in one transaction', () => {
+            let batches = [];
+            let a = dumpedArchiver(fakeDb(respond), (command, args, input) => {
+                batches.push({ command: command, args: args, input: input });
+                return Promise.resolve("");
+            });
+            return a.archiveAnalysis(4)
+                .then(loc => {
+                    assert.equal(loc, "memory://db/public/analysis_4/v1.dump");
+                    assert.equal(batches.length, 1);
+                    assert.equal(batches[0].command, "psql");
+                    assert.deepEqual(batches[0].args, ["-v", "ON_ERROR_STOP=1"]);
+                    let input = batches[0].input;
+                    assert(/^BEGIN;\n/.test(input), input);
+                    assert(/COMMIT;$/.test(input), input);
+                    assert(input.indexOf("DROP TABLE public.analysis_4_1;") < input.indexOf("set archive_location="), input);
+                });
+        });
+        it('should leave the tables in place when the analysis cannot be marked', () => {
+            let db = fakeDb(respond);
+            let batches = [];
+            // psql stops at the failing update, and the transaction is rolled back
+            let a = dumpedArchiver(db, (command, args, input) => {
+                batches.push(input);
+                return Promise.reject(new errors.ProcessError("psql", args, 3, null, "ERROR:  permission denied for table analysis"));
+            });
+            return a.archiveAnalysis(4)
+                .then(() => assert.fail("archived"), err => {
+                    assert(err instanceof errors.CleanupError, err);
+                    assert.equal(err.stage, "cleaning");
+                    assert.equal(batches.length, 1);
+                    assert(/^BEGIN;[^]*set archive_location=[^]*COMMIT;$/.test(batches[0]), batches[0]);
+                    assert(!db.statements.some(s => /drop table/i.test(s.sql)));
+                });
+        });
+    });
+
+    describe('streaming', function () {
+        const loc = "memory://db/public/report_74/v1.dump";
+        let unhandled;
+        let onUnhandled = err => unhandled.push(err);
+        beforeEach(() => {
+            unhandled = [];
+            process.on("unhandledRejection", onUnhandled);
+        });
+        afterEach(() => {
+            process.removeListener("unhandledRejection", onUnhandled);
+            assert.deepEqual(unhandled, []);
+        });
+
+        // Report 74 has one table, whose archived dump has the checksum "expected"
+        let respond = (method, sql, values) => {
+            if (/pg_export_snapshot/.test(sql)) {
+                return { snapshot: "00000003-0000001B-1" };
+            }
+            if (/pg_class/.test(sql)) {
+                return [{ name: "stats_74_1", kind: "r", bytes: "16384" }];
+            }
+            if (/select archive_checksum/i.test(sql)) {
+                return { archive_checksum: "expected" };
+            }
+            return method === "any" ? [] : method === "oneOrNone" ? null : {};
+        };
+        // Archiver whose pg binaries are started by start(binary), and kept
+        // in "started"
+        let streamingArchiver = (db, store, start) => {
+            let a = createArchiver(db, store);
+            a.started = [];
+            a.pg = {
+                start: binary => {
+                    let proc = fakeProcess(binary);
+                    a.started.push(proc);
+                    start(proc);
+                    return proc;
+                }
+            };
+            return a;
+        };
+        let storeDump = store => new Promise(resolve => {
+            let rd = new stream.PassThrough();
+            store.uploadStream(rd, "db/public/report_74/v1.dump").promise.then(resolve);
+            rd.end("dump of report 74");
+        });
+        let drops = db => db.statements.filter(s => /^drop /.test(s.sql)).map(s => [s.tx, s.sql, s.values[1]]);
+
+        it('should abandon the upload when pg_dump fails', () => {
+            let store = new storage.MemoryStorage(silent);
+            let a = streamingArchiver(fakeDb(respond), store, proc => {
+                proc.child.stdout.write("partial dump");
+                setTimeout(() => proc.exit(1), 5);
+            });
+            return a.streamDump(["report_74"], "db/public/report_74/v1.dump", {}, () => undefined, silent)
+                .then(() => assert.fail("dumped"), err => {
+                    assert(err instanceof errors.ProcessError, err);
+                    assert.equal(a.started.length, 1);
+                    return store.list("");
+                })
+                .then(stored => {
+                    assert.deepEqual(stored, []);
+                    return settle();
+                });
+        });
+        it('should kill pg_dump when the upload fails', () => {
+            let store = new storage.MemoryStorage(silent);
+            let aborted = false;
+            store.uploadStream = source => ({
+                promise: new Promise((resolve, reject) => source.once("data", () => reject(new Error("S3 500")))),
+                abort: () => {
+                    aborted = true;
+                }
+            });
+            let a = streamingArchiver(fakeDb(respond), store, proc => proc.child.stdout.write("partial dump"));
+            return a.streamDump(["report_74"], "db/public/report_74/v1.dump", {}, () => undefined, silent)
+                .then(() => assert.fail("dumped"), err => {
+                    assert(err instanceof errors.StorageError, err);
+                    assert(/S3 500/.test(err.message), err.message);
+                    assert(a.started[0].killed);
+                    assert(aborted);
+                    return store.list("");
+                })
+                .then(stored => {
+                    assert.deepEqual(stored, []);
+                    return settle();
+                });
+        });
+        it('should kill pg_restore and psql and drop what they restored when the download fails', () => {
+            let db = fakeDb(respond);
+            let store = new storage.MemoryStorage(silent);
+            let a = streamingArchiver(db, store, proc => proc.child.stdin.resume());
+            return storeDump(store)
+                .then(() => {
+                    let downloadStream = store.downloadStream.bind(store);
+                    store.downloadStream = location => downloadStream(location)
+                        .then(download => {
+                            let rd = new stream.PassThrough();
+                            rd.write("partial dump");
+                            setTimeout(() => rd.emit("error", new Error("connection reset")), 5);
+                            return { stream: rd, abort: download.abort };
+                        });
+                    return a.restoreStreamedDump("report", 74, 1, loc, progress.noProgress(silent));
+                })
+                .then(() => assert.fail("restored"), err => {
+                    assert(/connection reset/.test(err.message), err.message);
+                    assert.deepEqual(a.started.map(p => [p.binary, p.killed]), [["pg_restore", true], ["psql", true]]);
+                    assert.deepEqual(drops(db), [[true, "drop table if exists $1~.$2~ cascade", "stats_74_1"]]);
+                    assert(!db.statements.some(s => /restore_timestamp/.test(s.sql)));
+                    return store.list("");
+                })
+                .then(stored => {
+                    assert.deepEqual(stored, [loc]);
+                    return settle();
+                });
+        });
+        it('should drop what was restored from a dump whose checksum does not match', () => {
+            let db = fakeDb(respond);
+            let store = new storage.MemoryStorage(silent);
+            // pg_restore and psql exit once their input has ended
+            let a = streamingArchiver(db, store, proc => {
+                proc.child.stdin.on("finish", () => {
+                    proc.child.stdout.end();
+                    proc.exit(0);
+                });
+                proc.child.stdin.resume();
+            });
+            return storeDump(store)
+                .then(() => a.restoreStreamedDump("report", 74, 1, loc, progress.noProgress(silent)))
+                .then(() => assert.fail("restored"), err => {
+                    assert(err instanceof errors.IntegrityError, err);
+                    assert.equal(err.expected, "expected");
+                    assert.deepEqual(a.started.map(p => [p.binary, p.killed]), [["pg_restore", false], ["psql", false]]);
+                    assert.deepEqual(drops(db), [[true, "drop table if exists $1~.$2~ cascade", "stats_74_1"]]);
+                    assert(!db.statements.some(s => /restore_timestamp/.test(s.sql)));
+                    return store.list("");
+                })
+                .then(stored => {
+                    assert.deepEqual(stored, [loc]);
+                    return settle();
+                });
+        });
+    });
+
+    describe('#snapshotDump()', function () {
+        // Report 74 has a table and a sequence
+        let respond = (method, sql, values) => {
+            if (/pg_export_snapshot/.test(sql)) {
+                return { snapshot: "00000003-0000001B-1" };
+            }
+            if (/pg_class/.test(sql)) {
+                return [{ name: "report_74_id_seq", kind: "S", bytes: "8192" }, { name: "stats_74_1", kind: "r", bytes: "16384" }];
+            }
+            if (/information_schema.columns/.test(sql)) {
+                return [{ name: "stats_74_1", signature: "id integer" }];
+            }
+            if (/count\(\*\)/.test(sql)) {
+                return { rows: "10" };
+            }
+            return method === "any" ? [] : {};
+        };
+
+        it('should describe the dumped tables, without sequences, in the snapshot of the dump', () => {
+            let db = fakeDb(respond);
+            let dumpArgs = null;
+            return createArchiver(db).snapshotDump(["report_74"], args => {
+                dumpArgs = args;
+                return Promise.resolve("dumped");
+            })
+                .then(dumped => {
+                    assert.equal(dumped.result, "dumped");
+                    assert.deepEqual(dumpArgs, ["--snapshot", "00000003-0000001B-1"]);
+                    assert.deepEqual(dumped.tables, [{ name: "stats_74_1", rows: 10, columns: ["id integer"] }]);
+                    let tx = db.statements.filter(s => s.tx);
+                    assert(/repeatable read/.test(tx[0].sql), tx[0].sql);
+                    assert(/pg_export_snapshot/.test(tx[1].sql), tx[1].sql);
+                    let counts = db.statements.filter(s => /count\(\*\)/.test(s.sql));
+                    assert.deepEqual(counts.map(s => [s.tx, s.values[1]]), [[true, "stats_74_1"]]);
+                });
+        });
+    });
+});
@@ -0,0 +1,79 @@
+const assert = require('assert');
+const path = require('path');
+const cli = require('../dist/cli');
+
+describe('command line interface', function () {
+
+    describe('#parseArgs()', function () {
+        it('should parse a command with ids and options', () => {
+            let opts = cli.parseArgs(["--json", "archive-report", "74", "75", "--config", "conf/other.js"]);
+            assert.equal(opts.command, "archive-report");
+            assert.deepEqual(opts.ids, [74, 75]);
+            assert.equal(opts.json, true);
+            assert.equal(opts.config, path.resolve("conf/other.js"));
+        });
+        it('should default to the bundled configuration', () => {
+            let opts = cli.parseArgs(["list-archived"]);
+            assert.equal(opts.config, path.resolve(__dirname, "..", "conf", "config.js"));
+            assert.equal(opts.json, false);
+        });
+        it('should accept --analysis for status', () => {
+            let opts = cli.parseArgs(["status", "--analysis", "4"]);
+            assert.equal(opts.analysis, true);
+            assert.deepEqual(opts.ids, [4]);
+        });
+        it('should accept --version for a single restore', () => {
+            let opts = cli.parseArgs(["restore-report", "74", "--version", "20261019T120000123Z"]);
+            assert.equal(opts.version, "20261019T120000123Z");
+            assert.deepEqual(opts.ids, [74]);
+            assert.equal(cli.parseArgs(["restore-report", "74"]).version, null);
+        });
+        it('should parse archive-analysis', () => {
+            let opts = cli.parseArgs(["archive-analysis", "4", "5"]);
+            assert.equal(opts.command, "archive-analysis");
+            assert.deepEqual(opts.ids, [4, 5]);
+        });
+        it('should accept a page for list-archived', () => {
+            let opts = cli.parseArgs(["list-archived", "--limit", "20", "--offset", "40"]);
+            assert.equal(opts.limit, 20);
+            assert.equal(opts.offset, 40);
+            assert.equal(cli.parseArgs(["list-archived"]).limit, null);
+        });
+        it('should parse the version commands', () => {
+            assert.equal(cli.parseArgs(["versions", "--analysis", "4"]).analysis, true);
+            assert.equal(cli.parseArgs(["prune"]).command, "prune");
+        });
+        it('should only repair when asked to', () => {
+            assert.equal(cli.parseArgs(["reconcile"]).repair, false);
+            assert.equal(cli.parseArgs(["reconcile", "--repair"]).repair, true);
+        });
+        it('should parse the migrate command', () => {
+            assert.equal(cli.parseArgs(["migrate"]).command, "migrate");
+        });
+        it('should parse the history command and the initiator', () => {
+            let opts = cli.parseArgs(["history", "--analysis", "4", "--limit", "5"]);
+            assert.equal(opts.command, "history");
+            assert.equal(opts.analysis, true);
+            assert.equal(opts.limit, 5);
+            assert.equal(cli.parseArgs(["restore-report", "74", "--initiator", "alice"]).initiator, "alice");
+            assert.equal(cli.parseArgs(["restore-report", "74"]).initiator, null);
+        });
+        it('should reject invalid command lines', () => {
+            [[], ["frobnicate"], ["archive-report"], ["archive-analysis"], ["list-archived", "--limit", "0"],
+            ["list-archived", "--limit", "x"], ["status", "1", "--offset", "3"], ["restore-report", "x"], ["status", "1", "2"],
+            ["list-archived", "1"], ["--analysis", "restore-analysis", "4"], ["--verbose", "status", "1"], ["status", "1", "--config"],
+            ["restore-report", "1", "2", "--version", "v"], ["archive-report", "1", "--version", "v"], ["restore-report", "1", "--version"],
+            ["versions"], ["prune", "1"], ["reconcile", "1"], ["prune", "--repair"], ["migrate", "1"],
+            ["history"], ["history", "1", "2"], ["status", "1", "--initiator", "bob"], ["archive-report", "1", "--initiator"]]
+                .forEach(argv => assert.throws(() => cli.parseArgs(argv), cli.UsageError, JSON.stringify(argv)));
+        });
+    });
+
+    describe('#exitCode()', function () {
+        it('should distinguish success, failure and partial failure', () => {
+            assert.equal(cli.exitCode([{ id: 1, ok: true }]), cli.EXIT_OK);
+            assert.equal(cli.exitCode([{ id: 1, ok: false }]), cli.EXIT_FAILED);
+            assert.equal(cli.exitCode([{ id: 1, ok: true }, { id: 2, ok: false }]), cli.EXIT_PARTIAL);
+        });
+    });
+});
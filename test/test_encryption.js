@@ -0,0 +1,159 @@
+const assert = require('assert');
+const crypto = require("crypto");
+const fs = require("fs")
+const os = require("os")
+const path = require("path")
+const stream = require("stream")
+const encryption = require('../dist/encryption');
+const storage = require('../dist/storage');
+
+const logger = {
+    error: () => { },
+    warn: () => { },
+    info: () => { },
+    verbose: () => { },
+    debug: () => { },
+    silly: () => { }
+};
+
+function tmpName(name) {
+    return path.join(os.tmpdir(), `ts-archive-restore-test-${process.pid}-${name}`);
+}
+
+function writeKeyfile(name, current, ids) {
+    let keys = {};
+    ids.forEach(id => keys[id] = crypto.randomBytes(32).toString("base64"));
+    let fn = tmpName(name);
+    fs.writeFileSync(fn, JSON.stringify({ current: current, keys: keys }), "utf8");
+    return fn;
+}
+
+function readAll(rd) {
+    return new Promise((resolve, reject) => {
+        let chunks = [];
+        rd.on("data", chunk => chunks.push(chunk));
+        rd.on("error", reject);
+        rd.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+describe('encryption', function () {
+
+    describe('EncryptStream/DecryptStream', function () {
+        it('should decrypt what was encrypted', () => {
+            let key = crypto.randomBytes(32);
+            let iv = crypto.randomBytes(12);
+            let plain = crypto.randomBytes(100000);
+            let encrypt = new encryption.EncryptStream(key, iv);
+            encrypt.end(plain);
+            return readAll(encrypt)
+                .then(encrypted => {
+                    assert.equal(encrypted.length, plain.length + 16);
+                    let decrypt = new encryption.DecryptStream(key, iv);
+                    decrypt.end(encrypted);
+                    return readAll(decrypt);
+                })
+                .then(decrypted => assert.ok(decrypted.equals(plain)));
+        });
+        it('should fail on tampered data', () => {
+            let key = crypto.randomBytes(32);
+            let iv = crypto.randomBytes(12);
+            let encrypt = new encryption.EncryptStream(key, iv);
+            encrypt.end(Buffer.from("This is a test", "utf8"));
+            return readAll(encrypt)
+                .then(encrypted => {
+                    encrypted[0] ^= 1;
+                    let decrypt = new encryption.DecryptStream(key, iv);
+                    decrypt.end(encrypted);
+                    return readAll(decrypt);
+                })
+                .then(() => assert.fail("tampered data decrypted"),
+                err => assert.ok(/Unable to decrypt/.test(err.message)));
+        });
+    });
+
+    describe('LocalKeyProvider', function () {
+        it('should unwrap with the key that wrapped', () => {
+            let keyfile = writeKeyfile("keys-1", "k2", ["k1", "k2"]);
+            let provider = new encryption.LocalKeyProvider(keyfile);
+            let dataKey = crypto.randomBytes(32);
+            return provider.wrapKey(dataKey)
+                .then(wrapped => {
+                    assert.equal(wrapped.keyId, "k2");
+                    return provider.unwrapKey(wrapped);
+                })
+                .then(unwrapped => {
+                    assert.ok(unwrapped.equals(dataKey));
+                    fs.unlinkSync(keyfile);
+                });
+        });
+        it('should reject keyfiles without the current key', () => {
+            let keyfile = writeKeyfile("keys-2", "k3", ["k1"]);
+            assert.throws(() => new encryption.LocalKeyProvider(keyfile), /current key k3/);
+            fs.unlinkSync(keyfile);
+        });
+    });
+
+    describe('EncryptedStorage', function () {
+        it('should store ciphertext and return the plain object', () => {
+            let keyfile = writeKeyfile("keys-3", "k1", ["k1"]);
+            let backend = new storage.MemoryStorage(logger);
+            let encrypted = new encryption.EncryptedStorage(backend, new encryption.LocalKeyProvider(keyfile), logger);
+            let src = tmpName("enc-src");
+            let dst = tmpName("enc-dst");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            return encrypted.upload(src, "db/public/report_1.dump", { sha256: "abc" })
+                .then(loc => {
+                    assert.equal(loc, "memory://db/public/report_1.dump");
+                    assert.ok(!backend.objects["db/public/report_1.dump"].toString("utf8").includes("This is a test"));
+                    return encrypted.metadata(loc)
+                        .then(metadata => {
+                            assert.equal(metadata.sha256, "abc");
+                            assert.equal(metadata["encryption"], "aes-256-gcm");
+                            assert.equal(metadata["key-id"], "k1");
+                            return encrypted.download(loc, dst);
+                        });
+                })
+                .then(() => {
+                    assert.equal(fs.readFileSync(dst, "utf8"), "This is a test");
+                    [keyfile, src, dst].forEach(fn => fs.unlinkSync(fn));
+                });
+        });
+        it('should decrypt objects wrapped with a retired key', () => {
+            let keyfile = writeKeyfile("keys-4", "k1", ["k1"]);
+            let backend = new storage.MemoryStorage(logger);
+            let before = new encryption.EncryptedStorage(backend, new encryption.LocalKeyProvider(keyfile), logger);
+            let source = new stream.PassThrough();
+            source.end("old");
+            return before.uploadStream(source, "report_1.dump").promise
+                .then(loc => {
+                    // Rotate: k2 becomes current, k1 is kept
+                    let keys = JSON.parse(fs.readFileSync(keyfile, "utf8"));
+                    keys.keys["k2"] = crypto.randomBytes(32).toString("base64");
+                    keys.current = "k2";
+                    fs.writeFileSync(keyfile, JSON.stringify(keys), "utf8");
+                    let after = new encryption.EncryptedStorage(backend, new encryption.LocalKeyProvider(keyfile), logger);
+                    return after.downloadStream(loc);
+                })
+                .then(download => readAll(download.stream))
+                .then(data => {
+                    assert.equal(data.toString("utf8"), "old");
+                    fs.unlinkSync(keyfile);
+                });
+        });
+        it('should return objects stored without encryption as they are', () => {
+            let keyfile = writeKeyfile("keys-5", "k1", ["k1"]);
+            let backend = new storage.MemoryStorage(logger);
+            let encrypted = new encryption.EncryptedStorage(backend, new encryption.LocalKeyProvider(keyfile), logger);
+            let src = tmpName("plain-src");
+            fs.writeFileSync(src, "plain", "utf8");
+            return backend.upload(src, "report_2.dump")
+                .then(loc => encrypted.downloadStream(loc))
+                .then(download => readAll(download.stream))
+                .then(data => {
+                    assert.equal(data.toString("utf8"), "plain");
+                    [keyfile, src].forEach(fn => fs.unlinkSync(fn));
+                });
+        });
+    });
+});
@@ -0,0 +1,93 @@
+const assert = require('assert');
+const errors = require('../dist/errors');
+const Operation = require('../dist/progress').Operation;
+const retry = require('../dist/retry');
+const storage = require('../dist/storage');
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+describe('errors', function () {
+
+    describe('ArchiveRestoreError', function () {
+        it('should be the base of every error of the library', () => {
+            [
+                new errors.NotPresentError("Report 3 does not exist", "report", 3),
+                new errors.NotArchivedError("Analysis 4 is not archived", "analysis", 4),
+                new errors.StorageError("Download failed", "memory://report_3.dump"),
+                new errors.IntegrityError("report", 74, "memory://report_74.dump", "aaa", "bbb"),
+                new errors.ManifestMismatchError("report", 74, ["table segment_74 is missing"]),
+                new errors.BatchError("Restore", "report", [])
+            ].forEach(err => {
+                assert.ok(err instanceof errors.ArchiveRestoreError, err.name);
+                assert.ok(err instanceof Error);
+                assert.equal(err.name, err.constructor.name);
+            });
+        });
+        it('should still be catchable as AlreadyArchivedOrDoesNotExistError', () => {
+            assert.ok(new errors.NotPresentError("Report 3 does not exist", "report", 3) instanceof errors.AlreadyArchivedOrDoesNotExistError);
+        });
+    });
+
+    describe('#stageError()', function () {
+        it('should wrap a failure in the error of its stage, keeping its cause and stderr', () => {
+            let cause = new errors.ProcessError("pg_restore", ["-d", "db"], 1, null, "relation exists");
+            let err = errors.stageError(cause, "restoring");
+            assert.ok(err instanceof errors.RestoreError);
+            assert.strictEqual(err.cause, cause);
+            assert.equal(err.stderr, "relation exists");
+            assert.ok(errors.stageError("timeout", "dumping") instanceof errors.DumpError);
+            assert.ok(errors.stageError(new Error("socket hang up"), "uploading") instanceof errors.StorageError);
+            assert.ok(errors.stageError(new Error("deadlock"), "cleaning") instanceof errors.CleanupError);
+            let typed = new errors.NotArchivedError("Report 3 is not archived", "report", 3);
+            assert.strictEqual(errors.stageError(typed, "validating"), typed);
+        });
+    });
+
+    describe('Operation failures', function () {
+        it('should carry the object and stage of the operation that failed', () => {
+            let op = new Operation("archive", "report", 9, silent, p => {
+                p.reportStage("dumping");
+                return Promise.reject(new errors.ProcessError("pg_dump", [], 1, null, "disk full"));
+            });
+            return op.then(() => assert.fail("archive succeeded"), err => {
+                assert.ok(err instanceof errors.DumpError);
+                assert.equal(err.object_type, "report");
+                assert.equal(err.id, 9);
+                assert.equal(err.stage, "dumping");
+                assert.equal(err.stderr, "disk full");
+            });
+        });
+        it('should keep the object and stage of a cascaded operation that failed', () => {
+            let op = new Operation("restore", "analysis", 4, silent, p => {
+                p.reportStage("restoring");
+                return p.startChild("restore", "report", 7, child => {
+                    child.reportStage("downloading");
+                    return Promise.reject(new Error("NoSuchKey"));
+                });
+            });
+            return op.then(() => assert.fail("restore succeeded"), err => {
+                assert.ok(err instanceof errors.StorageError);
+                assert.equal(err.object_type, "report");
+                assert.equal(err.id, 7);
+                assert.equal(err.stage, "downloading");
+            });
+        });
+    });
+
+    describe('RetryingStorage failures', function () {
+        it('should be StorageErrors holding the location', () => {
+            let backend = new retry.RetryingStorage(new storage.MemoryStorage(), new retry.Retrier({}, silent));
+            return backend.download("memory://db/public/report_3.dump", "/nonexistent/report_3.dump")
+                .then(() => assert.fail("download succeeded"), err => {
+                    assert.ok(err instanceof errors.StorageError);
+                    assert.equal(err.location, "memory://db/public/report_3.dump");
+                    assert.ok(/No object stored in memory/.test(err.message));
+                });
+        });
+    });
+});
@@ -0,0 +1,76 @@
+const assert = require('assert');
+const fs = require("fs")
+const os = require("os")
+const path = require("path")
+const formats = require('../dist/formats');
+
+function tmpName(name) {
+    return path.join(os.tmpdir(), `ts-archive-restore-test-${process.pid}-${name}`);
+}
+
+describe('dump formats', function () {
+
+    describe('#dumpOptions()', function () {
+        it('should default to single job custom format dumps', () => {
+            assert.deepEqual(formats.dumpOptions({}), { format: "custom", jobs: 1, compression: null });
+        });
+        it('should keep the configured settings', () => {
+            assert.deepEqual(formats.dumpOptions({ dump: { format: "directory", jobs: 4, compression: 0 } }),
+                { format: "directory", jobs: 4, compression: 0 });
+        });
+        it('should refuse invalid settings', () => {
+            assert.throws(() => formats.dumpOptions({ dump: { format: "tar" } }), /Unknown dump format/);
+            assert.throws(() => formats.dumpOptions({ dump: { jobs: 0 } }), /jobs/);
+            assert.throws(() => formats.dumpOptions({ dump: { compression: 10 } }), /compression/);
+        });
+    });
+
+    describe('#metadataFormat()', function () {
+        it('should treat dumps without a recorded format as custom format', () => {
+            assert.equal(formats.metadataFormat({ sha256: "abc" }), "custom");
+            assert.equal(formats.metadataFormat({ "dump-format": "directory" }), "directory");
+        });
+    });
+
+    describe('#pgDumpArgs()', function () {
+        it('should dump custom format to a file or the standard output', () => {
+            let options = formats.dumpOptions({ dump: { compression: 6 } });
+            assert.deepEqual(formats.pgDumpArgs(options, "/tmp/d"), ["-c", "-Fc", "-Z", "6", "-f", "/tmp/d"]);
+            assert.deepEqual(formats.pgDumpArgs(options), ["-c", "-Fc", "-Z", "6"]);
+        });
+        it('should dump directory format with parallel jobs', () => {
+            let options = formats.dumpOptions({ dump: { format: "directory", jobs: 3 } });
+            assert.deepEqual(formats.pgDumpArgs(options, "/tmp/d"), ["-c", "-Fd", "-j", "3", "-f", "/tmp/d"]);
+        });
+    });
+
+    describe('#pgRestoreArgs()', function () {
+        it('should restore according to the format of the dump', () => {
+            let options = formats.dumpOptions({ dump: { format: "directory", jobs: 3 } });
+            assert.deepEqual(formats.pgRestoreArgs("directory", options, "trafficstats", "/tmp/d"),
+                ["-c", "--if-exists", "-Fd", "-j", "3", "-d", "trafficstats", "/tmp/d"]);
+            assert.deepEqual(formats.pgRestoreArgs("custom", options, "trafficstats", "/tmp/d"), ["-c", "-Fc", "/tmp/d"]);
+        });
+    });
+
+    describe('#packDirectory()/#unpackDirectory()', function () {
+        it('should restore the packaged directory', () => {
+            let src = tmpName("dir-src");
+            let tar = tmpName("dir.tar");
+            let dst = tmpName("dir-dst");
+            fs.mkdirSync(src);
+            fs.writeFileSync(path.join(src, "toc.dat"), "toc", "utf8");
+            fs.writeFileSync(path.join(src, "3001.dat.gz"), "data", "utf8");
+            return formats.packDirectory(src, tar)
+                .then(() => formats.removeDirectory(src))
+                .then(() => formats.unpackDirectory(tar, dst))
+                .then(() => {
+                    assert.ok(!fs.existsSync(src));
+                    assert.equal(fs.readFileSync(path.join(dst, "toc.dat"), "utf8"), "toc");
+                    assert.equal(fs.readFileSync(path.join(dst, "3001.dat.gz"), "utf8"), "data");
+                    fs.unlinkSync(tar);
+                    return formats.removeDirectory(dst);
+                });
+        });
+    });
+});
@@ -25,18 +25,34 @@ const rewire = require("rewire");
 const assert = require('assert');
 const fs = require("fs")
 const ts = rewire('../dist/ts-archive-restore');
+const archiver = ts.createArchiver(global.sails.config.archiveRestoreConfig);
 
 describe('trafficstats-archive-restore', function () {
 
     describe('#execDBCmds()', function () {
         it('should execute a simple select', done => {
-            ts.__get__('execDBCmds')("select 1 from report").then(() => console.log("success")).catch(err => assert.fail(err));
+            archiver.execDBCmds("select 1 from report").then(() => console.log("success")).catch(err => assert.fail(err));
             done();
         });
     });
 
+    describe('#resumeJobs()', function () {
+        it('should finish or roll back every interrupted job', done => {
+            archiver.resumeJobs()
+                .then(results => {
+                    assert.deepEqual(results.filter(r => r.action === "failed"), []);
+                    return archiver.ledger.unfinished();
+                })
+                .then(jobs => {
+                    assert.equal(jobs.length, 0);
+                    done();
+                })
+                .catch(done);
+        }).timeout(0)
+    });
+
     describe('logger', function () {
-        let logger = ts.__get__("logger");
+        let logger = archiver.logger;
         it('should log a verbose message', done => {
             logger.verbose(() => ["verbose"])
             done();
@@ -56,7 +72,7 @@ describe('trafficstats-archive-restore', function () {
     });
 
     describe('generate temp file', function () {
-        let generateTmpFile = ts.__get__("generateTmpFile");
+        let generateTmpFile = rewire('../dist/archiver').__get__("generateTmpFile");
         let tmpFile;
         it('should generate a valid temporary file path', done => {
             generateTmpFile().then(fn => {
@@ -86,6 +102,17 @@ describe('trafficstats-archive-restore', function () {
         let archiveReport = ts.__get__("archiveReport");
         let restoreReport = ts.__get__("restoreReport");
         let restoreAnalysis = ts.__get__("restoreAnalysis");
+        let planArchiveReport = ts.__get__("planArchiveReport");
+        it('should plan the archive of report 74 and analysis 4 without archiving them', done => {
+            planArchiveReport(74).then(plan => {
+                assert.equal(plan.report.id, 74);
+                assert.deepEqual(plan.analyses.map(a => a.id), [4]);
+                assert.ok(plan.report.tables.length > 0);
+                assert.ok(plan.report.drop_statements.every(s => /DROP/.test(s)));
+                done();
+            })
+                .catch(done);
+        }).timeout(0)
         it('should archive report 74', done => {
             archiveReport(74).then(() => {
                 done();
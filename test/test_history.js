@@ -0,0 +1,123 @@
+const assert = require('assert');
+const History = require('../dist/history').History;
+const Operation = require('../dist/progress').Operation;
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+// Database recording the statements run, and returning the given rows
+function fakeDb(rows, total) {
+    let db = {
+        statements: [],
+        none: (sql, values) => {
+            db.statements.push({ sql: sql, values: values });
+            return Promise.resolve(null);
+        },
+        any: (sql, values) => {
+            db.statements.push({ sql: sql, values: values });
+            return Promise.resolve(rows || []);
+        },
+        one: (sql, values) => {
+            db.statements.push({ sql: sql, values: values });
+            return Promise.resolve({ total: `${total || 0}` });
+        }
+    };
+    return db;
+}
+
+// Values of an entry inserted by History.observe(), by column
+function inserted(statement) {
+    let v = statement.values;
+    return {
+        operation_id: v[0], correlation_id: v[1], parent_operation_id: v[2], operation: v[3], object_type: v[4],
+        object_id: v[5], initiator: v[6], started: v[7], finished: v[8], bytes: v[9], archive_location: v[10],
+        version: v[11], ok: v[12], error: v[13], reason: v[14]
+    };
+}
+
+describe('history', function () {
+
+    describe('#observe()', function () {
+        it('should record an operation and those it cascades to', () => {
+            let db = fakeDb();
+            let history = new History(db, "public", silent);
+            let op = history.observe(new Operation("archive", "report", 74, silent, p => {
+                p.reportStage("dumping");
+                p.reportLocation("memory://db/public/report_74/v1.dump", "v1");
+                let listener = p.reportTransfer("upload");
+                listener(100, null);
+                listener(250, null);
+                return p.startChild("archive", "analysis", 4, child => {
+                    child.reportTransfer("upload")(10, 10);
+                    return Promise.resolve("memory://db/public/analysis_4/v1.dump");
+                }).then(() => "memory://db/public/report_74/v1.dump");
+            }), "alice");
+            return op.then(() => {
+                let entries = db.statements.filter(s => /^insert into public.archive_history/.test(s.sql)).map(inserted);
+                assert.equal(entries.length, 2);
+                let child = entries[0];
+                let parent = entries[1];
+                assert.equal(parent.operation_id, op.operation_id);
+                assert.equal(parent.parent_operation_id, null);
+                assert.equal(parent.initiator, "alice");
+                assert.equal(parent.bytes, 250);
+                assert.equal(parent.archive_location, "memory://db/public/report_74/v1.dump");
+                assert.equal(parent.version, "v1");
+                assert.equal(parent.ok, true);
+                assert.equal(parent.error, null);
+                assert(parent.started <= parent.finished);
+                assert.equal(child.object_type, "analysis");
+                assert.equal(child.parent_operation_id, op.operation_id);
+                assert.equal(child.correlation_id, op.correlation_id);
+                assert.equal(child.initiator, "alice");
+                assert.equal(child.bytes, 10);
+                assert.equal(child.archive_location, null);
+            });
+        });
+        it('should record the error of a failed operation', () => {
+            let db = fakeDb();
+            let history = new History(db, "public", silent);
+            return history.observe(new Operation("restore", "report", 7, silent, p => {
+                p.reportStage("downloading");
+                p.reportLocation("memory://db/public/report_7/v1.dump", null);
+                return Promise.reject(new Error("no such key"));
+            }))
+                .then(() => assert.fail("restore succeeded"), () => {
+                    let entry = inserted(db.statements[0]);
+                    assert.equal(entry.ok, false);
+                    assert.equal(entry.reason, "StorageError");
+                    assert(/no such key/.test(entry.error), entry.error);
+                    assert.equal(entry.initiator, null);
+                    assert.equal(entry.version, null);
+                });
+        });
+        it('should not fail the operation when the entry cannot be written', () => {
+            let db = fakeDb();
+            db.none = () => Promise.reject(new Error("relation archive_history does not exist"));
+            return new History(db, "public", silent).observe(new Operation("restore", "report", 7, silent, () => Promise.resolve({})));
+        });
+    });
+
+    describe('#list()', function () {
+        it('should pass the filters and page, and convert the byte counts', () => {
+            let db = fakeDb([{ id: 1, bytes: "12345678901" }], 1);
+            return new History(db, "public", silent).list({ object_type: "report", object_id: 74, operation: "restore", limit: 10 })
+                .then(page => {
+                    assert.deepEqual(db.statements[0].values, ["report", 74, "restore", null, null, null, 10, 0]);
+                    assert.deepEqual(db.statements[1].values, ["report", 74, "restore", null, null, null]);
+                    assert.strictEqual(page.items[0].bytes, 12345678901);
+                    assert.equal(page.total, 1);
+                    assert.equal(page.limit, 10);
+                    assert.equal(page.offset, 0);
+                });
+        });
+        it('should reject an invalid page', () => {
+            return new History(fakeDb(), "public", silent).list({ limit: 0 })
+                .then(() => assert.fail("listed"), err => assert(/Invalid page/.test(err.message)));
+        });
+    });
+});
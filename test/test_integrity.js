@@ -0,0 +1,53 @@
+const assert = require('assert');
+const fs = require("fs")
+const os = require("os")
+const path = require("path")
+const integrity = require('../dist/integrity');
+const errors = require('../dist/errors');
+
+describe('dump integrity', function () {
+
+    describe('#sha256File()', function () {
+        it('should compute the SHA-256 of the file contents', done => {
+            let fn = path.join(os.tmpdir(), `ts-archive-restore-test-${process.pid}-sha256`);
+            fs.writeFileSync(fn, "This is a test", "utf8");
+            integrity.sha256File(fn)
+                .then(sum => {
+                    assert.equal(sum, "c7be1ed902fb8dd4d48997c6452f5d7e509fbcdbe2808b16bcf4edce4c07d14e");
+                    fs.unlinkSync(fn);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should reject when the file cannot be read', done => {
+            integrity.sha256File(path.join(os.tmpdir(), "ts-archive-restore-test-missing"))
+                .then(() => done(new Error("checksum should have failed")))
+                .catch(() => done());
+        });
+    });
+
+    describe('HashStream', function () {
+        it('should pass data through and compute its SHA-256', done => {
+            let hash = new integrity.HashStream();
+            let chunks = [];
+            hash.on("data", chunk => chunks.push(chunk));
+            hash.on("end", () => {
+                assert.equal(Buffer.concat(chunks).toString("utf8"), "This is a test");
+                assert.equal(hash.sha256, "c7be1ed902fb8dd4d48997c6452f5d7e509fbcdbe2808b16bcf4edce4c07d14e");
+                done();
+            });
+            hash.write("This is ");
+            hash.end("a test");
+        });
+    });
+
+    describe('IntegrityError', function () {
+        it('should describe the corrupt dump', () => {
+            let err = new errors.IntegrityError("report", 74, "memory://report_74.dump", "aaa", "bbb");
+            assert.ok(err instanceof Error);
+            assert.equal(err.object_type, "report");
+            assert.equal(err.id, 74);
+            assert.ok(/report 74/.test(err.message));
+        });
+    });
+});
@@ -0,0 +1,128 @@
+const assert = require('assert');
+const EventEmitter = require('events');
+const locks = require('../dist/locks');
+const errors = require('../dist/errors');
+
+const logger = {
+    error: () => { },
+    warn: () => { },
+    info: () => { },
+    verbose: () => { },
+    debug: () => { },
+    silly: () => { }
+};
+
+/**
+ * DB whose advisory locks are refused "contended" times before being granted.
+ * Every connection opened is kept in "sessions".
+ */
+function fakeDb(contended) {
+    let calls = [];
+    let sessions = [];
+    let newSession = () => ({
+        client: new EventEmitter(),
+        one: (sql, params) => {
+            calls.push([/unlock/.test(sql) ? "unlock" : "lock"].concat(params));
+            if (/pg_try_advisory_lock/.test(sql) && contended > 0) {
+                contended--;
+                return Promise.resolve({ locked: false });
+            }
+            return Promise.resolve({ locked: true, unlocked: true });
+        }
+    });
+    return {
+        calls: calls,
+        sessions: sessions,
+        connect: options => {
+            assert.deepEqual(options, { direct: true });
+            let session = newSession();
+            sessions.push(session);
+            return Promise.resolve(session);
+        }
+    };
+}
+
+function delay(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('object locks', function () {
+
+    describe('#lockOrder()', function () {
+        it('should lock analyses before reports, by id, once each', () => {
+            let keys = [{ object_type: "report", id: 75 }, { object_type: "analysis", id: 4 },
+            { object_type: "report", id: 74 }, { object_type: "report", id: 75 }];
+            assert.deepEqual(locks.lockOrder(keys).map(k => `${k.object_type} ${k.id}`), ["analysis 4", "report 74", "report 75"]);
+        });
+    });
+
+    describe('LockManager', function () {
+        it('should run operations on the same object one after the other', done => {
+            let manager = new locks.LockManager(fakeDb(0), logger, 1);
+            let events = [];
+            let op = (name) => manager.withLocks([{ object_type: "report", id: 74 }], () => {
+                events.push(`${name} start`);
+                return delay(5).then(() => {
+                    events.push(`${name} end`);
+                    return name;
+                });
+            });
+            Promise.all([op("a"), op("b")])
+                .then(results => {
+                    assert.deepEqual(results, ["a", "b"]);
+                    assert.deepEqual(events, ["a start", "a end", "b start", "b end"]);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should release the locks when the operation fails', done => {
+            let db = fakeDb(0);
+            let manager = new locks.LockManager(db, logger, 1);
+            manager.withLocks([{ object_type: "analysis", id: 4 }], () => Promise.reject(new Error("boom")))
+                .then(() => done(new Error("operation should have failed")))
+                .catch(err => {
+                    assert.equal(err.message, "boom");
+                    assert.deepEqual(db.calls.map(c => c[0]), ["lock", "unlock"]);
+                    return manager.withLocks([{ object_type: "analysis", id: 4 }], () => Promise.resolve("again"));
+                })
+                .then(result => {
+                    assert.equal(result, "again");
+                    done();
+                })
+                .catch(done);
+        });
+        it('should wait for an advisory lock held by another process', done => {
+            let db = fakeDb(2);
+            let manager = new locks.LockManager(db, logger, 1);
+            manager.withLocks([{ object_type: "report", id: 74 }], () => Promise.resolve("locked"))
+                .then(result => {
+                    assert.equal(result, "locked");
+                    assert.deepEqual(db.calls.map(c => c[0]), ["lock", "lock", "lock", "unlock"]);
+                    assert.deepEqual(db.calls[0].slice(1), [locks.LOCK_CLASSES.report, 74]);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should fail the operations holding locks on a lost connection, and reconnect', () => {
+            let db = fakeDb(0);
+            let manager = new locks.LockManager(db, logger, 1);
+            return manager.withLocks([{ object_type: "report", id: 74 }], () => {
+                db.sessions[0].client.emit("end");
+                return Promise.resolve("done");
+            })
+                .then(() => assert.fail("operation succeeded"), err => {
+                    assert(err instanceof errors.LockLostError, err);
+                    assert.equal(err.object_type, "report");
+                    assert.equal(err.id, 74);
+                    // The locks of the lost connection are not released again
+                    assert.deepEqual(db.calls.map(c => c[0]), ["lock"]);
+                    return manager.withLocks([{ object_type: "report", id: 74 }], () => Promise.resolve("again"));
+                })
+                .then(result => {
+                    assert.equal(result, "again");
+                    assert.equal(db.sessions.length, 2);
+                    assert.deepEqual(db.calls.map(c => c[0]), ["lock", "lock", "unlock"]);
+                });
+        });
+    });
+});
@@ -0,0 +1,40 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Logger = require('../dist/logger').Logger;
+
+function readLines(file) {
+    return fs.readFileSync(file, "utf8").split("\n").filter(line => line.length > 0);
+}
+
+describe('logger', function () {
+    let directory = fs.mkdtempSync(path.join(os.tmpdir(), "ts-archive-restore-logs-"));
+
+    describe('json format', function () {
+        it('should write each line as a JSON object holding the fields of the logger', done => {
+            let logger = new Logger({ directory: directory, filename: "json.log", level: "info", console: false, format: "json" });
+            logger.child({ correlation_id: "c1", object_id: 3 }).child({ stage: "dumping" }).info(() => ["dumped %s", "report_3"]);
+            logger.info(() => ["plain"]);
+            setTimeout(() => {
+                let lines = readLines(path.join(directory, "json.log")).map(line => JSON.parse(line));
+                assert.equal(lines.length, 2);
+                assert.equal(lines[0].message, "dumped report_3");
+                assert.equal(lines[0].level, "info");
+                assert.equal(lines[0].correlation_id, "c1");
+                assert.equal(lines[0].object_id, 3);
+                assert.equal(lines[0].stage, "dumping");
+                assert.ok(!isNaN(Date.parse(lines[0].timestamp)));
+                assert.equal(lines[1].correlation_id, undefined);
+                done();
+            }, 100);
+        });
+    });
+
+    describe('levels', function () {
+        it('should not evaluate the messages of the levels it does not log', () => {
+            let logger = new Logger({ directory: directory, filename: "levels.log", level: "info", console: false });
+            logger.child({ stage: "restoring" }).debug(() => assert.fail("debug message evaluated"));
+        });
+    });
+});
@@ -0,0 +1,36 @@
+const assert = require('assert');
+const manifest = require('../dist/manifest');
+
+function table(overrides) {
+    return Object.assign({ name: "stats_74_1", rows: 10, columns: ["id integer", "speed double precision"] }, overrides);
+}
+
+function archived(tables) {
+    return {
+        version: manifest.MANIFEST_VERSION, object_type: "report", id: 74, created: "2026-01-01T00:00:00.000Z",
+        pg_dump_version: "pg_dump (PostgreSQL) 16.2", server_version: "16.2", tables: tables, dependencies: []
+    };
+}
+
+describe('archive manifest', function () {
+
+    describe('#compareManifest()', function () {
+        it('should accept a restore matching the manifest', () => {
+            assert.deepEqual(manifest.compareManifest(archived([table({})]), [table({})]), []);
+        });
+        it('should report tables that were not restored', () => {
+            let m = archived([table({}), table({ name: "segment_74" })]);
+            assert.equal(manifest.compareManifest(m, [table({}), table({ name: "segment_74", rows: null, columns: [] })]).length, 1);
+            assert.equal(manifest.compareManifest(m, [table({})]).length, 1);
+        });
+        it('should report row count and column differences', () => {
+            let actual = [table({ rows: 9, columns: ["id integer"] })];
+            assert.equal(manifest.compareManifest(archived([table({})]), actual).length, 2);
+        });
+        it('should not compare the sequences listed by older manifests', () => {
+            let m = archived([table({}), table({ name: "report_74_id_seq", rows: null, columns: [] })]);
+            assert.deepEqual(manifest.compareManifest(m, [table({}), table({ name: "report_74_id_seq", rows: null, columns: [] })]), []);
+            assert.deepEqual(manifest.compareManifest(m, [table({})]), []);
+        });
+    });
+});
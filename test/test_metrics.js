@@ -0,0 +1,106 @@
+const assert = require('assert');
+const http = require('http');
+const metrics = require('../dist/metrics');
+const Operation = require('../dist/progress').Operation;
+const ProcessError = require('../dist/errors').ProcessError;
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+describe('metrics', function () {
+
+    describe('MetricsRegistry', function () {
+        it('should render counters and histograms in Prometheus text format', () => {
+            let registry = new metrics.MetricsRegistry();
+            let counter = registry.counter("jobs_total", "Jobs");
+            counter.inc({ type: "report" });
+            counter.inc({ type: "report" }, 2);
+            counter.inc({ type: 'say "hi"' });
+            registry.histogram("wait_seconds", "Wait", [1, 10]).observe({}, 5);
+            assert.strictEqual(registry.counter("jobs_total", "Jobs"), counter);
+            assert.equal(registry.render(), [
+                '# HELP jobs_total Jobs',
+                '# TYPE jobs_total counter',
+                'jobs_total{type="report"} 3',
+                'jobs_total{type="say \\"hi\\""} 1',
+                '# HELP wait_seconds Wait',
+                '# TYPE wait_seconds histogram',
+                'wait_seconds_bucket{le="1"} 0',
+                'wait_seconds_bucket{le="10"} 1',
+                'wait_seconds_bucket{le="+Inf"} 1',
+                'wait_seconds_sum 5',
+                'wait_seconds_count 1',
+                ''
+            ].join("\n"));
+        });
+        it('should refuse to register a metric name twice with different types', () => {
+            let registry = new metrics.MetricsRegistry();
+            registry.counter("jobs", "Jobs");
+            assert.throws(() => registry.histogram("jobs", "Jobs"), /already registered/);
+        });
+    });
+
+    describe('ArchiveMetrics', function () {
+        it('should count operations, stages, bytes and cascades', () => {
+            let registry = new metrics.MetricsRegistry();
+            let archiveMetrics = new metrics.ArchiveMetrics(registry);
+            let op = archiveMetrics.observe(new Operation("restore", "analysis", 4, silent, p => {
+                p.reportStage("downloading");
+                let listener = p.reportTransfer("download");
+                listener(100, 300);
+                listener(300, 300);
+                p.reportTransfer("download")(50, 50);
+                p.reportStage("restoring");
+                return p.startChild("restore", "report", 7, child => {
+                    child.reportStage("restoring");
+                    return Promise.resolve();
+                });
+            }));
+            return op.then(() => {
+                let analysis = { operation: "restore", object_type: "analysis" };
+                assert.equal(registry.counter("ts_archive_operations_total").get(Object.assign({ outcome: "success" }, analysis)), 1);
+                assert.equal(registry.counter("ts_archive_operations_total").get({ operation: "restore", object_type: "report", outcome: "success" }), 1);
+                assert.equal(registry.counter("ts_archive_cascaded_total").get({ operation: "restore", object_type: "report" }), 1);
+                assert.equal(registry.counter("ts_archive_transferred_bytes_total").get({ direction: "download", object_type: "analysis" }), 350);
+                assert.equal(registry.histogram("ts_archive_stage_duration_seconds").count(Object.assign({ stage: "downloading" }, analysis)), 1);
+                assert.equal(registry.histogram("ts_archive_stage_duration_seconds").count(Object.assign({ stage: "restoring" }, analysis)), 1);
+            });
+        });
+        it('should count failures by the class of their error', () => {
+            let registry = new metrics.MetricsRegistry();
+            let op = new metrics.ArchiveMetrics(registry).observe(new Operation("archive", "report", 3, silent, p => {
+                p.reportStage("dumping");
+                return Promise.reject(new ProcessError("pg_dump", [], 1, null, "no space left"));
+            }));
+            return op.then(() => assert.fail("archive succeeded"), () => {
+                assert.equal(registry.counter("ts_archive_failures_total").get({ operation: "archive", object_type: "report", reason: "DumpError" }), 1);
+                assert.ok(/ts_archive_operations_total\{object_type="report",operation="archive",outcome="failure"\} 1/.test(registry.render()));
+            });
+        });
+    });
+
+    describe('#serveMetrics()', function () {
+        it('should serve the metrics over HTTP', () => {
+            let registry = new metrics.MetricsRegistry();
+            registry.counter("jobs_total", "Jobs").inc({});
+            return metrics.serveMetrics(registry, 0, silent).then(server => new Promise((resolve, reject) => {
+                http.get({ port: server.address().port, path: "/metrics" }, res => {
+                    let body = "";
+                    res.on("data", chunk => body += chunk);
+                    res.on("end", () => resolve({ status: res.statusCode, body: body }));
+                }).on("error", reject);
+            }).then(res => {
+                server.close();
+                assert.equal(res.status, 200);
+                assert.ok(/^jobs_total 1$/m.test(res.body));
+            }, err => {
+                server.close();
+                throw err;
+            }));
+        });
+    });
+});
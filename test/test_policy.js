@@ -0,0 +1,54 @@
+const assert = require('assert');
+const policy = require('../dist/policy');
+
+function activity(overrides) {
+    return Object.assign({ id: 74, age_days: 400, idle_days: 200, total_bytes: 1024 }, overrides);
+}
+
+describe('archive policy', function () {
+
+    describe('#policyExclusions()', function () {
+        it('should select a report when no rule is configured', () => {
+            assert.deepEqual(policy.policyExclusions({}, activity({})), []);
+        });
+        it('should exclude reports younger than min_age_days', () => {
+            assert.equal(policy.policyExclusions({ min_age_days: 365 }, activity({ age_days: 30 })).length, 1);
+            assert.equal(policy.policyExclusions({ min_age_days: 365 }, activity({ age_days: null })).length, 1);
+        });
+        it('should treat never scanned reports as idle', () => {
+            assert.deepEqual(policy.policyExclusions({ min_idle_days: 90 }, activity({ idle_days: null })), []);
+            assert.equal(policy.policyExclusions({ min_idle_days: 90 }, activity({ idle_days: 10 })).length, 1);
+        });
+        it('should exclude reports smaller than min_total_bytes', () => {
+            assert.equal(policy.policyExclusions({ min_total_bytes: 4096 }, activity({})).length, 1);
+        });
+        it('should honour the allow and deny lists', () => {
+            assert.equal(policy.policyExclusions({ deny: [74] }, activity({})).length, 1);
+            assert.equal(policy.policyExclusions({ allow: [75] }, activity({})).length, 1);
+            assert.deepEqual(policy.policyExclusions({ allow: [74] }, activity({})), []);
+        });
+        it('should only evaluate the lists when asked to', () => {
+            assert.deepEqual(policy.policyExclusions({ min_age_days: 365 }, activity({ age_days: null }), true), []);
+        });
+        it('should report every rule that excludes the report', () => {
+            let p = { min_age_days: 365, min_total_bytes: 4096, deny: [74] };
+            assert.equal(policy.policyExclusions(p, activity({ age_days: 1 })).length, 3);
+        });
+    });
+
+    describe('#validatePolicy()', function () {
+        it('should require a valid age column with min_age_days', () => {
+            policy.validatePolicy({});
+            policy.validatePolicy({ min_age_days: 365, age_column: "created_at" });
+            assert.throws(() => policy.validatePolicy({ min_age_days: 365 }), /age_column/);
+            assert.throws(() => policy.validatePolicy({ min_age_days: 365, age_column: "now()) --" }), /Invalid age column/);
+        });
+    });
+
+    describe('#idleTrackingUnsupported()', function () {
+        it('should only accept servers tracking table scans', () => {
+            assert.equal(policy.idleTrackingUnsupported(160002), null);
+            assert(/Postgres 16/.test(policy.idleTrackingUnsupported(150004)));
+        });
+    });
+});
@@ -0,0 +1,94 @@
+const assert = require('assert');
+const fs = require("fs")
+const os = require("os")
+const path = require("path")
+const proc = require('../dist/process');
+const errors = require('../dist/errors');
+
+const logger = {
+    error: () => { },
+    warn: () => { },
+    info: () => { },
+    verbose: () => { },
+    debug: () => { },
+    silly: () => { }
+};
+
+/**
+ * Return the configuration of a PgRunner whose "psql" prints its arguments
+ * and the libpq environment variables
+ */
+function fakePgConfig(credentials) {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), `ts-archive-restore-test-${process.pid}-`));
+    let psql = path.join(dir, "psql");
+    fs.writeFileSync(psql, '#!/bin/sh\necho "$@"\necho "$PGHOST $PGPORT $PGDATABASE $PGUSER"\necho "${PGPASSWORD:-none}"\ncat "${PGPASSFILE:-/dev/null}"\n');
+    fs.chmodSync(psql, 0o755);
+    return {
+        pg_prefix: dir,
+        pg_credentials: credentials,
+        db_connection: { host: "dbhost", port: 5433, database: "stats", user: "archiver", password: "se:cret", schema: "public" }
+    };
+}
+
+describe('child processes', function () {
+
+    describe('#startProcess()', function () {
+        it('should connect the standard streams of the process', done => {
+            let p = proc.startProcess("cat", []);
+            let output = "";
+            p.child.stdout.on("data", chunk => {
+                output += chunk.toString();
+            });
+            p.exited
+                .then(() => {
+                    assert.equal(output, "This is a test");
+                    done();
+                })
+                .catch(done);
+            p.child.stdin.end("This is a test");
+        });
+        it('should reject with the exit status and standard error', done => {
+            proc.startProcess("sh", ["-c", "echo failure >&2; exit 3"]).exited
+                .then(() => done(new Error("process should have failed")))
+                .catch(err => {
+                    assert.ok(err instanceof errors.ProcessError);
+                    assert.equal(err.status, 3);
+                    assert.equal(err.stderr, "failure");
+                    assert.deepEqual(err.args, ["-c", "echo failure >&2; exit 3"]);
+                    assert.ok(/exited with status 3: failure/.test(err.message));
+                    done();
+                })
+                .catch(done);
+        });
+        it('should reject when the process is killed', done => {
+            let p = proc.startProcess("cat", []);
+            p.exited
+                .then(() => done(new Error("process should have failed")))
+                .catch(err => {
+                    assert.ok(/killed by SIGTERM/.test(err.message));
+                    done();
+                })
+                .catch(done);
+            p.kill();
+        });
+    });
+
+    describe('PgRunner', function () {
+        it('should pass the connection in the environment, not the arguments', done => {
+            new proc.PgRunner(fakePgConfig("env"), logger).run("psql", ["-v", "ON_ERROR_STOP=1"])
+                .then(output => {
+                    assert.equal(output, "-v ON_ERROR_STOP=1\ndbhost 5433 stats archiver\nse:cret\n");
+                    done();
+                })
+                .catch(done);
+        });
+        it('should pass the password in a private pgpass file', done => {
+            new proc.PgRunner(fakePgConfig("pgpass"), logger).run("psql", [])
+                .then(output => {
+                    assert.equal(output, "\ndbhost 5433 stats archiver\nnone\ndbhost:5433:stats:archiver:se\\:cret\n");
+                    done();
+                })
+                .catch(done);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+const assert = require('assert');
+const progress = require('../dist/progress');
+
+// Logger recording the lines logged by an Operation along with their fields
+function recordingLogger(lines, fields) {
+    let log = f => lines.push(Object.assign({ message: f()[0] }, fields));
+    return {
+        child: more => recordingLogger(lines, Object.assign({}, fields, more)),
+        error: log, warn: log, info: log, verbose: log, debug: log, silly: log
+    };
+}
+
+describe('progress', function () {
+
+    describe('Operation', function () {
+        it('should report the stages and transfers of its work, then its outcome', () => {
+            let events = [];
+            let op = new progress.Operation("restore", "report", 74, recordingLogger([], {}), p => {
+                p.reportStage("downloading");
+                let listener = p.reportTransfer("download");
+                listener(10, 20);
+                listener(20, 20);
+                p.reportStage("restoring");
+                return Promise.resolve("done");
+            });
+            op.on("stage", e => events.push(`${e.operation} ${e.object_type} ${e.object_id} ${e.stage}`));
+            op.on("transfer", e => events.push(`${e.direction} ${e.transferred}/${e.total}`));
+            op.on("outcome", e => events.push(`ok ${e.ok} ${e.result}`));
+            return op.then(result => {
+                assert.equal(result, "done");
+                assert.deepEqual(events, [
+                    "restore report 74 downloading",
+                    "download 10/20",
+                    "download 20/20",
+                    "restore report 74 restoring",
+                    "ok true done"
+                ]);
+            });
+        });
+        it('should report failures to its outcome listeners and Promise', () => {
+            let outcome;
+            let op = new progress.Operation("archive", "analysis", 4, recordingLogger([], {}), () => Promise.reject(new Error("pg_dump failed")));
+            op.on("outcome", e => outcome = e);
+            return op.catch(err => {
+                assert.equal(err.message, "pg_dump failed");
+                assert.equal(outcome.ok, false);
+                assert.ok(/pg_dump failed/.test(outcome.error));
+                assert.equal(outcome.reason, "ArchiveRestoreError");
+            });
+        });
+        it('should hand out the operations it cascades to', () => {
+            let children = [];
+            let op = new progress.Operation("restore", "analysis", 4, recordingLogger([], {}), p => Promise.all([1, 2].map(id =>
+                p.startChild("restore", "report", id, child => {
+                    child.reportStage("marking");
+                    return Promise.resolve(id);
+                }))));
+            op.on("child", child => child.on("stage", e => children.push(`${e.object_type} ${e.object_id} ${e.stage}`)));
+            return op.then(ids => {
+                assert.deepEqual(ids, [1, 2]);
+                assert.deepEqual(children, ["report 1 marking", "report 2 marking"]);
+            });
+        });
+        it('should log with its correlation id, stage and durations, shared by the operations it cascades to', () => {
+            let lines = [];
+            let ids = [];
+            let op = new progress.Operation("archive", "report", 9, recordingLogger(lines, {}), p => {
+                p.reportStage("dumping");
+                p.logger.info(() => ["dumped"]);
+                return p.startChild("archive", "analysis", 2, child => {
+                    child.reportStage("dumping");
+                    return Promise.resolve();
+                });
+            });
+            op.on("child", child => ids.push(child.correlation_id, child.operation_id));
+            op.on("outcome", e => ids.push(e.correlation_id, e.duration_ms));
+            return op.then(() => {
+                assert.equal(ids[0], op.correlation_id);
+                assert.notEqual(ids[1], op.operation_id);
+                assert.equal(ids[2], op.correlation_id);
+                assert.ok(ids[3] >= 0);
+                let dumped = lines.find(l => l.message === "dumped");
+                assert.equal(dumped.correlation_id, op.correlation_id);
+                assert.equal(dumped.operation_id, op.operation_id);
+                assert.equal(dumped.object_type, "report");
+                assert.equal(dumped.stage, "dumping");
+                let childLines = lines.filter(l => l.object_type === "analysis");
+                assert.ok(childLines.length > 0);
+                assert.ok(childLines.every(l => l.correlation_id === op.correlation_id));
+                let outcome = lines.find(l => l.object_type === "report" && l.ok === true);
+                assert.ok(outcome.duration_ms >= 0);
+                assert.equal(outcome.stage, undefined);
+            });
+        });
+    });
+
+    describe('#noProgress()', function () {
+        it('should run cascaded work without reporting it', () => {
+            let logger = recordingLogger([], {});
+            let reporter = progress.noProgress(logger);
+            reporter.reportStage("dumping");
+            reporter.reportTransfer("upload")(1, null);
+            assert.strictEqual(reporter.logger, logger);
+            return reporter.startChild("archive", "analysis", 1, p => Promise.resolve(p))
+                .then(p => assert.strictEqual(p, reporter));
+        });
+    });
+});
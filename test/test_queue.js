@@ -0,0 +1,71 @@
+const assert = require('assert');
+const queue = require('../dist/queue');
+const errors = require('../dist/errors');
+
+const logger = {
+    error: () => { },
+    warn: () => { },
+    info: () => { },
+    verbose: () => { },
+    debug: () => { },
+    silly: () => { }
+};
+
+function delay(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('work queues', function () {
+
+    describe('WorkQueue', function () {
+        it('should never run more than limit pieces of work at once', done => {
+            let q = new queue.WorkQueue("restore", 2, logger);
+            let running = 0;
+            let highest = 0;
+            let work = i => q.run(() => {
+                running++;
+                highest = Math.max(highest, running);
+                return delay(5).then(() => {
+                    running--;
+                    return i;
+                });
+            });
+            Promise.all([1, 2, 3, 4, 5].map(work))
+                .then(results => {
+                    assert.deepEqual(results, [1, 2, 3, 4, 5]);
+                    assert.equal(highest, 2);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should free the slot of failed work', done => {
+            let q = new queue.WorkQueue("dump", 1, logger);
+            q.run(() => Promise.reject(new Error("boom")))
+                .catch(() => q.run(() => Promise.resolve("next")))
+                .then(result => {
+                    assert.equal(result, "next");
+                    done();
+                })
+                .catch(done);
+        });
+        it('should reject an invalid limit', () => {
+            assert.throws(() => new queue.WorkQueue("transfer", 0, logger));
+        });
+    });
+
+    describe('#settleAll()', function () {
+        it('should report the outcome for every id', done => {
+            queue.settleAll([74, 75, 76], id => id === 75 ? Promise.reject(new Error("no dump")) : Promise.resolve(`r${id}`))
+                .then(results => {
+                    assert.deepEqual(results.map(r => r.ok), [true, false, true]);
+                    assert.equal(results[0].result, "r74");
+                    assert.equal(results[1].error.message, "no dump");
+                    let err = new errors.BatchError("Restore", "report", results);
+                    assert.deepEqual(err.failures.map(r => r.id), [75]);
+                    assert.ok(/1 of 3/.test(err.message));
+                    done();
+                })
+                .catch(done);
+        });
+    });
+});
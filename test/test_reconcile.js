@@ -0,0 +1,98 @@
+const assert = require('assert');
+const reconcile = require('../dist/reconcile');
+
+function version(type, id, v, loc, current) {
+    return {
+        id: 1, object_type: type, object_id: id, version: v, archive_location: loc, manifest_location: null,
+        archive_checksum: null, created: new Date(), pruned: null, current: current
+    };
+}
+
+function kinds(discrepancies) {
+    return discrepancies.map(d => `${d.kind} ${d.object_type} ${d.id}`).sort();
+}
+
+describe('reconcile', function () {
+
+    describe('#tableOwner()', function () {
+        it('should find the report/analysis owning a table', () => {
+            assert.deepEqual(reconcile.tableOwner("segment_12"), { object_type: "report", id: 12 });
+            assert.deepEqual(reconcile.tableOwner("stats_12_speed"), { object_type: "report", id: 12 });
+            assert.deepEqual(reconcile.tableOwner("analysis_7_result"), { object_type: "analysis", id: 7 });
+            assert.equal(reconcile.tableOwner("segment_12_old"), null);
+            assert.equal(reconcile.tableOwner("report"), null);
+        });
+    });
+
+    describe('#dumpObject()', function () {
+        it('should find the report/analysis of a dump', () => {
+            assert.deepEqual(reconcile.dumpObject("s3://bucket/db/public/report_3.dump"),
+                { object_type: "report", id: 3, versioned: false });
+            assert.deepEqual(reconcile.dumpObject("file:///data/db/public/analysis_4/20170102T030405Z.dump"),
+                { object_type: "analysis", id: 4, versioned: true });
+            assert.equal(reconcile.dumpObject("s3://bucket/db/public/analysis_4/20170102T030405Z.manifest.json"), null);
+        });
+    });
+
+    describe('#findDiscrepancies()', function () {
+        it('should find nothing when the DB and archive storage agree', () => {
+            assert.deepEqual(reconcile.findDiscrepancies({
+                objects: [
+                    { object_type: "report", id: 1, archive_location: "s3://bucket/db/public/report_1/v1.dump" },
+                    { object_type: "report", id: 2, archive_location: null }
+                ],
+                tables: ["segment_2", "stats_2_speed"],
+                stored: ["s3://bucket/db/public/report_1/v1.dump", "s3://bucket/db/public/report_1/v1.manifest.json"],
+                versions: [version("report", 1, "v1", "s3://bucket/db/public/report_1/v1.dump", true)],
+                jobLocations: []
+            }), []);
+        });
+        it('should classify every disagreement', () => {
+            let found = reconcile.findDiscrepancies({
+                objects: [
+                    { object_type: "report", id: 1, archive_location: "bucket/db/public/report_1.dump" },
+                    { object_type: "report", id: 2, archive_location: "s3://bucket/db/public/report_2/v1.dump" },
+                    { object_type: "report", id: 3, archive_location: null },
+                    { object_type: "analysis", id: 4, archive_location: null }
+                ],
+                tables: ["segment_2", "analysis_4_result"],
+                stored: [
+                    "s3://bucket/db/public/report_2/v1.dump",
+                    "s3://bucket/db/public/report_3.dump",
+                    "s3://bucket/db/public/report_3/v2.dump",
+                    "s3://bucket/db/public/report_5/v1.dump"
+                ],
+                versions: [
+                    version("report", 2, "v1", "s3://bucket/db/public/report_2/v1.dump", true),
+                    version("report", 2, "v0", "s3://bucket/db/public/report_2/v0.dump", false),
+                    version("report", 3, "v2", "s3://bucket/db/public/report_3/v2.dump", false)
+                ],
+                jobLocations: ["s3://bucket/db/public/report_5/v1.dump"]
+            });
+            assert.deepEqual(kinds(found), [
+                "archived_with_tables report 2",
+                "missing_dump report 1",
+                "missing_version report 2",
+                "orphan_dump report 3",
+                "present_without_tables report 3"
+            ]);
+            let orphan = found.find(d => d.kind === "orphan_dump");
+            assert.equal(orphan.location, "s3://bucket/db/public/report_3.dump");
+            assert.equal(orphan.repairable, false);
+            assert.deepEqual(found.find(d => d.kind === "archived_with_tables").tables, ["segment_2"]);
+            assert.ok(/latest archived version is v2/.test(found.find(d => d.kind === "present_without_tables").detail));
+            assert.ok(found.every(d => !d.repaired));
+        });
+        it('should only offer to delete versioned orphan dumps', () => {
+            let found = reconcile.findDiscrepancies({
+                objects: [],
+                tables: [],
+                stored: ["s3://bucket/db/public/analysis_6/v3.dump"],
+                versions: [],
+                jobLocations: []
+            });
+            assert.deepEqual(kinds(found), ["orphan_dump analysis 6"]);
+            assert.equal(found[0].repairable, true);
+        });
+    });
+});
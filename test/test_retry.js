@@ -0,0 +1,143 @@
+const assert = require('assert');
+const retry = require('../dist/retry');
+const storage = require('../dist/storage');
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+const FAST = { storage: { base_delay_ms: 1, max_delay_ms: 2 }, db: { base_delay_ms: 1, max_delay_ms: 2 } };
+
+function transient(code) {
+    let err = new Error(`transient ${code}`);
+    err.code = code;
+    return err;
+}
+
+// Function failing with the given errors, then resolving with "done"
+function failing(errors) {
+    let calls = 0;
+    let f = () => calls++ < errors.length ? Promise.reject(errors[calls - 1]) : Promise.resolve("done");
+    f.calls = () => calls;
+    return f;
+}
+
+describe('retry', function () {
+
+    describe('#isRetryable()', function () {
+        it('should tell transient errors from fatal ones', () => {
+            assert.ok(retry.isRetryable(transient("ECONNRESET")));
+            assert.ok(retry.isRetryable(transient("SlowDown")));
+            assert.ok(retry.isRetryable(transient("57P01")));
+            assert.ok(retry.isRetryable(transient("08006")));
+            assert.ok(retry.isRetryable({ statusCode: 503, message: "Service Unavailable" }));
+            assert.ok(retry.isRetryable({ retryable: true }));
+            assert.ok(retry.isRetryable(new Error("Connection terminated unexpectedly")));
+            assert.ok(!retry.isRetryable(transient("NoSuchKey")));
+            assert.ok(!retry.isRetryable(transient("42P01")));
+            assert.ok(!retry.isRetryable({ statusCode: 403 }));
+            assert.ok(!retry.isRetryable(new Error("Dump of report 3 is corrupt")));
+            assert.ok(!retry.isRetryable("Unable to locate S3 location"));
+        });
+    });
+
+    describe('#backoffDelay()', function () {
+        it('should double the delay up to its maximum, with jitter', () => {
+            let policy = { attempts: 5, base_delay_ms: 100, max_delay_ms: 300 };
+            assert.equal(retry.backoffDelay(policy, 1, () => 0), 50);
+            assert.equal(retry.backoffDelay(policy, 1, () => 0.999), 100);
+            assert.equal(retry.backoffDelay(policy, 2, () => 0.5), 150);
+            assert.equal(retry.backoffDelay(policy, 5, () => 0), 150);
+        });
+    });
+
+    describe('Retrier', function () {
+        it('should retry transient failures, counting every retry', () => {
+            let retries = [];
+            let retrier = new retry.Retrier(FAST, silent, (step, reason) => retries.push(`${step} ${reason}`));
+            let f = failing([transient("ECONNRESET"), transient("SlowDown")]);
+            return retrier.run("storage", "Upload", f).then(result => {
+                assert.equal(result, "done");
+                assert.equal(f.calls(), 3);
+                assert.deepEqual(retries, ["storage ECONNRESET", "storage SlowDown"]);
+            });
+        });
+        it('should give up after the configured number of attempts', () => {
+            let retrier = new retry.Retrier({ db: { attempts: 2, base_delay_ms: 1 } }, silent);
+            let f = failing([transient("08006"), transient("08006"), transient("08006")]);
+            return retrier.run("db", "Query", f).then(() => assert.fail("query succeeded"), err => {
+                assert.equal(err.code, "08006");
+                assert.equal(f.calls(), 2);
+            });
+        });
+        it('should not retry fatal failures', () => {
+            let retrier = new retry.Retrier(FAST, silent);
+            let f = failing([transient("NoSuchKey")]);
+            return retrier.run("storage", "Download", f).then(() => assert.fail("download succeeded"), err => {
+                assert.equal(err.code, "NoSuchKey");
+                assert.equal(f.calls(), 1);
+            });
+        });
+        it('should refuse policies without attempts', () => {
+            assert.throws(() => new retry.Retrier({ storage: { attempts: 0 } }, silent), /at least 1/);
+        });
+    });
+
+    describe('RetryingStorage', function () {
+        it('should retry the requests of its backend', () => {
+            let backend = new storage.MemoryStorage();
+            let lists = 0;
+            let list = backend.list.bind(backend);
+            backend.list = prefix => ++lists === 1 ? Promise.reject(transient("InternalError")) : list(prefix);
+            return new retry.RetryingStorage(backend, new retry.Retrier(FAST, silent)).list("db/")
+                .then(locations => {
+                    assert.deepEqual(locations, []);
+                    assert.equal(lists, 2);
+                });
+        });
+    });
+
+    describe('#isReadOnly()', function () {
+        it('should only accept SELECTs that do not lock or write', () => {
+            assert.ok(retry.isReadOnly("select id from report where id = $1"));
+            assert.ok(retry.isReadOnly({ text: "  SELECT 1" }));
+            assert.ok(!retry.isReadOnly("select id from report where id = $1 for update"));
+            assert.ok(!retry.isReadOnly("select * into report_copy from report"));
+            assert.ok(!retry.isReadOnly("update report set archive_location = null"));
+            assert.ok(!retry.isReadOnly("with d as (delete from job returning id) select * from d"));
+        });
+    });
+
+    describe('#retryingDatabase()', function () {
+        it('should retry read-only queries only', () => {
+            let calls = [];
+            // Frozen, as pg-promise databases are
+            let db = Object.freeze({
+                one: (query, values) => {
+                    calls.push(query);
+                    return calls.length === 1 ? Promise.reject(transient("57P01")) : Promise.resolve({ id: values });
+                },
+                none: query => {
+                    calls.push(query);
+                    return Promise.reject(transient("57P01"));
+                },
+                tx: cb => cb("t")
+            });
+            let retrying = retry.retryingDatabase(db, new retry.Retrier(FAST, silent));
+            return retrying.one("select id from report where id = $1", 3)
+                .then(row => {
+                    assert.deepEqual(row, { id: 3 });
+                    assert.equal(calls.length, 2);
+                    return retrying.none("delete from report_tables where report_id = $1", 3);
+                })
+                .then(() => assert.fail("delete succeeded"), err => {
+                    assert.equal(err.code, "57P01");
+                    assert.equal(calls.length, 3);
+                    assert.equal(retrying.tx(t => t), "t");
+                });
+        });
+    });
+});
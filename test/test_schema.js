@@ -0,0 +1,112 @@
+const assert = require('assert');
+const _ = require('lodash');
+const schema = require('../dist/schema');
+const errors = require('../dist/errors');
+
+// Logger discarding every line
+const silent = {
+    child: () => silent,
+    error: () => undefined, warn: () => undefined, info: () => undefined,
+    verbose: () => undefined, debug: () => undefined, silly: () => undefined
+};
+
+// Every expected column of the schema
+const ALL_COLUMNS = _.flatMap(_.keys(schema.EXPECTED_COLUMNS),
+    table => schema.EXPECTED_COLUMNS[table].map(column => ({ table_name: table, column_name: column })));
+
+// Database holding the given applied versions (none and no table if null) and
+// columns, recording the statements run
+function fakeDb(versions, columns) {
+    let db = {
+        statements: [],
+        one: (sql, value) => {
+            db.statements.push(sql);
+            return Promise.resolve(/information_schema.tables/.test(sql) ? { n: versions === null ? 0 : 1 } : {});
+        },
+        any: (sql) => {
+            db.statements.push(sql);
+            if (/information_schema.columns/.test(sql)) {
+                return Promise.resolve(columns);
+            }
+            return Promise.resolve((versions || []).map(v => ({ version: v })));
+        },
+        none: (sql, values) => {
+            db.statements.push(sql);
+            let m = /^INSERT INTO \S*archive_schema_version/.exec(sql);
+            if (m) {
+                versions = (versions || []).concat([values[0]]);
+            }
+            return Promise.resolve(null);
+        },
+        tx: f => f(db)
+    };
+    return db;
+}
+
+describe('schema', function () {
+
+    describe('MIGRATIONS', function () {
+        it('should be numbered from 1 in order', () => {
+            assert.deepEqual(schema.MIGRATIONS.map(m => m.version), _.range(1, schema.MIGRATIONS.length + 1));
+            assert.equal(schema.SCHEMA_VERSION, schema.MIGRATIONS.length);
+        });
+    });
+
+    describe('#missingColumns()', function () {
+        it('should list the expected columns not found', () => {
+            assert.deepEqual(schema.missingColumns(ALL_COLUMNS), []);
+            assert.deepEqual(schema.missingColumns(ALL_COLUMNS.filter(c => c.column_name !== "archive_checksum")),
+                ["report.archive_checksum", "analysis.archive_checksum", "archive_version.archive_checksum"]);
+        });
+    });
+
+    describe('#check()', function () {
+        it('should pass a migrated schema', () => {
+            return new schema.SchemaManager(fakeDb(_.range(1, schema.SCHEMA_VERSION + 1), ALL_COLUMNS), "public", silent).check();
+        });
+        it('should refuse a schema lacking migrations', () => {
+            return new schema.SchemaManager(fakeDb(null, ALL_COLUMNS), "public", silent).check()
+                .then(() => assert.fail("check passed"), err => {
+                    assert(err instanceof errors.SchemaError);
+                    assert.equal(err.version, 0);
+                });
+        });
+        it('should refuse a schema newer than the library', () => {
+            return new schema.SchemaManager(fakeDb(_.range(1, schema.SCHEMA_VERSION + 2), ALL_COLUMNS), "public", silent).check()
+                .then(() => assert.fail("check passed"), err => {
+                    assert(err instanceof errors.SchemaError);
+                    assert.equal(err.version, schema.SCHEMA_VERSION + 1);
+                });
+        });
+        it('should refuse a schema lacking columns', () => {
+            return new schema.SchemaManager(fakeDb(_.range(1, schema.SCHEMA_VERSION + 1), ALL_COLUMNS.slice(1)), "public", silent).check()
+                .then(() => assert.fail("check passed"), err => {
+                    assert(err instanceof errors.SchemaError);
+                    assert(/lacks the columns report.id/.test(err.message), err.message);
+                });
+        });
+    });
+
+    describe('#ensureSchema()', function () {
+        it('should apply the missing migrations in order', () => {
+            let db = fakeDb([1], ALL_COLUMNS);
+            return new schema.SchemaManager(db, "ts", silent).ensureSchema()
+                .then(result => {
+                    assert.equal(result.from_version, 1);
+                    assert.equal(result.to_version, schema.SCHEMA_VERSION);
+                    assert.deepEqual(result.applied.map(m => m.version), _.range(2, schema.SCHEMA_VERSION + 1));
+                    assert(/pg_advisory_xact_lock/.test(db.statements[0]));
+                    assert(db.statements.some(s => /create table if not exists "ts".archive_job/.test(s)));
+                    assert(!db.statements.some(s => /alter table/.test(s)));
+                });
+        });
+        it('should do nothing to a migrated schema', () => {
+            let db = fakeDb(_.range(1, schema.SCHEMA_VERSION + 1), ALL_COLUMNS);
+            return new schema.SchemaManager(db, "public", silent).ensureSchema()
+                .then(result => {
+                    assert.deepEqual(result.applied, []);
+                    assert.equal(result.from_version, schema.SCHEMA_VERSION);
+                });
+        });
+    });
+});
@@ -0,0 +1,29 @@
+const assert = require('assert');
+const statements = require('../dist/statements');
+
+describe('prepared statements', function () {
+
+    describe('#validateIdentifier()', function () {
+        it('should accept plain lower case identifiers', () => {
+            assert.equal(statements.validateIdentifier("public", "schema"), "public");
+            assert.equal(statements.validateIdentifier("stats_2$", "schema"), "stats_2$");
+        });
+        it('should reject identifiers that would need quoting', () => {
+            ["Public", "1stats", "stats; drop table report", "a\"b", "", "x".repeat(64)].forEach(name => {
+                assert.throws(() => statements.validateIdentifier(name, "schema"), /Invalid schema name/);
+            });
+        });
+    });
+
+    describe('Statements', function () {
+        it('should refuse an invalid schema', () => {
+            assert.throws(() => new statements.Statements("public; drop table report"), /Invalid schema name/);
+        });
+        it('should bind the id of the reset statements last', () => {
+            let sql = new statements.Statements("public");
+            ["report", "analysis"].forEach(type => {
+                assert(/restore_timestamp = \$3.* WHERE \(id=\$4\)$/.test(sql.reset_s3_location_sql[type]), sql.reset_s3_location_sql[type]);
+            });
+        });
+    });
+});
@@ -0,0 +1,288 @@
+const assert = require('assert');
+const fs = require("fs")
+const os = require("os")
+const path = require("path")
+const stream = require("stream")
+const storage = require('../dist/storage');
+
+const logger = {
+    error: () => { },
+    warn: () => { },
+    info: () => { },
+    verbose: () => { },
+    debug: () => { },
+    silly: () => { }
+};
+
+function tmpName(name) {
+    return path.join(os.tmpdir(), `ts-archive-restore-test-${process.pid}-${name}`);
+}
+
+function readAll(rd) {
+    return new Promise((resolve, reject) => {
+        let chunks = [];
+        rd.on("data", chunk => chunks.push(chunk));
+        rd.on("error", reject);
+        rd.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    });
+}
+
+describe('storage backends', function () {
+
+    describe('#parseLocation()', function () {
+        it('should split a location into scheme and path', () => {
+            assert.deepEqual(storage.parseLocation("file:///var/archive/report_1.dump"),
+                { scheme: "file", path: "/var/archive/report_1.dump" });
+        });
+        it('should treat a location without a scheme as bucket/key in S3', () => {
+            assert.deepEqual(storage.parseLocation("bucket/db/public/report_1.dump"),
+                { scheme: "s3", path: "bucket/db/public/report_1.dump" });
+        });
+    });
+
+    describe('MemoryStorage', function () {
+        it('should return the object that was stored', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-src");
+            let dst = tmpName("mem-dst");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_1.dump")
+                .then(loc => {
+                    assert.equal(loc, "memory://db/public/report_1.dump");
+                    return backend.download(loc, dst);
+                })
+                .then(() => {
+                    assert.equal(fs.readFileSync(dst, "utf8"), "This is a test");
+                    fs.unlinkSync(src);
+                    fs.unlinkSync(dst);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should keep the metadata stored with the object', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-meta");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_2.dump", { sha256: "abc" })
+                .then(loc => backend.metadata(loc))
+                .then(metadata => {
+                    assert.deepEqual(metadata, { sha256: "abc" });
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should store a stream and stream it back', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = new stream.PassThrough();
+            let upload = backend.uploadStream(src, "db/public/report_3.dump", { manifest: "m" });
+            src.end("This is a test");
+            upload.promise
+                .then(loc => {
+                    assert.equal(loc, "memory://db/public/report_3.dump");
+                    return Promise.all([backend.downloadStream(loc), backend.metadata(loc)]);
+                })
+                .then(results => {
+                    assert.deepEqual(results[1], { manifest: "m" });
+                    return readAll(results[0].stream);
+                })
+                .then(data => {
+                    assert.equal(data, "This is a test");
+                    done();
+                })
+                .catch(done);
+        });
+        it('should not store an aborted stream', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = new stream.PassThrough();
+            let upload = backend.uploadStream(src, "db/public/report_4.dump");
+            src.write("partial");
+            upload.abort();
+            upload.promise
+                .then(() => done(new Error("upload should have failed")))
+                .catch(() => backend.metadata("memory://db/public/report_4.dump")
+                    .then(() => done(new Error("aborted object should not exist")))
+                    .catch(() => done()));
+        });
+        it('should delete the object and its metadata', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-remove");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_5/v1.dump", { sha256: "abc" })
+                .then(loc => backend.remove(loc).then(() => backend.remove(loc)).then(() => loc))
+                .then(loc => backend.metadata(loc))
+                .then(() => done(new Error("removed object should not exist")))
+                .catch(err => {
+                    fs.unlinkSync(src);
+                    assert.ok(/No object/.test(err.message));
+                    done();
+                })
+                .catch(done);
+        });
+        it('should return the size of the object', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-size");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_6.dump")
+                .then(loc => backend.size(loc))
+                .then(size => {
+                    assert.equal(size, 14);
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should report the bytes transferred', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-progress");
+            let reported = [];
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_7.dump", {}, (n, total) => reported.push(["upload", n, total]))
+                .then(loc => backend.download(loc, src, (n, total) => reported.push(["download", n, total])))
+                .then(() => {
+                    assert.deepEqual(reported, [["upload", 14, 14], ["download", 14, 14]]);
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should list the objects below a prefix', done => {
+            let backend = new storage.MemoryStorage(logger);
+            let src = tmpName("mem-list");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            Promise.all(["db/public/report_1.dump", "db/public/report_2/v1.dump", "db/other/report_3.dump"]
+                .map(key => backend.upload(src, key)))
+                .then(() => backend.list("db/public/"))
+                .then(locations => {
+                    assert.deepEqual(locations.sort(), ["memory://db/public/report_1.dump", "memory://db/public/report_2/v1.dump"]);
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should reject locations held by another backend', done => {
+            new storage.MemoryStorage(logger).download("s3://bucket/key", tmpName("unused"))
+                .then(() => done(new Error("download should have failed")))
+                .catch(() => done());
+        });
+    });
+
+    describe('FileStorage', function () {
+        it('should copy the dump below the configured directory and back', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-src");
+            let dst = tmpName("file-dst");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/analysis_4.dump")
+                .then(loc => {
+                    assert.equal(loc, `file://${path.join(dir, "db", "public", "analysis_4.dump")}`);
+                    return backend.download(loc, dst);
+                })
+                .then(() => {
+                    assert.equal(fs.readFileSync(dst, "utf8"), "This is a test");
+                    fs.unlinkSync(src);
+                    fs.unlinkSync(dst);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should keep the metadata stored with the object', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-meta");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/analysis_5.dump", { sha256: "abc" })
+                .then(loc => backend.metadata(loc))
+                .then(metadata => {
+                    assert.deepEqual(metadata, { sha256: "abc" });
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should return the size of the object', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-size");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/analysis_6.dump", { sha256: "abc" })
+                .then(loc => backend.size(loc))
+                .then(size => {
+                    assert.equal(size, 14);
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should report the bytes copied', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-progress");
+            let dst = tmpName("file-progress-dst");
+            let reported = [];
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/analysis_10.dump", {}, (n, total) => reported.push(["upload", n, total]))
+                .then(loc => backend.download(loc, dst, (n, total) => reported.push(["download", n, total])))
+                .then(() => {
+                    assert.deepEqual(reported, [["upload", 14, 14], ["download", 14, 14]]);
+                    fs.unlinkSync(src);
+                    fs.unlinkSync(dst);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should list the objects below a prefix without their metadata', done => {
+            let dir = tmpName("file-list-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-list");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/report_8.dump", { sha256: "abc" })
+                .then(() => backend.upload(src, "db/public/report_9/v1.dump"))
+                .then(() => backend.list("db/public/"))
+                .then(locations => {
+                    assert.deepEqual(locations.sort(), [
+                        `file://${path.join(dir, "db", "public", "report_8.dump")}`,
+                        `file://${path.join(dir, "db", "public", "report_9", "v1.dump")}`
+                    ]);
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should delete the object and its metadata', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = tmpName("file-remove");
+            let target = path.join(dir, "db", "public", "analysis_7", "v1.dump");
+            fs.writeFileSync(src, "This is a test", "utf8");
+            backend.upload(src, "db/public/analysis_7/v1.dump", { sha256: "abc" })
+                .then(loc => backend.remove(loc))
+                .then(() => {
+                    assert.ok(!fs.existsSync(target));
+                    assert.ok(!fs.existsSync(`${target}.metadata.json`));
+                    fs.unlinkSync(src);
+                    done();
+                })
+                .catch(done);
+        });
+        it('should store a stream and stream it back', done => {
+            let dir = tmpName("file-dir");
+            let backend = storage.createStorage({ storage: { type: "file", directory: dir } }, logger);
+            let src = new stream.PassThrough();
+            let upload = backend.uploadStream(src, "db/public/analysis_6.dump", { manifest: "m" });
+            src.end("This is a test");
+            upload.promise
+                .then(loc => Promise.all([backend.downloadStream(loc), backend.metadata(loc)]))
+                .then(results => {
+                    assert.deepEqual(results[1], { manifest: "m" });
+                    return readAll(results[0].stream);
+                })
+                .then(data => {
+                    assert.equal(data, "This is a test");
+                    done();
+                })
+                .catch(done);
+        });
+    });
+});
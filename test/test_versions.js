@@ -0,0 +1,56 @@
+const assert = require('assert');
+const versions = require('../dist/versions');
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date("2026-10-19T12:00:00Z");
+
+function version(type, id, daysOld, current) {
+    let created = new Date(now.getTime() - daysOld * DAY);
+    return {
+        object_type: type,
+        object_id: id,
+        version: versions.newVersion(created),
+        archive_location: `memory://db/public/${type}_${id}/${versions.newVersion(created)}.dump`,
+        created: created,
+        current: !!current
+    };
+}
+
+describe('archived versions', function () {
+
+    describe('#newVersion()', function () {
+        it('should name versions after the UTC time of the archive', () => {
+            assert.equal(versions.newVersion(new Date("2026-10-19T12:00:00.123Z")), "20261019T120000123Z");
+        });
+    });
+
+    describe('#selectPrunable()', function () {
+        let history = [
+            version("report", 1, 300), version("report", 1, 200), version("report", 1, 100), version("report", 1, 1),
+            version("analysis", 1, 400, true), version("analysis", 1, 10)
+        ];
+        let names = vs => vs.map(v => `${v.object_type} ${v.object_id} ${v.version}`);
+
+        it('should keep everything without a policy', () => {
+            assert.deepEqual(versions.selectPrunable(history, {}, now), []);
+        });
+        it('should keep the last versions of each object', () => {
+            assert.deepEqual(names(versions.selectPrunable(history, { keep_last: 2 }, now)),
+                names([history[0], history[1]]));
+        });
+        it('should keep young versions', () => {
+            assert.deepEqual(names(versions.selectPrunable(history, { max_age_days: 150 }, now)),
+                names([history[0], history[1]]));
+        });
+        it('should keep versions kept by either rule', () => {
+            assert.deepEqual(names(versions.selectPrunable(history, { keep_last: 1, max_age_days: 150 }, now)),
+                names([history[0], history[1]]));
+            assert.deepEqual(names(versions.selectPrunable(history, { keep_last: 1, max_age_days: 250 }, now)),
+                names([history[0]]));
+        });
+        it('should never prune the current archive', () => {
+            assert.deepEqual(names(versions.selectPrunable(history, { keep_last: 0 }, now)),
+                names([history[0], history[1], history[2], history[5], history[3]]));
+        });
+    });
+});